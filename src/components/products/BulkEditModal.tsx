@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+
+export interface BulkEditField {
+  key: string;
+  label: string;
+  options: Array<{ code: string; name: string }> | null;
+}
+
+interface BulkEditModalProps {
+  fields: BulkEditField[];
+  cellCount: number;
+  onClose: () => void;
+  onApply: (field: string, value: string) => void;
+}
+
+const BulkEditModal: React.FC<BulkEditModalProps> = ({ fields, cellCount, onClose, onApply }) => {
+  const [field, setField] = useState(fields[0]?.key || '');
+  const [value, setValue] = useState('');
+
+  const selectedField = fields.find(f => f.key === field);
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/60 z-50" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full mx-4" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Bulk Set Value</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Apply one value to the selected rows ({cellCount} {cellCount === 1 ? 'cell' : 'cells'} selected)
+          </p>
+        </div>
+        <div className="p-6 space-y-4">
+          {fields.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">None of the selected columns can be edited.</p>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Column</label>
+                <select
+                  value={field}
+                  onChange={(e) => {
+                    setField(e.target.value);
+                    setValue('');
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {fields.map(f => (
+                    <option key={f.key} value={f.key}>{f.label.replace('*', '')}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Value</label>
+                {selectedField?.options ? (
+                  <select
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">(empty)</option>
+                    {selectedField.options.map(opt => (
+                      <option key={opt.code} value={opt.name}>{opt.name}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && field) {
+                        onApply(field, value);
+                      }
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Leave empty to clear"
+                    autoFocus
+                  />
+                )}
+              </div>
+            </>
+          )}
+        </div>
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onApply(field, value)}
+            disabled={!field}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkEditModal;
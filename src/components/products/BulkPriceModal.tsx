@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import type { ProductRowData } from './ExcelLikeProductForm';
+import { PriceAdjustment, ROUNDING_STEPS } from '../../utils/priceAdjustment';
+import { DeliveryHub, findHubByField, getHubFieldLabel, getHubPriceFields } from '../../utils/deliveryHubs';
+
+interface BulkPriceModalProps {
+  rows: ProductRowData[];
+  targetRows: number[];
+  hubs: DeliveryHub[];
+  // Price columns the seller may edit
+  fields: string[];
+  // Rows after the adjustment, with the currency conversions applied
+  getRepricedRows: (adjustment: PriceAdjustment) => ProductRowData[];
+  onApply: (adjustment: PriceAdjustment) => void;
+  onClose: () => void;
+}
+
+const BulkPriceModal: React.FC<BulkPriceModalProps> = ({ rows, targetRows, hubs, fields, getRepricedRows, onApply, onClose }) => {
+  const [selectedFields, setSelectedFields] = useState<string[]>(fields);
+  const [mode, setMode] = useState<PriceAdjustment['mode']>('percent');
+  const [amount, setAmount] = useState('');
+  const [roundTo, setRoundTo] = useState(0.01);
+
+  const adjustment: PriceAdjustment | null = amount !== '' && !isNaN(Number(amount)) && Number(amount) !== 0
+    ? { fields: selectedFields, mode, amount: Number(amount), roundTo }
+    : null;
+
+  // Preview by running the real update on a copy of the rows
+  const repriced = adjustment && adjustment.fields.length > 0 ? getRepricedRows(adjustment) : null;
+  const changes = repriced
+    ? targetRows.flatMap(index => hubs.flatMap(getHubPriceFields)
+        .map(field => ({
+          row: index,
+          field,
+          before: String(rows[index][field] ?? ''),
+          after: String(repriced[index][field] ?? ''),
+        }))
+        .filter(change => change.before !== change.after))
+    : [];
+
+  const changedRowCount = new Set(changes.map(change => change.row)).size;
+
+  const labelFor = (field: string) => {
+    const hub = findHubByField(hubs, field);
+    return hub ? getHubFieldLabel(hub, field) : field;
+  };
+
+  const toggleField = (field: string) => {
+    setSelectedFields(prev => (prev.includes(field) ? prev.filter(f => f !== field) : [...prev, field]));
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/60 z-50" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Adjust Prices</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Reprice {targetRows.length} selected {targetRows.length === 1 ? 'row' : 'rows'}. Linked currencies and XE rates are recalculated.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+          >
+            <i className="fas fa-times text-lg"></i>
+          </button>
+        </div>
+        <div className="p-6 space-y-4 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Prices to change</label>
+            <div className="flex flex-wrap gap-2">
+              {fields.map(field => (
+                <label
+                  key={field}
+                  className={`flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border cursor-pointer ${
+                    selectedFields.includes(field)
+                      ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                      : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedFields.includes(field)}
+                    onChange={() => toggleField(field)}
+                    className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                  />
+                  {labelFor(field)}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Change by</label>
+              <select
+                value={mode}
+                onChange={(e) => setMode(e.target.value as PriceAdjustment['mode'])}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="percent">Percentage (%)</option>
+                <option value="fixed">Fixed amount</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Amount</label>
+              <input
+                type="number"
+                step="any"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder={mode === 'percent' ? 'e.g. 5 or -3' : 'e.g. 10 or -10'}
+                autoFocus
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Round to</label>
+              <select
+                value={roundTo}
+                onChange={(e) => setRoundTo(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {ROUNDING_STEPS.map(step => (
+                  <option key={step} value={step}>{step}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto">
+          {changes.length === 0 ? (
+            <div className="p-12 text-center text-sm text-gray-500 dark:text-gray-400">
+              {adjustment ? 'No prices would change. Empty price cells are left alone.' : 'Enter an amount to preview the new prices.'}
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-900 sticky top-0">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase">Row</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase">Price</th>
+                  <th className="px-4 py-3 text-right text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase">Before</th>
+                  <th className="px-6 py-3 text-right text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase">After</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {changes.map(change => (
+                  <tr key={`${change.row}-${change.field}`}>
+                    <td className="px-6 py-2 text-sm text-gray-600 dark:text-gray-300">Row {change.row + 1}</td>
+                    <td className="px-4 py-2 text-sm text-gray-800 dark:text-gray-100">{labelFor(change.field)}</td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-500 dark:text-gray-400">{change.before || '-'}</td>
+                    <td className="px-6 py-2 text-sm text-right font-semibold text-gray-900 dark:text-white">{change.after || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between gap-3">
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {changedRowCount} of {targetRows.length} {targetRows.length === 1 ? 'row' : 'rows'} will change
+          </span>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => adjustment && onApply(adjustment)}
+              disabled={changes.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkPriceModal;
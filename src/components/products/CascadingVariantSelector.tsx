@@ -1,7 +1,17 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import Select from 'react-select';
 import { ProductService } from '../../services/products/products.services';
 import { StorageService } from '../../services/storage/storage.services';
+import { GradeService } from '../../services/grade/grade.services';
+import { useConstants } from '../../hooks/useConstants';
+import {
+  buildVariantMatrix,
+  countVariantMatrix,
+  getCountriesWithoutSim,
+  MATRIX_AXES,
+  MatrixAxis,
+  MAX_MATRIX_VARIANTS,
+} from '../../utils/variantMatrix';
 
 export interface VariantOption {
   skuFamilyId: string;
@@ -10,10 +20,16 @@ export interface VariantOption {
   storage: string;
   color: string;
   ram?: string;
+  // Matrix axes beyond model / storage / colour: grade ID, country spec code and SIM type
+  grade?: string;
+  country?: string;
+  sim?: string;
 }
 
 interface CascadingVariantSelectorProps {
   onVariantsSelected: (variants: VariantOption[]) => void;
+  // Axes the seller may fill in; the model is always required
+  axes?: MatrixAxis[];
 }
 
 interface SkuFamilyOption {
@@ -40,24 +56,35 @@ interface SelectOption {
   data?: any;
 }
 
+const ALL_AXES: MatrixAxis[] = MATRIX_AXES.map(({ axis }) => axis);
+
 const CascadingVariantSelector: React.FC<CascadingVariantSelectorProps> = ({
   onVariantsSelected,
+  axes = ALL_AXES,
 }) => {
+  const constants = useConstants();
   const [skuFamilies, setSkuFamilies] = useState<SkuFamilyOption[]>([]);
   const [selectedModels, setSelectedModels] = useState<SelectOption[]>([]);
   const [selectedStorages, setSelectedStorages] = useState<SelectOption[]>([]);
   const [selectedColors, setSelectedColors] = useState<SelectOption[]>([]);
+  const [selectedGrades, setSelectedGrades] = useState<SelectOption[]>([]);
+  const [selectedCountries, setSelectedCountries] = useState<SelectOption[]>([]);
+  const [selectedSims, setSelectedSims] = useState<SelectOption[]>([]);
+  // Keys of combinations left out of the generated variants
+  const [excludedKeys, setExcludedKeys] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [allStorages, setAllStorages] = useState<Array<{ _id: string; title: string }>>([]);
+  const [grades, setGrades] = useState<Array<{ _id: string; title: string }>>([]);
 
-  // Fetch all SKU families and storages on mount
+  // Fetch all SKU families, storages and grades on mount
   useEffect(() => {
     const fetchData = async () => {
       try {
         setLoading(true);
-        const [skuList, storageList] = await Promise.all([
+        const [skuList, storageList, gradeList] = await Promise.all([
           ProductService.listByName(''),
-          StorageService.getStorageList(1, 1000).catch(() => ({ data: { docs: [] } }))
+          StorageService.getStorageList(1, 1000).catch(() => ({ data: { docs: [] } })),
+          GradeService.getGradeList(1, 1000).catch(() => ({ data: { docs: [] } })),
         ]);
         // Transform SKU list to match expected format
         const transformedSkuList = (skuList?.data || []).map((item: any) => ({
@@ -70,6 +97,7 @@ const CascadingVariantSelector: React.FC<CascadingVariantSelectorProps> = ({
           .filter((s: any) => s && s._id && s.title)
           .map((s: any) => ({ _id: s._id, title: s.title }));
         setAllStorages(validStorages);
+        setGrades((gradeList?.data?.docs || []).flatMap(grade => (grade._id ? [{ _id: grade._id, title: grade.title }] : [])));
       } catch (error) {
         console.error('Error fetching data:', error);
       } finally {
@@ -115,32 +143,73 @@ const CascadingVariantSelector: React.FC<CascadingVariantSelectorProps> = ({
     ];
   }, []);
 
-  // Generate variants when all selections are made
+  const gradeOptions = useMemo(
+    () => grades.map(grade => ({ value: grade._id, label: grade.title })),
+    [grades]
+  );
+
+  const countryOptions = useMemo(
+    () => (constants?.spec?.COUNTRY || []).map(country => ({ value: country.code, label: country.name })),
+    [constants]
+  );
+
+  // Only SIM types that at least one chosen country spec supports
+  const simOptions = useMemo(() => {
+    const sims = new Set<string>();
+    selectedCountries.forEach(country => {
+      constants?.spec?.COUNTRY?.find(c => c.code === country.value)?.SIM.forEach(sim => sims.add(sim));
+    });
+    return Array.from(sims).map(sim => ({ value: sim, label: sim }));
+  }, [selectedCountries, constants]);
+
+  const getCountrySims = useCallback(
+    (countryCode: string) => constants?.spec?.COUNTRY?.find(c => c.code === countryCode)?.SIM || [],
+    [constants]
+  );
+
+  // Flags rather than the array, so callers may pass a new `axes` array on every render
+  const [withStorage, withColor, withGrade, withCountry, withSim] = ALL_AXES.map(axis => axes.includes(axis));
+  const axisChoices = useMemo(() => ({
+    storage: withStorage ? selectedStorages : [],
+    color: withColor ? selectedColors : [],
+    grade: withGrade ? selectedGrades : [],
+    country: withCountry ? selectedCountries : [],
+    // SIM choices no longer supported by any chosen country are ignored
+    sim: withSim ? selectedSims.filter(sim => simOptions.some(option => option.value === sim.value)) : [],
+  }), [withStorage, withColor, withGrade, withCountry, withSim, selectedStorages, selectedColors, selectedGrades, selectedCountries, selectedSims, simOptions]);
+
+  const modelChoices = useMemo(
+    () => selectedModels.flatMap(model => {
+      const modelData = skuFamilies.find(sku => sku._id === model.value);
+      return modelData ? [{ value: model.value, label: modelData.name }] : [];
+    }),
+    [selectedModels, skuFamilies]
+  );
+
+  const combinationCount = countVariantMatrix(modelChoices, axisChoices, getCountrySims);
+  const tooManyCombinations = combinationCount > MAX_MATRIX_VARIANTS;
+
+  const combinations = useMemo(
+    () => (tooManyCombinations ? [] : buildVariantMatrix(modelChoices, axisChoices, getCountrySims)),
+    [tooManyCombinations, modelChoices, axisChoices, getCountrySims]
+  );
+
+  const includedVariants = useMemo(
+    () => combinations.filter(combination => !excludedKeys.includes(combination.key)).map(combination => combination.variant),
+    [combinations, excludedKeys]
+  );
+
+  // Axes shown as columns in the preview
+  const activeAxes = MATRIX_AXES.filter(({ axis }) => (axisChoices[axis] || []).length > 0);
+  const countriesWithoutSim = getCountriesWithoutSim(axisChoices, getCountrySims);
+
+  // Report the included variants whenever the matrix or the exclusions change
   useEffect(() => {
-    if (selectedModels.length > 0 && selectedStorages.length > 0 && selectedColors.length > 0) {
-      const variants: VariantOption[] = [];
-
-      selectedModels.forEach(model => {
-        selectedStorages.forEach(storage => {
-          selectedColors.forEach(color => {
-            const modelData = skuFamilies.find(sku => sku._id === model.value);
-            if (modelData) {
-              variants.push({
-                skuFamilyId: model.value,
-                subModelName: modelData.name,
-                storage: storage.value,
-                color: color.value,
-              });
-            }
-          });
-        });
-      });
-
-      onVariantsSelected(variants);
-    } else {
-      onVariantsSelected([]);
-    }
-  }, [selectedModels, selectedStorages, selectedColors, skuFamilies, onVariantsSelected]);
+    onVariantsSelected(includedVariants);
+  }, [includedVariants, onVariantsSelected]);
+
+  const toggleCombination = (key: string) =>
+    setExcludedKeys(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
 
   const customSelectStyles = {
     control: (provided: any, state: any) => ({
@@ -202,7 +271,7 @@ const CascadingVariantSelector: React.FC<CascadingVariantSelectorProps> = ({
               Multi-Variant Selection
             </h3>
             <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-              Select models → storage → colors. All combinations will be generated automatically.
+              Select models, then any of storage, colour, grade, country spec and SIM type. Every combination becomes a variant.
             </p>
           </div>
         </div>
@@ -222,11 +291,7 @@ const CascadingVariantSelector: React.FC<CascadingVariantSelectorProps> = ({
           isMulti
           options={modelOptions}
           value={selectedModels}
-          onChange={(newValue) => {
-            setSelectedModels(newValue as SelectOption[]);
-            setSelectedStorages([]);
-            setSelectedColors([]);
-          }}
+          onChange={(newValue) => setSelectedModels(newValue as SelectOption[])}
           placeholder="🔍 Search and select models..."
           isSearchable
           isLoading={loading}
@@ -237,23 +302,21 @@ const CascadingVariantSelector: React.FC<CascadingVariantSelectorProps> = ({
       </div>
 
       {/* Step 2: Storage Selection */}
+      {axes.includes('storage') && (
       <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border-2 border-gray-200 dark:border-gray-700 shadow-sm">
         <div className="flex items-center gap-2 mb-3">
           <div className="w-8 h-8 bg-green-600 rounded-full flex items-center justify-center text-white font-bold text-sm shadow-md">
             2
           </div>
           <label className="block text-sm font-bold text-gray-800 dark:text-gray-200">
-            Select Storage Options *
+            Select Storage Options
           </label>
         </div>
         <Select
           isMulti
           options={storageOptions}
           value={selectedStorages}
-          onChange={(newValue) => {
-            setSelectedStorages(newValue as SelectOption[]);
-            setSelectedColors([]);
-          }}
+          onChange={(newValue) => setSelectedStorages(newValue as SelectOption[])}
           placeholder="🔍 Search and select storage options..."
           isSearchable
           isDisabled={selectedModels.length === 0}
@@ -263,14 +326,17 @@ const CascadingVariantSelector: React.FC<CascadingVariantSelectorProps> = ({
         />
       </div>
 
+      )}
+
       {/* Step 3: Color Selection */}
+      {axes.includes('color') && (
       <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border-2 border-gray-200 dark:border-gray-700 shadow-sm">
         <div className="flex items-center gap-2 mb-3">
           <div className="w-8 h-8 bg-purple-600 rounded-full flex items-center justify-center text-white font-bold text-sm shadow-md">
             3
           </div>
           <label className="block text-sm font-bold text-gray-800 dark:text-gray-200">
-            Select Colors *
+            Select Colors
           </label>
         </div>
         <Select
@@ -280,34 +346,171 @@ const CascadingVariantSelector: React.FC<CascadingVariantSelectorProps> = ({
           onChange={(newValue) => setSelectedColors(newValue as SelectOption[])}
           placeholder="🔍 Search and select colors..."
           isSearchable
-          isDisabled={selectedModels.length === 0 || selectedStorages.length === 0}
+          isDisabled={selectedModels.length === 0}
           styles={customSelectStyles}
           className="basic-select"
           classNamePrefix="select"
         />
       </div>
 
+      )}
+
+      {/* Step 4: Grade, country spec and SIM type */}
+      {(axes.includes('grade') || axes.includes('country') || axes.includes('sim')) && (
+        <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border-2 border-gray-200 dark:border-gray-700 shadow-sm">
+          <div className="flex items-center gap-2 mb-3">
+            <div className="w-8 h-8 bg-orange-500 rounded-full flex items-center justify-center text-white font-bold text-sm shadow-md">
+              4
+            </div>
+            <label className="block text-sm font-bold text-gray-800 dark:text-gray-200">
+              Grade, Country Spec &amp; SIM Type
+            </label>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {axes.includes('grade') && (
+              <Select
+                isMulti
+                options={gradeOptions}
+                value={selectedGrades}
+                onChange={(newValue) => setSelectedGrades(newValue as SelectOption[])}
+                placeholder="🔍 Grades..."
+                isSearchable
+                isLoading={loading}
+                isDisabled={selectedModels.length === 0}
+                styles={customSelectStyles}
+                className="basic-select"
+                classNamePrefix="select"
+              />
+            )}
+            {axes.includes('country') && (
+              <Select
+                isMulti
+                options={countryOptions}
+                value={selectedCountries}
+                onChange={(newValue) => setSelectedCountries(newValue as SelectOption[])}
+                placeholder="🔍 Country specs..."
+                isSearchable
+                isDisabled={selectedModels.length === 0}
+                styles={customSelectStyles}
+                className="basic-select"
+                classNamePrefix="select"
+              />
+            )}
+            {axes.includes('sim') && (
+              <Select
+                isMulti
+                options={simOptions}
+                value={selectedSims.filter(sim => simOptions.some(option => option.value === sim.value))}
+                onChange={(newValue) => setSelectedSims(newValue as SelectOption[])}
+                placeholder={selectedCountries.length === 0 ? 'Choose a country spec first' : '🔍 SIM types...'}
+                isSearchable
+                isDisabled={selectedModels.length === 0 || selectedCountries.length === 0}
+                styles={customSelectStyles}
+                className="basic-select"
+                classNamePrefix="select"
+              />
+            )}
+          </div>
+          {countriesWithoutSim.length > 0 && (
+            <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">
+              <i className="fas fa-info-circle mr-1"></i>
+              {countriesWithoutSim.map(country => country.label).join(', ')} support none of the chosen SIM types; their SIM is left blank.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Preview */}
-      {selectedModels.length > 0 &&
-        selectedStorages.length > 0 &&
-        selectedColors.length > 0 && (
-          <div className="mt-6 p-5 bg-blue-600 dark:bg-blue-700 rounded-xl border-2 border-blue-400 dark:border-blue-600 shadow-xl">
-            <div className="flex items-center gap-3 mb-3">
-              <div className="w-12 h-12 bg-white/20 rounded-lg flex items-center justify-center">
-                <i className="fas fa-calculator text-white text-xl"></i>
-              </div>
-              <div>
-                <p className="text-lg font-bold text-white mb-1">
-                  {selectedModels.length * selectedStorages.length * selectedColors.length} Variants Ready!
-                </p>
-                <p className="text-sm text-blue-100">
-                  {selectedModels.length} model{selectedModels.length !== 1 ? 's' : ''} × {selectedStorages.length} storage ×{' '}
-                  {selectedColors.length} color{selectedColors.length !== 1 ? 's' : ''}
-                </p>
-              </div>
+      {modelChoices.length > 0 && (
+        <div className="mt-6 p-5 bg-blue-600 dark:bg-blue-700 rounded-xl border-2 border-blue-400 dark:border-blue-600 shadow-xl">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 bg-white/20 rounded-lg flex items-center justify-center">
+              <i className="fas fa-calculator text-white text-xl"></i>
+            </div>
+            <div>
+              <p className="text-lg font-bold text-white mb-1">
+                {tooManyCombinations
+                  ? `${combinationCount} combinations, at most ${MAX_MATRIX_VARIANTS} allowed`
+                  : `${includedVariants.length} of ${combinationCount} Variants Ready!`}
+              </p>
+              <p className="text-sm text-blue-100">
+                {[
+                  `${modelChoices.length} model${modelChoices.length !== 1 ? 's' : ''}`,
+                  ...activeAxes.map(({ axis, label }) => `${(axisChoices[axis] || []).length} ${label.toLowerCase()}`),
+                ].join(' × ')}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+      {combinations.length > 0 && (
+        <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-2 bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Untick combinations you do not stock
+            </span>
+            <div className="flex items-center gap-3 text-xs">
+              <button
+                type="button"
+                onClick={() => setExcludedKeys([])}
+                className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                Include all
+              </button>
+              <button
+                type="button"
+                onClick={() => setExcludedKeys(combinations.map(combination => combination.key))}
+                className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                Exclude all
+              </button>
             </div>
           </div>
-        )}
+          <div className="max-h-80 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-gray-100 dark:bg-gray-700">
+                <tr>
+                  <th className="w-10 px-3 py-2"></th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-300">Model</th>
+                  {activeAxes.map(({ axis, label }) => (
+                    <th key={axis} className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-300">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {combinations.map(combination => {
+                  const included = !excludedKeys.includes(combination.key);
+                  return (
+                    <tr
+                      key={combination.key}
+                      onClick={() => toggleCombination(combination.key)}
+                      className={`border-t border-gray-100 dark:border-gray-700 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 ${
+                        included ? 'text-gray-800 dark:text-gray-200' : 'text-gray-400 dark:text-gray-500 line-through'
+                      }`}
+                    >
+                      <td className="px-3 py-1.5">
+                        <input
+                          type="checkbox"
+                          checked={included}
+                          onChange={() => toggleCombination(combination.key)}
+                          onClick={(e) => e.stopPropagation()}
+                          className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                        />
+                      </td>
+                      <td className="px-3 py-1.5">{combination.labels[0]}</td>
+                      {activeAxes.map(({ axis }) => (
+                        <td key={axis} className="px-3 py-1.5">
+                          {combination.labels[MATRIX_AXES.findIndex(option => option.axis === axis) + 1] || '—'}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,155 @@
+import React from 'react';
+import { clampColumnWidth, ColumnLayout } from '../../services/columnLayout/columnLayoutStorage';
+
+interface ColumnLayoutModalProps {
+  // Every column the seller may see, in layout order (hidden ones included)
+  columns: Array<{ key: string; label: string; width: number }>;
+  layout: ColumnLayout;
+  onChange: (layout: ColumnLayout) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const ColumnLayoutModal: React.FC<ColumnLayoutModalProps> = ({ columns, layout, onChange, onReset, onClose }) => {
+  const keys = columns.map(col => col.key);
+
+  const toggleHidden = (key: string) => {
+    const hidden = layout.hidden.includes(key)
+      ? layout.hidden.filter(k => k !== key)
+      : [...layout.hidden, key];
+    onChange({ ...layout, hidden });
+  };
+
+  const togglePinned = (key: string) => {
+    const pinned = layout.pinned.includes(key)
+      ? layout.pinned.filter(k => k !== key)
+      : [...layout.pinned, key];
+    onChange({ ...layout, pinned });
+  };
+
+  // Swap with the neighbour; pinned and unpinned columns are reordered separately
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    const key = keys[index];
+    const other = keys[target];
+    if (!other || layout.pinned.includes(key) !== layout.pinned.includes(other)) return;
+    const order = [...keys];
+    order[index] = other;
+    order[target] = key;
+    const pinned = layout.pinned.includes(key)
+      ? layout.pinned.map(k => (k === key ? other : k === other ? key : k))
+      : layout.pinned;
+    onChange({ ...layout, order, pinned });
+  };
+
+  const setWidth = (key: string, value: string) => {
+    const width = Number(value);
+    if (!value || isNaN(width)) return;
+    onChange({ ...layout, widths: { ...layout.widths, [key]: clampColumnWidth(width) } });
+  };
+
+  const canMove = (index: number, direction: -1 | 1) => {
+    const other = keys[index + direction];
+    return !!other && layout.pinned.includes(keys[index]) === layout.pinned.includes(other);
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/60 z-50" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-xl w-full mx-4 max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Columns</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Show, hide, reorder, resize and pin columns. Changes are saved for this listing type.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+          >
+            <i className="fas fa-times text-lg"></i>
+          </button>
+        </div>
+        <ul className="flex-1 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+          {columns.map((col, index) => {
+            const isHidden = layout.hidden.includes(col.key);
+            const isPinned = layout.pinned.includes(col.key);
+            return (
+              <li key={col.key} className={`flex items-center gap-3 px-6 py-2 ${isHidden ? 'opacity-50' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={!isHidden}
+                  onChange={() => toggleHidden(col.key)}
+                  className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                  title={isHidden ? 'Show column' : 'Hide column'}
+                />
+                <span className="flex-1 text-sm text-gray-800 dark:text-gray-100 truncate">{col.label.replace('*', '')}</span>
+                <button
+                  type="button"
+                  onClick={() => togglePinned(col.key)}
+                  className={isPinned ? 'text-blue-600 dark:text-blue-400' : 'text-gray-300 hover:text-gray-500 dark:text-gray-600 dark:hover:text-gray-400'}
+                  title={isPinned ? 'Unpin column' : 'Pin column to the left'}
+                >
+                  <i className="fas fa-thumbtack text-sm"></i>
+                </button>
+                <input
+                  type="number"
+                  min={60}
+                  max={600}
+                  defaultValue={col.width}
+                  key={`${col.key}-${col.width}`}
+                  onBlur={(e) => setWidth(col.key, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') setWidth(col.key, e.currentTarget.value);
+                  }}
+                  className="w-20 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                  title="Width in pixels"
+                />
+                <div className="flex flex-col">
+                  <button
+                    type="button"
+                    onClick={() => move(index, -1)}
+                    disabled={!canMove(index, -1)}
+                    className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200 disabled:opacity-30 disabled:cursor-not-allowed leading-none"
+                    title="Move left"
+                  >
+                    <i className="fas fa-chevron-up text-xs"></i>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => move(index, 1)}
+                    disabled={!canMove(index, 1)}
+                    className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200 disabled:opacity-30 disabled:cursor-not-allowed leading-none"
+                    title="Move right"
+                  >
+                    <i className="fas fa-chevron-down text-xs"></i>
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-between gap-3">
+          <button
+            type="button"
+            onClick={onReset}
+            className="px-4 py-2 text-sm font-medium text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors"
+          >
+            <i className="fas fa-undo mr-2"></i>
+            Reset to Default
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnLayoutModal;
@@ -0,0 +1,284 @@
+import React, { useState } from 'react';
+import Swal from 'sweetalert2';
+import toastHelper from '../../utils/toastHelper';
+import { CustomColumnType } from '../../services/products/products.services';
+import { CustomColumnStorage } from '../../services/customColumn/customColumnStorage';
+import { CUSTOM_COLUMN_TYPES, CustomColumn, toCustomColumnKey } from '../../utils/customColumns';
+
+interface CustomColumnModalProps {
+  // Column being edited (its key stays the same), or null to add one
+  column: CustomColumn | null;
+  // Keys of the grid's current columns, which a new column may not reuse
+  existingKeys: string[];
+  onSave: (column: CustomColumn) => void;
+  onClose: () => void;
+}
+
+interface ColumnForm {
+  label: string;
+  type: CustomColumnType;
+  // One option per line
+  options: string;
+  required: boolean;
+  min: string;
+  max: string;
+}
+
+// What min/max limit for each type; types without an entry have no bounds
+const BOUND_LABELS: Partial<Record<CustomColumnType, { min: string; max: string }>> = {
+  text: { min: 'Min Length', max: 'Max Length' },
+  number: { min: 'Min Value', max: 'Max Value' },
+  date: { min: 'Earliest Date', max: 'Latest Date' },
+  multiselect: { min: 'Min Choices', max: 'Max Choices' },
+};
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const toForm = (column: CustomColumn | null): ColumnForm => column
+  ? {
+      label: column.label,
+      type: column.type,
+      options: column.options.join('\n'),
+      required: column.required,
+      min: column.min,
+      max: column.max,
+    }
+  : { label: '', type: 'text', options: '', required: false, min: '', max: '' };
+
+const describeColumn = (column: CustomColumn) => {
+  const parts = [CUSTOM_COLUMN_TYPES.find(option => option.type === column.type)?.label || column.type];
+  if (column.options.length > 0) parts.push(column.options.join(', '));
+  if (column.required) parts.push('Required');
+  return parts.join(' · ');
+};
+
+const CustomColumnModal: React.FC<CustomColumnModalProps> = ({
+  column,
+  existingKeys,
+  onSave,
+  onClose,
+}) => {
+  const [form, setForm] = useState<ColumnForm>(() => toForm(column));
+  const [saveToLibrary, setSaveToLibrary] = useState(true);
+  const [library, setLibrary] = useState<CustomColumn[]>(() => CustomColumnStorage.list());
+
+  const bounds = BOUND_LABELS[form.type];
+  const hasOptions = form.type === 'select' || form.type === 'multiselect';
+  const availableLibrary = library.filter(saved => !existingKeys.includes(saved.key));
+
+  const updateForm = (changes: Partial<ColumnForm>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const handleSave = () => {
+    const label = form.label.trim();
+    if (!label) {
+      toastHelper.showTost('Please enter a column name', 'error');
+      return;
+    }
+    const key = column ? column.key : toCustomColumnKey(label);
+    if (!column && existingKeys.includes(key)) {
+      toastHelper.showTost('A column with this name already exists', 'error');
+      return;
+    }
+    const options = hasOptions
+      ? Array.from(new Set(form.options.split('\n').map(option => option.trim()).filter(Boolean)))
+      : [];
+    if (hasOptions && options.length === 0) {
+      toastHelper.showTost('Add at least one option', 'error');
+      return;
+    }
+    // Multi-select cells are stored comma separated
+    if (options.some(option => /[,;]/.test(option))) {
+      toastHelper.showTost('Options cannot contain commas or semicolons', 'error');
+      return;
+    }
+    const min = bounds ? form.min.trim() : '';
+    const max = bounds ? form.max.trim() : '';
+    const isOutOfOrder = form.type === 'date' ? min > max : Number(min) > Number(max);
+    if (min !== '' && max !== '' && isOutOfOrder) {
+      toastHelper.showTost(`${bounds?.min} cannot be greater than ${bounds?.max}`, 'error');
+      return;
+    }
+
+    const saved: CustomColumn = {
+      key,
+      label: label.toUpperCase(),
+      width: column?.width || 150,
+      type: form.type,
+      options,
+      required: form.required,
+      min,
+      max,
+    };
+    if (saveToLibrary) CustomColumnStorage.save(saved);
+    onSave(saved);
+  };
+
+  const handleRemoveFromLibrary = async (saved: CustomColumn) => {
+    const confirmed = await Swal.fire({
+      title: 'Remove Saved Column?',
+      text: `"${saved.label}" will no longer be offered for new listings. Listings that use it keep their values.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Yes, remove it!',
+      cancelButtonText: 'No, cancel!',
+    });
+    if (!confirmed.isConfirmed) return;
+    CustomColumnStorage.remove(saved.key);
+    setLibrary(CustomColumnStorage.list());
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/60 z-50" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{column ? 'Edit Custom Column' : 'Add Custom Column'}</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            {column ? 'Change the type and rules of this column' : 'Pick a saved column or define a new one'}
+          </p>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {!column && availableLibrary.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Saved Columns</label>
+              <ul className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700 max-h-48 overflow-y-auto">
+                {availableLibrary.map(saved => (
+                  <li key={saved.key} className="px-3 py-2 flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="text-sm font-semibold text-gray-800 dark:text-gray-100 truncate">{saved.label}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{describeColumn(saved)}</div>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => onSave(saved)}
+                        className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+                      >
+                        Add
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveFromLibrary(saved)}
+                        className="p-1.5 text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 transition-colors"
+                        title="Remove from saved columns"
+                      >
+                        <i className="fas fa-trash text-xs"></i>
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Column Name</label>
+            <input
+              type="text"
+              value={form.label}
+              onChange={(e) => updateForm({ label: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave();
+              }}
+              className={inputClass}
+              placeholder="e.g., Special Notes, Warranty Info"
+              autoFocus
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Type</label>
+            <div className="grid grid-cols-3 gap-2">
+              {CUSTOM_COLUMN_TYPES.map(option => (
+                <button
+                  key={option.type}
+                  type="button"
+                  onClick={() => updateForm({ type: option.type, min: '', max: '' })}
+                  className={`px-3 py-2 text-xs font-medium rounded-lg border transition-colors ${
+                    form.type === option.type
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <i className={`fas ${option.icon} mr-1`}></i>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {hasOptions && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Options (one per line)</label>
+              <textarea
+                value={form.options}
+                onChange={(e) => updateForm({ options: e.target.value })}
+                rows={4}
+                className={inputClass}
+                placeholder={'Red\nBlue\nGreen'}
+              />
+            </div>
+          )}
+          {bounds && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{bounds.min}</label>
+                <input
+                  type={form.type === 'date' ? 'date' : 'number'}
+                  value={form.min}
+                  onChange={(e) => updateForm({ min: e.target.value })}
+                  className={inputClass}
+                  placeholder="No limit"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{bounds.max}</label>
+                <input
+                  type={form.type === 'date' ? 'date' : 'number'}
+                  value={form.max}
+                  onChange={(e) => updateForm({ max: e.target.value })}
+                  className={inputClass}
+                  placeholder="No limit"
+                />
+              </div>
+            </div>
+          )}
+          <div className="flex items-center gap-6">
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={form.required}
+                onChange={(e) => updateForm({ required: e.target.checked })}
+                className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+              />
+              Required
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={saveToLibrary}
+                onChange={(e) => setSaveToLibrary(e.target.checked)}
+                className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+              />
+              Save for other listings
+            </label>
+          </div>
+        </div>
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            {column ? 'Save Column' : 'Add Column'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomColumnModal;
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { formatCellValue, GridValueContext } from '../../utils/productGridValues';
+import { BatchDuplicate, DUPLICATE_FIELDS, DuplicateAction, ExistingDuplicate } from '../../utils/duplicateListings';
+
+export interface DuplicateResolution {
+  // One action per batch group / existing match, in the order they were passed in
+  batch: DuplicateAction[];
+  existing: DuplicateAction[];
+}
+
+interface DuplicateListingsModalProps {
+  rows: Array<Record<string, unknown>>;
+  batch: BatchDuplicate[];
+  existing: ExistingDuplicate[];
+  valueContext: GridValueContext;
+  onConfirm: (resolution: DuplicateResolution) => void;
+  onClose: () => void;
+}
+
+const BATCH_ACTIONS: Array<{ action: DuplicateAction; label: string }> = [
+  { action: 'merge', label: 'Merge' },
+  { action: 'skip', label: 'Skip Repeats' },
+  { action: 'keep', label: 'Keep All' },
+];
+
+const EXISTING_ACTIONS: Array<{ action: DuplicateAction; label: string }> = [
+  { action: 'update', label: 'Update Existing' },
+  { action: 'skip', label: 'Skip Row' },
+  { action: 'keep', label: 'List Anyway' },
+];
+
+const DuplicateListingsModal: React.FC<DuplicateListingsModalProps> = ({
+  rows,
+  batch,
+  existing,
+  valueContext,
+  onConfirm,
+  onClose,
+}) => {
+  const [batchActions, setBatchActions] = useState<DuplicateAction[]>(() => batch.map(() => 'merge'));
+  // Exact matches default to updating the live listing; near matches may be a different product
+  const [existingActions, setExistingActions] = useState<DuplicateAction[]>(() =>
+    existing.map(match => (match.similarFields.length === 0 ? 'update' : 'keep'))
+  );
+
+  const renderActions = (
+    options: Array<{ action: DuplicateAction; label: string }>,
+    selected: DuplicateAction,
+    onSelect: (action: DuplicateAction) => void
+  ) => (
+    <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden">
+      {options.map(option => (
+        <button
+          key={option.action}
+          type="button"
+          onClick={() => onSelect(option.action)}
+          className={`px-3 py-1.5 text-xs font-medium transition-colors ${
+            selected === option.action
+              ? 'bg-blue-600 text-white'
+              : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderTable = (
+    entries: Array<{ key: string; source: string; values: Record<string, unknown>; qty: unknown }>,
+    highlightFields: string[] = []
+  ) => (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead className="bg-gray-50 dark:bg-gray-900">
+          <tr>
+            <th className="px-3 py-2 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase"></th>
+            {DUPLICATE_FIELDS.map(field => (
+              <th key={field.key} className="px-3 py-2 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase whitespace-nowrap">
+                {field.label}
+              </th>
+            ))}
+            <th className="px-3 py-2 text-right text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase">Qty</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {entries.map(entry => (
+            <tr key={entry.key}>
+              <td className="px-3 py-2 text-sm font-medium text-gray-800 dark:text-gray-100 whitespace-nowrap">{entry.source}</td>
+              {DUPLICATE_FIELDS.map(field => (
+                <td
+                  key={field.key}
+                  className={`px-3 py-2 text-sm whitespace-nowrap ${
+                    highlightFields.includes(field.key)
+                      ? 'bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300'
+                      : 'text-gray-600 dark:text-gray-300'
+                  }`}
+                >
+                  {formatCellValue(field.key, entry.values[field.key], valueContext, entry.values) || '-'}
+                </td>
+              ))}
+              <td className="px-3 py-2 text-sm text-right text-gray-800 dark:text-gray-100">{String(entry.qty ?? '') || '0'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/60 z-50" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-5xl w-full mx-4 max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Possible Duplicate Listings</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Choose what to do with each duplicate before the batch is submitted.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+          >
+            <i className="fas fa-times text-lg"></i>
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {batch.length > 0 && (
+            <div className="space-y-4">
+              <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 uppercase">Repeated in this batch</h4>
+              {batch.map((group, groupIndex) => (
+                <div key={group.rows.join('-')} className="border border-gray-200 dark:border-gray-700 rounded-lg">
+                  <div className="px-4 py-3 flex items-center justify-between gap-4 border-b border-gray-200 dark:border-gray-700">
+                    <span className="text-sm text-gray-600 dark:text-gray-300">
+                      {batchActions[groupIndex] === 'merge' && `Quantities are added to row ${group.rows[0] + 1}; the other rows are not submitted.`}
+                      {batchActions[groupIndex] === 'skip' && `Only row ${group.rows[0] + 1} is submitted.`}
+                      {batchActions[groupIndex] === 'keep' && 'Every row is submitted as its own listing.'}
+                    </span>
+                    {renderActions(BATCH_ACTIONS, batchActions[groupIndex], action =>
+                      setBatchActions(prev => prev.map((a, i) => (i === groupIndex ? action : a)))
+                    )}
+                  </div>
+                  {renderTable(group.rows.map(index => ({
+                    key: String(index),
+                    source: `Row ${index + 1}`,
+                    values: rows[index],
+                    qty: rows[index].totalQty,
+                  })))}
+                </div>
+              ))}
+            </div>
+          )}
+          {existing.length > 0 && (
+            <div className="space-y-4">
+              <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 uppercase">Already listed</h4>
+              {existing.map((match, matchIndex) => (
+                <div key={`${match.row}-${match.listing.id}`} className="border border-gray-200 dark:border-gray-700 rounded-lg">
+                  <div className="px-4 py-3 flex items-center justify-between gap-4 border-b border-gray-200 dark:border-gray-700">
+                    <span className="text-sm text-gray-600 dark:text-gray-300">
+                      {match.similarFields.length > 0
+                        ? 'Close match - highlighted values differ slightly.'
+                        : 'Exact match.'}{' '}
+                      {existingActions[matchIndex] === 'update' && 'The existing listing gets this row\'s prices and stock.'}
+                      {existingActions[matchIndex] === 'skip' && `Row ${match.row + 1} is not submitted.`}
+                      {existingActions[matchIndex] === 'keep' && `Row ${match.row + 1} is submitted as a new listing.`}
+                    </span>
+                    {renderActions(EXISTING_ACTIONS, existingActions[matchIndex], action =>
+                      setExistingActions(prev => prev.map((a, i) => (i === matchIndex ? action : a)))
+                    )}
+                  </div>
+                  {renderTable([
+                    { key: 'row', source: `Row ${match.row + 1}`, values: rows[match.row], qty: rows[match.row].totalQty },
+                    {
+                      key: 'existing',
+                      source: match.listing.listingNo ? `Listing ${match.listing.listingNo}` : 'Existing listing',
+                      values: match.listing.values,
+                      qty: match.listing.stock,
+                    },
+                  ], match.similarFields)}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            Back to Grid
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm({ batch: batchActions, existing: existingActions })}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Continue Submit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateListingsModal;
@@ -1,23 +1,73 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback, useMemo } from 'react';
+import { flushSync } from 'react-dom';
 import DatePicker from 'react-datepicker';
 import 'react-datepicker/dist/react-datepicker.css';
 import Select from 'react-select';
 import Swal from 'sweetalert2';
 import { VariantOption } from './CascadingVariantSelector';
 import { GradeService } from '../../services/grade/grade.services';
-import { ProductService } from '../../services/products/products.services';
+import { ProductService, UpdateProductRequest } from '../../services/products/products.services';
 import { ConstantsService, Constants } from '../../services/constants/constants.services';
 import { SkuFamilyService } from '../../services/skuFamily/skuFamily.services';
 import { SellerProductPermissionService, SellerProductFieldPermission } from '../../services/sellerProductPermission/sellerProductPermission.services';
 import { STORAGE_KEYS, StorageService } from '../../constants/storage';
 import toastHelper from '../../utils/toastHelper';
+import { parseClipboardGrid, serializeGridToTsv } from '../../utils/clipboardGrid';
+import { createRowId, getProductCustomColumns, productToRowData } from '../../utils/productRowData';
+import { getProductGridColumns, hubSubgroup } from '../../utils/productGridColumns';
+import { ImportedSheet, isSpreadsheetFile, matchSheetHeaders, readSpreadsheet, SPREADSHEET_ACCEPT, SpreadsheetFormat, toSheetCells, toSheetEntries, writeSpreadsheet } from '../../utils/productSpreadsheet';
+import SpreadsheetExportModal from './SpreadsheetExportModal';
+import VariantMatrixModal from './VariantMatrixModal';
+import SchedulePreviewModal from './SchedulePreviewModal';
+import MoqSummaryBar from './MoqSummaryBar';
+import HolidayCalendarModal from './HolidayCalendarModal';
+import { ExistingFlashDeal, findFlashDealOverlaps, FlashDealOverlap, toExistingFlashDeal } from '../../utils/flashDealSchedule';
+import { formatInTimeZone, formatUtcOffset, fromZonedPickerDate, getScheduleTimeZone, getSellerTimeZone, rezoneInstant, toZonedPickerDate } from '../../utils/hubTime';
+import { MATRIX_AXES } from '../../utils/variantMatrix';
+import { coerceCellValue, CONDITION_OPTIONS, formatCellValue, formatDay, getColumnOptions, GROUP_LEVEL_FIELDS, READ_ONLY_GRID_FIELDS, STATUS_OPTIONS } from '../../utils/productGridValues';
+import { getMoqSummary, validateMoqRules, validateProductRows } from '../../utils/productGridValidation';
+import { HolidayCalendars, HolidayCalendarStorage } from '../../services/holidayCalendar/holidayCalendarStorage';
+import { isRelativeShippingPreset, refreshShippingTime, resolveShippingPreset, SHIPPING_PRESET_OPTIONS } from '../../utils/shippingTime';
+import BulkEditModal from './BulkEditModal';
+import RowPresetsModal, { RowPresetTarget } from './RowPresetsModal';
+import ColumnLayoutModal from './ColumnLayoutModal';
+import FindReplaceModal from './FindReplaceModal';
+import BulkPriceModal from './BulkPriceModal';
+import ExchangeRatesModal from './ExchangeRatesModal';
+import DuplicateListingsModal, { DuplicateResolution } from './DuplicateListingsModal';
+import { useGridHistory } from '../../hooks/useGridHistory';
+import { FindReplaceMatch } from '../../utils/gridFindReplace';
+import { adjustPrice, isPriceZeroedOut, PriceAdjustment } from '../../utils/priceAdjustment';
+import { BatchDuplicate, ExistingDuplicate, findBatchDuplicates, findExistingDuplicates, ListedProduct, toExistingListing } from '../../utils/duplicateListings';
+import { buildHubDeliverablePrices, findHubByField, getDeliveryHubs, getHubPriceFields, hasHubPrice, normalizeCountryCode } from '../../utils/deliveryHubs';
+import { ExchangeRates, ExchangeRateService, getRateDeviation } from '../../services/exchangeRate/exchangeRate.services';
+import { env } from '../../utils/env';
+import { ProductDraft, ProductDraftStorage } from '../../services/productDraft/productDraftStorage';
+import { ProductDraftService } from '../../services/productDraft/productDraft.services';
+import { RowPreset, RowPresetStorage, resolveRowPreset } from '../../services/rowPreset/rowPresetStorage';
+import { applyColumnLayout, clampColumnWidth, ColumnLayout, ColumnLayoutStorage } from '../../services/columnLayout/columnLayoutStorage';
+import { BOOLEAN_OPTIONS, buildCustomFields, CustomColumn, normalizeCustomColumn, splitMultiValue, toCustomColumnMetadata } from '../../utils/customColumns';
+import CustomColumnModal from './CustomColumnModal';
 
-type ColumnDefinition = 
-  | { key: string; label: string; width: number }
-  | { key: string; label: string; width: number; group: string; permissionField: string; subgroup?: undefined }
-  | { key: string; label: string; width: number; group: string; subgroup: string; permissionField: string };
+// Everything an undo step restores
+interface GridSnapshot {
+  rows: ProductRowData[];
+  customColumns: CustomColumn[];
+  totalMoq: number | string;
+  cellIssues: Record<string, string>;
+  submitResults: Record<string, RowSubmitResult>;
+}
+
+// Outcome of submitting one row as a product request
+export interface RowSubmitResult {
+  status: 'pending' | 'created' | 'failed';
+  message?: string;
+  productId?: string;
+}
 
 export interface ProductRowData {
+  // Stable row identity (see createRowId); not sent with the product
+  rowId: string;
   // Product Detail Group
   subModelName: string;
   storage: string;
@@ -35,13 +85,8 @@ export interface ProductRowData {
   // Pricing / Delivery / Payment Method Group
   packing: string;
   currentLocation: string; // Store code: "HK" or "D"
-  hkUsd: number | string;
-  hkXe: number | string;
-  hkHkd: number | string;
-  dubaiUsd: number | string;
-  dubaiXe: number | string;
-  dubaiAed: number | string;
-  deliveryLocation: string[]; // Array of codes: ["HK", "D"]
+  // Delivery hub prices live under each hub's usdField/xeField/localField (hkUsd, hkXe, hkHkd, ...)
+  deliveryLocation: string[]; // Codes of the hubs with a price: ["HK", "D"]
   customMessage: string;
   totalQty: number | string;
   moqPerVariant: number | string;
@@ -57,12 +102,15 @@ export interface ProductRowData {
   tags: string; // Comma-separated string of tag codes
   flashDeal: string;
   shippingTime: string;
+  // Relative preset the shipping time is resolved from ('today', '+3bd', ...), 'calendar' for a fixed date
+  shippingPreset: string;
   vendor: string;
   vendorListingNo: string;
   carrier: string;
   carrierListingNo: string;
   uniqueListingNo: string;
   adminCustomMessage: string;
+  scheduleHub: string; // Code of the hub whose time zone startTime/endTime are entered in
   startTime: string;
   endTime: string;
   remark: string;
@@ -80,12 +128,78 @@ export interface ProductRowData {
   [key: string]: any;
 }
 
+// Width of the sticky row-number column; pinned columns are offset by it
+const ROW_NUMBER_WIDTH = 48;
+
+type SubgroupHeader = { label: string; icon: string; className: string; columnClassName: string };
+
+// Banner shown above each run of adjacent columns that share a subgroup
+const SUBGROUP_HEADERS: Record<string, SubgroupHeader> = {
+  PAYMENT_TERM: { label: 'PAYMENT TERM', icon: 'fa-calendar-check', className: 'bg-purple-500 dark:bg-purple-700 border-purple-600 dark:border-purple-800', columnClassName: 'bg-purple-50 dark:bg-purple-900/30' },
+  PAYMENT_METHOD: { label: 'PAYMENT METHOD', icon: 'fa-credit-card', className: 'bg-orange-500 dark:bg-orange-700 border-orange-600 dark:border-orange-800', columnClassName: 'bg-orange-50 dark:bg-orange-900/30' },
+};
+
+// Delivery hub banners take these colours in hub order, repeating after the last
+const HUB_HEADER_COLOURS: Array<Pick<SubgroupHeader, 'className' | 'columnClassName'>> = [
+  { className: 'bg-blue-500 dark:bg-blue-700 border-blue-600 dark:border-blue-800', columnClassName: 'bg-blue-50 dark:bg-blue-900/30' },
+  { className: 'bg-green-500 dark:bg-green-700 border-green-600 dark:border-green-800', columnClassName: 'bg-green-50 dark:bg-green-900/30' },
+  { className: 'bg-teal-500 dark:bg-teal-700 border-teal-600 dark:border-teal-800', columnClassName: 'bg-teal-50 dark:bg-teal-900/30' },
+  { className: 'bg-indigo-500 dark:bg-indigo-700 border-indigo-600 dark:border-indigo-800', columnClassName: 'bg-indigo-50 dark:bg-indigo-900/30' },
+  { className: 'bg-pink-500 dark:bg-pink-700 border-pink-600 dark:border-pink-800', columnClassName: 'bg-pink-50 dark:bg-pink-900/30' },
+];
+
+// Only rows and columns near the viewport are rendered. Rows start at this height
+// and grow to the tallest row rendered so far, so every row has the same height.
+const ESTIMATED_ROW_HEIGHT = 56;
+const ROW_OVERSCAN = 6;
+const COLUMN_OVERSCAN_PX = 400;
+
+// Page size when reading the seller's listed products for duplicate and flash deal checks
+const LISTED_PRODUCTS_PAGE_SIZE = 100;
+
+type GridViewport = { top: number; left: number; height: number; width: number; rowsTop: number };
+
+const readViewport = (container: HTMLElement, rowsContainer: HTMLElement | null): GridViewport => ({
+  top: container.scrollTop,
+  left: container.scrollLeft,
+  height: container.clientHeight,
+  width: container.clientWidth,
+  // Height of the sticky headers above the first row
+  rowsTop: rowsContainer?.offsetTop ?? 0,
+});
+
+const isShallowEqual = (a: Record<string, unknown>, b: Record<string, unknown>) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => Object.is(a[key], b[key]));
+};
+
+interface GridRowProps<S extends Record<string, unknown>> {
+  // Everything the row's content depends on, compared shallowly; the row is skipped while none of it changes
+  state: S;
+  render: (state: S) => React.ReactNode;
+}
+
+function GridRowContent<S extends Record<string, unknown>>({ state, render }: GridRowProps<S>) {
+  return <>{render(state)}</>;
+}
+
+// A skipped row keeps the handlers from its last render, so handlers reading
+// grid-wide state must go through latestStateRef instead of their closure.
+// React.memo drops the type parameter, hence the cast.
+const GridRow = React.memo(
+  GridRowContent,
+  (prev, next) => isShallowEqual(prev.state, next.state)
+) as typeof GridRowContent;
+
 interface ExcelLikeProductFormProps {
   variantType: 'single' | 'multi';
   variants?: VariantOption[];
-  onSave: (rows: ProductRowData[], totalMoq?: number | string, customColumns?: Array<{ key: string; label: string; width: number }>) => void;
+  onSave: (rows: ProductRowData[], totalMoq?: number | string, customColumns?: CustomColumn[]) => void;
   onCancel: () => void;
   editProducts?: any[]; // Products to edit
+  draftId?: string | null; // Named draft to restore and keep autosaving into
+  onDraftChange?: (draftId: string) => void; // Called when autosave starts a new draft
+  importedSheet?: ImportedSheet | null; // Spreadsheet cells to load into the grid for review
 }
 
 const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
@@ -94,11 +208,16 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
   onSave,
   onCancel,
   editProducts = [],
+  draftId = null,
+  onDraftChange,
+  importedSheet = null,
 }) => {
   const [rows, setRows] = useState<ProductRowData[]>([]);
   const [grades, setGrades] = useState<any[]>([]);
   const [skuFamilies, setSkuFamilies] = useState<any[]>([]);
   const [constants, setConstants] = useState<Constants | null>(null);
+  // Price columns, conversions and countryDeliverables are generated per hub
+  const deliveryHubs = useMemo(() => getDeliveryHubs(constants), [constants]);
   const [permissions, setPermissions] = useState<SellerProductFieldPermission[]>([]);
   const [loading, setLoading] = useState(false);
   const [totalMoq, setTotalMoq] = useState<number | string>(''); 
@@ -109,11 +228,66 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
   // State for row-specific SKU Family search
   const [rowSkuFamilySearch, setRowSkuFamilySearch] = useState<{ rowIndex: number; query: string; showResults: boolean } | null>(null);
   const [rowSkuFamilySearchResults, setRowSkuFamilySearchResults] = useState<any[]>([]);
-  const [shippingTimeMode, setShippingTimeMode] = useState<Record<number, 'today' | 'tomorrow' | 'calendar' | ''>>({});
+  // Result highlighted for keyboard selection in the SKU Family dropdown
+  const [skuResultIndex, setSkuResultIndex] = useState(0);
+  const [holidayCalendars, setHolidayCalendars] = useState<HolidayCalendars>(() => HolidayCalendarStorage.getAll());
+  const [showHolidayModal, setShowHolidayModal] = useState(false);
   const rowsContainerRef = useRef<HTMLDivElement | null>(null);
+  const [viewport, setViewport] = useState<GridViewport>(() => ({
+    top: 0,
+    left: 0,
+    height: window.innerHeight,
+    width: window.innerWidth,
+    rowsTop: 0,
+  }));
+  const [rowHeight, setRowHeight] = useState(ESTIMATED_ROW_HEIGHT);
+  const scrollFrameRef = useRef<number | null>(null);
   const [currentCustomerListingNumber, setCurrentCustomerListingNumber] = useState<number | null>(null);
   const [currentUniqueListingNumber, setCurrentUniqueListingNumber] = useState<number | null>(null);
   const [supplierListingNumberInfo, setSupplierListingNumberInfo] = useState<{ listingNumber: number; supplierCode: string } | null>(null);
+  // Cells that could not be matched during a paste, keyed by `${row}-${col}`
+  const [cellIssues, setCellIssues] = useState<Record<string, string>>({});
+  // Rectangular range selection (shift-click or drag); anchor is where the selection started
+  const [selection, setSelection] = useState<{ anchorRow: number; anchorCol: string; focusRow: number; focusCol: string } | null>(null);
+  const isSelectingRef = useRef(false);
+  // Cell (`${row}-${col}`) in edit mode; every other cell is in navigate mode, like Excel
+  const editingCellRef = useRef<string | null>(null);
+  const [showBulkEditModal, setShowBulkEditModal] = useState(false);
+  const [showFindReplaceModal, setShowFindReplaceModal] = useState(false);
+  const [showBulkPriceModal, setShowBulkPriceModal] = useState(false);
+  // Reference USD rates used to pre-fill XE and flag mistyped rates
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRates | null>(null);
+  const [showExchangeRatesModal, setShowExchangeRatesModal] = useState(false);
+  // Submission paused while the seller decides what to do with duplicate listings
+  const [duplicateReview, setDuplicateReview] = useState<{
+    rows: ProductRowData[];
+    totalMoq: number | string | undefined;
+    targets: number[];
+    batch: BatchDuplicate[];
+    existing: ExistingDuplicate[];
+  } | null>(null);
+  const history = useGridHistory<GridSnapshot>(100);
+  // Cell errors are highlighted once the seller opens the error panel or tries to submit
+  const [showValidation, setShowValidation] = useState(false);
+  const [showErrorPanel, setShowErrorPanel] = useState(false);
+  // Per-row submission state by row index; created rows are locked against further edits
+  // Keyed by row ID, so results follow rows that are moved, removed or restored by undo
+  const [submitResults, setSubmitResults] = useState<Record<string, RowSubmitResult>>({});
+  const [submitting, setSubmitting] = useState(false);
+  // One group code per batch so retried variants join the same multi-variant group
+  const groupCodeRef = useRef<string | null>(null);
+  // Preset stamped onto rows created from now on; starts as the seller's default preset
+  const [newRowPresetId, setNewRowPresetId] = useState<string | null>(() => RowPresetStorage.getDefault()?.id ?? null);
+  const [showPresetsModal, setShowPresetsModal] = useState(false);
+  // Column order, visibility, widths and pinning, saved per seller and variant type
+  const [columnLayout, setColumnLayout] = useState<ColumnLayout>(() => ColumnLayoutStorage.get(variantType));
+  const [showColumnLayoutModal, setShowColumnLayoutModal] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showVariantMatrixModal, setShowVariantMatrixModal] = useState(false);
+  // Flash deal overlaps for the schedule preview, null while existing deals are fetched
+  const [showSchedulePreview, setShowSchedulePreview] = useState(false);
+  const [scheduleOverlaps, setScheduleOverlaps] = useState<FlashDealOverlap[] | null>(null);
   
   // Get current seller ID from storage
   const getCurrentSellerId = (): string => {
@@ -130,25 +304,94 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
   // Removed modal states - sellers don't set margins/costs
 
   // Dynamic custom columns state
-  const [customColumns, setCustomColumns] = useState<Array<{ key: string; label: string; width: number }>>([]);
-  const [showAddColumnModal, setShowAddColumnModal] = useState(false);
-  const [newColumnName, setNewColumnName] = useState('');
-
-  // LocalStorage key for saving form data
-  const STORAGE_KEY = 'variant-product-form-data';
-
-  // Fields that must be shared across all variants in a multi-variant group.
-  // These are editable only on the first (master) row and read-only on others.
-  const groupLevelFields: (keyof ProductRowData)[] = [
-    'currentLocation',
-    'paymentTerm',
-    'paymentMethod',
-    'negotiableFixed',
-    'flashDeal',
-    'shippingTime',
-    'startTime',
-    'endTime',
-  ];
+  const [customColumns, setCustomColumns] = useState<CustomColumn[]>([]);
+  // Add / edit custom column dialog; `column` is null when adding
+  const [customColumnModal, setCustomColumnModal] = useState<{ column: CustomColumn | null } | null>(null);
+
+  // Draft the grid autosaves into; created on the first edit when none was opened
+  const draftIdRef = useRef<string | null>(draftId);
+  const [draftName, setDraftName] = useState<string>('');
+  // Background sync of the draft to the seller account (debounced)
+  const syncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const conflictOpenRef = useRef(false);
+  // Set when the grid is loaded from the server copy, so that load is not pushed back as an edit
+  const skipAutosaveRef = useRef(false);
+  // Set once every row is submitted; the grid is left and nothing is saved as a draft again
+  const submittedRef = useRef(false);
+  const { clear: clearHistory } = history;
+
+  const applyDraft = useCallback((draft: ProductDraft) => {
+    // Ensure all rows have custom column fields initialized
+    const draftColumns = (draft.customColumns || []).map(normalizeCustomColumn);
+    setCustomColumns(draftColumns);
+    // Relative shipping times count from today, not from when the draft was saved
+    const calendars = HolidayCalendarStorage.getAll();
+    setRows(draft.rows.map((row: ProductRowData) => {
+      // Drafts saved before rows had IDs get them now
+      const rowWithFields: ProductRowData = { ...row, rowId: row.rowId || createRowId() };
+      draftColumns.forEach(col => {
+        if (!(col.key in rowWithFields)) {
+          rowWithFields[col.key] = '';
+        }
+      });
+      return refreshShippingTime(rowWithFields, calendars);
+    }));
+    if (variantType === 'multi' && draft.totalMoq !== undefined) {
+      setTotalMoq(draft.totalMoq);
+    }
+    setSubmitResults(draft.submitResults || {});
+    setDraftName(draft.name);
+  }, [variantType]);
+
+  const loadServerDraft = useCallback((remote: ProductDraft) => {
+    const draft = ProductDraftStorage.replaceFromServer(remote);
+    skipAutosaveRef.current = true;
+    applyDraft(draft);
+    clearHistory();
+  }, [applyDraft, clearHistory]);
+
+  // Last writer wins: the seller picks whose copy survives and the other is overwritten
+  const resolveDraftConflict = useCallback(async (remote: ProductDraft) => {
+    const id = draftIdRef.current;
+    if (!id || conflictOpenRef.current) return;
+    conflictOpenRef.current = true;
+    const savedAt = new Date(remote.updatedAt);
+    const choice = await Swal.fire({
+      icon: 'warning',
+      title: 'Draft Changed Elsewhere',
+      html: `<p style="text-align: left; margin: 10px 0;">"${remote.name}" was saved from another device or by a team member${isNaN(savedAt.getTime()) ? '' : ` at ${savedAt.toLocaleString()}`}. Which version do you want to keep?</p>`,
+      showDenyButton: true,
+      confirmButtonText: 'Keep My Version',
+      denyButtonText: 'Load Their Version',
+      confirmButtonColor: '#0071E0',
+      allowOutsideClick: false,
+    });
+    conflictOpenRef.current = false;
+    if (choice.isDenied) {
+      loadServerDraft(remote);
+      return;
+    }
+    const result = await ProductDraftService.sync(id, true);
+    if (result.status === 'error') {
+      toastHelper.showTost('Draft saved on this device only. It will sync when the server is reachable.', 'warning');
+    }
+  }, [loadServerDraft]);
+
+  const scheduleDraftSync = useCallback(() => {
+    if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+    syncTimerRef.current = setTimeout(async () => {
+      syncTimerRef.current = null;
+      const id = draftIdRef.current;
+      if (!id || conflictOpenRef.current) return;
+      const result = await ProductDraftService.sync(id);
+      if (result.status === 'conflict') {
+        await resolveDraftConflict(result.remote);
+      }
+    }, 2000);
+  }, [resolveDraftConflict]);
+
+  // Editable only on the master row of a multi-variant group
+  const groupLevelFields: (keyof ProductRowData)[] = GROUP_LEVEL_FIELDS;
 
   // Load data from localStorage on mount OR initialize from editProducts
   useEffect(() => {
@@ -156,350 +399,7 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
     if (editProducts && editProducts.length > 0) {
       console.log('ExcelLikeProductForm: Initializing rows from editProducts:', editProducts.length, 'products');
       console.log('ExcelLikeProductForm: editProducts data:', JSON.stringify(editProducts, null, 2));
-      const transformedRows: ProductRowData[] = editProducts.map((product) => {
-        const skuFamily = typeof product.skuFamilyId === 'object' ? product.skuFamilyId : null;
-        const grade = (product as any).gradeId ? (typeof (product as any).gradeId === 'object' ? (product as any).gradeId._id : (product as any).gradeId) : '';
-        
-        // Get country deliverables - find USD entries for base prices
-        const hkDeliverable = Array.isArray(product.countryDeliverables) 
-          ? product.countryDeliverables.find((cd: any) => cd.country === 'Hongkong' && cd.currency === 'USD')
-          : null;
-        const dubaiDeliverable = Array.isArray(product.countryDeliverables)
-          ? product.countryDeliverables.find((cd: any) => cd.country === 'Dubai' && cd.currency === 'USD')
-          : null;
-        
-        // Calculate local currency base prices from USD basePrice and exchange rate
-        const hkBasePrice = hkDeliverable?.basePrice || hkDeliverable?.usd || 0;
-        const hkExchangeRate = hkDeliverable?.exchangeRate || hkDeliverable?.xe || 0;
-        const hkHkdBasePrice = hkBasePrice && hkExchangeRate ? hkBasePrice * hkExchangeRate : 0;
-        
-        const dubaiBasePrice = dubaiDeliverable?.basePrice || dubaiDeliverable?.usd || 0;
-        const dubaiExchangeRate = dubaiDeliverable?.exchangeRate || dubaiDeliverable?.xe || 0;
-        const dubaiAedBasePrice = dubaiBasePrice && dubaiExchangeRate ? dubaiBasePrice * dubaiExchangeRate : 0;
-        
-        // Get custom fields and normalize keys to include custom_ prefix
-        // Backend stores custom fields without custom_ prefix (e.g., "notes")
-        // Frontend expects them with custom_ prefix (e.g., "custom_notes")
-        const customFields = (product as any).customFields || {};
-        const customFieldsObj: Record<string, string> = {};
-        if (customFields instanceof Map) {
-          customFields.forEach((value, key) => {
-            // Normalize key: add custom_ prefix if not present
-            const normalizedKey = key.startsWith('custom_') ? key : `custom_${key}`;
-            customFieldsObj[normalizedKey] = String(value || '');
-          });
-        } else if (typeof customFields === 'object' && customFields !== null) {
-          Object.keys(customFields).forEach(key => {
-            // Normalize key: add custom_ prefix if not present
-            const normalizedKey = key.startsWith('custom_') ? key : `custom_${key}`;
-            customFieldsObj[normalizedKey] = String(customFields[key] || '');
-          });
-        }
-        
-        // Find matching subSkuFamily to get subModelName
-        // The specification field contains the subModelName value (e.g., "Pro Max")
-        let subModelName = '';
-        if (skuFamily && (skuFamily as any).subSkuFamilies && Array.isArray((skuFamily as any).subSkuFamilies)) {
-          // Try to match by specification (which should match subName)
-          const specification = product.specification || '';
-          if (specification) {
-            const matchingSubSku = (skuFamily as any).subSkuFamilies.find((sub: any) => 
-              sub.subName === specification
-            );
-            if (matchingSubSku && matchingSubSku.subName) {
-              subModelName = matchingSubSku.subName;
-            } else {
-              // If no exact match, use specification directly as it represents the subModelName
-              subModelName = specification;
-            }
-          }
-        } else if (product.specification) {
-          // Fallback: use specification directly (it contains the subModelName)
-          subModelName = product.specification;
-        }
-        
-        // Map country from database to dropdown code
-        // Database stores full names (Hongkong, Dubai) but dropdown uses codes (HK, USA)
-        // Convert full names to codes for dropdown selection
-        let countryCode = '';
-        if (product.country) {
-          const countryValue = String(product.country).trim();
-          const countryUpper = countryValue.toUpperCase();
-          
-          // Convert full names to codes for dropdown
-          if (countryUpper === 'HONGKONG' || countryUpper === 'HONG KONG') {
-            countryCode = 'HK';
-          } else if (countryUpper === 'DUBAI' || countryUpper === 'D' || countryUpper === 'UAE') {
-            countryCode = 'USA';
-          } else if (countryUpper === 'HK' || countryUpper === 'USA') {
-            // Already a code, use as-is
-            countryCode = countryValue;
-          } else {
-            // Try to find matching code from constants
-            if (constants?.spec?.COUNTRY && Array.isArray(constants.spec.COUNTRY)) {
-              const matchingCountry = constants.spec.COUNTRY.find((c: any) => 
-                c.name?.toUpperCase() === countryUpper ||
-                c.code?.toUpperCase() === countryUpper
-              );
-              if (matchingCountry) {
-                countryCode = matchingCountry.code;
-              } else {
-                countryCode = countryValue; // Use as-is if no match
-              }
-            } else {
-              countryCode = countryValue; // Use as-is if constants not loaded
-            }
-          }
-        }
-        
-        // Map isStatus from backend to status field (active/nonactive)
-        let statusCode = '';
-        if ((product as any).isStatus) {
-          const isStatusValue = String((product as any).isStatus).trim().toLowerCase();
-          // Map isStatus to status field (active/nonactive)
-          if (isStatusValue === 'active' || isStatusValue === 'nonactive' || isStatusValue === 'non active') {
-            statusCode = isStatusValue === 'non active' ? 'nonactive' : isStatusValue;
-          } else {
-            // Fallback to 'active' if invalid value
-            statusCode = 'active';
-          }
-        } else if ((product as any).status) {
-          // Fallback to old status field if isStatus not available
-          const statusValue = String((product as any).status).trim().toLowerCase();
-          if (statusValue === 'active' || statusValue === 'nonactive' || statusValue === 'non active') {
-            statusCode = statusValue === 'non active' ? 'nonactive' : statusValue;
-          } else {
-            statusCode = 'active'; // Default to active
-          }
-        } else {
-          statusCode = 'active'; // Default to active
-        }
-        
-        // Normalize SIM type to match dropdown values - same logic as admin panel
-        // Admin panel uses product.simType directly, but we need to ensure it matches available options
-        let simValue = '';
-        if (product.simType) {
-          const simTypeValue = String(product.simType).trim();
-          
-          // Get available SIM options for the selected country
-          const availableSimOptions = countryCode && constants?.spec?.COUNTRY
-            ? (constants.spec.COUNTRY.find((c: any) => c.code === countryCode)?.SIM || [])
-            : [];
-          
-          if (availableSimOptions.length > 0) {
-            // Try to find exact match first (case-insensitive)
-            const exactMatch = availableSimOptions.find((opt: string) => 
-              String(opt).toUpperCase().trim() === simTypeValue.toUpperCase()
-            );
-            
-            if (exactMatch) {
-              simValue = exactMatch;
-            } else {
-              // Try partial/fuzzy matching for common variations
-              const simUpper = simTypeValue.toUpperCase();
-              const partialMatch = availableSimOptions.find((opt: string) => {
-                const optUpper = String(opt).toUpperCase();
-                return optUpper.includes(simUpper) || simUpper.includes(optUpper);
-              });
-              
-              if (partialMatch) {
-                simValue = partialMatch;
-              } else {
-                // If no match found, use the original value (might be a valid option not in constants)
-                simValue = simTypeValue;
-              }
-            }
-          } else {
-            // If no SIM options available for country, use the original value
-            simValue = simTypeValue;
-          }
-        }
-        
-        // Get paymentTerm and paymentMethod from countryDeliverables or product
-        // PaymentTerm might be stored in countryDeliverables[].paymentTerm as full text
-        // Need to convert to codes for the dropdown
-        let paymentTermValue = '';
-        const getPaymentTermCodes = (paymentTerm: any): string => {
-          if (!paymentTerm) return '';
-          
-          // If it's an array, process each item
-          const terms = Array.isArray(paymentTerm) ? paymentTerm : [paymentTerm];
-          const codes: string[] = [];
-          
-          terms.forEach((term: any) => {
-            if (!term) return;
-            const termStr = String(term).trim();
-            if (!termStr) return;
-            
-            // Try to find matching code from paymentTermOptions (access via constants)
-            const paymentTermOpts = constants?.paymentTerm || [];
-            if (paymentTermOpts && paymentTermOpts.length > 0) {
-              // First try exact match by name (case-insensitive)
-              const matchByName = paymentTermOpts.find((opt: any) => 
-                opt.name?.toLowerCase() === termStr.toLowerCase()
-              );
-              if (matchByName) {
-                codes.push(matchByName.code);
-                return;
-              }
-              
-              // Try match by code
-              const matchByCode = paymentTermOpts.find((opt: any) => 
-                opt.code === termStr
-              );
-              if (matchByCode) {
-                codes.push(matchByCode.code);
-                return;
-              }
-              
-              // Try to map common full text values to codes
-              const textToCodeMap: Record<string, string> = {
-                'on order': 'USD_O',
-                'on delivery': 'USD_D',
-                'as in conformation': 'USD_CONF',
-              };
-              
-              const lowerTerm = termStr.toLowerCase();
-              if (textToCodeMap[lowerTerm]) {
-                // Find if this code exists in options
-                const codeExists = paymentTermOpts.find((opt: any) => 
-                  opt.code === textToCodeMap[lowerTerm]
-                );
-                if (codeExists) {
-                  codes.push(codeExists.code);
-                  return;
-                }
-              }
-            }
-            
-            // If no match found, use as is (might already be a code)
-            codes.push(termStr);
-          });
-          
-          return codes.join(', ');
-        };
-        
-        if ((product as any).paymentTerm) {
-          paymentTermValue = getPaymentTermCodes((product as any).paymentTerm);
-        } else if (hkDeliverable?.paymentTerm || dubaiDeliverable?.paymentTerm) {
-          // Get from first available countryDeliverable
-          const deliverablePaymentTerm = hkDeliverable?.paymentTerm || dubaiDeliverable?.paymentTerm;
-          paymentTermValue = getPaymentTermCodes(deliverablePaymentTerm);
-        }
-        
-        let paymentMethodValue = '';
-        const getPaymentMethodCodes = (paymentMethod: any): string => {
-          if (!paymentMethod) return '';
-          
-          // If it's an array, process each item
-          const methods = Array.isArray(paymentMethod) ? paymentMethod : [paymentMethod];
-          const codes: string[] = [];
-          
-          methods.forEach((method: any) => {
-            if (!method) return;
-            const methodStr = String(method).trim();
-            if (!methodStr) return;
-            
-            // Try to find matching code from paymentMethodOptions (access via constants)
-            const paymentMethodOpts = constants?.paymentMethod || [];
-            if (paymentMethodOpts && paymentMethodOpts.length > 0) {
-              // First try exact match by name (case-insensitive)
-              const matchByName = paymentMethodOpts.find((opt: any) => 
-                opt.name?.toLowerCase() === methodStr.toLowerCase()
-              );
-              if (matchByName) {
-                codes.push(matchByName.code);
-                return;
-              }
-              
-              // Try match by code
-              const matchByCode = paymentMethodOpts.find((opt: any) => 
-                opt.code === methodStr
-              );
-              if (matchByCode) {
-                codes.push(matchByCode.code);
-                return;
-              }
-            }
-            
-            // If no match found, use as is (might already be a code)
-            codes.push(methodStr);
-          });
-          
-          return codes.join(', ');
-        };
-        
-        if ((product as any).paymentMethod) {
-          paymentMethodValue = getPaymentMethodCodes((product as any).paymentMethod);
-        } else if (hkDeliverable?.paymentMethod || dubaiDeliverable?.paymentMethod) {
-          // Get from first available countryDeliverable
-          const deliverablePaymentMethod = hkDeliverable?.paymentMethod || dubaiDeliverable?.paymentMethod;
-          paymentMethodValue = getPaymentMethodCodes(deliverablePaymentMethod);
-        }
-        
-        // Get subSkuFamilyId from product
-        let subSkuFamilyId: string | null = null;
-        if ((product as any).subSkuFamilyId) {
-          subSkuFamilyId = typeof (product as any).subSkuFamilyId === 'object' 
-            ? ((product as any).subSkuFamilyId._id || null)
-            : (product as any).subSkuFamilyId;
-        }
-        
-        return {
-          subModelName: subModelName,
-          storage: product.storage || '',
-          colour: product.color || '',
-          country: countryCode,
-          sim: simValue,
-          version: product.specification || '',
-          grade: grade,
-          status: statusCode,
-          condition: product.condition || '',
-          lockUnlock: (product as any).lockUnlock ? '1' : '0',
-          warranty: (product as any).warranty || '',
-          batteryHealth: (product as any).batteryHealth || '',
-          packing: (product as any).packing || '',
-          currentLocation: (product as any).currentLocation || '',
-          hkUsd: hkBasePrice,
-          hkXe: hkExchangeRate,
-          hkHkd: hkHkdBasePrice,
-          dubaiUsd: dubaiBasePrice,
-          dubaiXe: dubaiExchangeRate,
-          dubaiAed: dubaiAedBasePrice,
-          deliveryLocation: Array.isArray((product as any).deliveryLocation) 
-            ? (product as any).deliveryLocation 
-            : [],
-          customMessage: (product as any).customMessage || '',
-          totalQty: product.stock || 0,
-          moqPerVariant: product.moq || 0,
-          weight: (product as any).weight || '',
-          purchaseType: (product as any).purchaseType || 'partial',
-          paymentTerm: paymentTermValue,
-          paymentMethod: paymentMethodValue,
-          negotiableFixed: product.isNegotiable ? '1' : '0',
-          tags: (product as any).tags || '',
-          flashDeal: (product as any).isFlashDeal === 'true' || (product as any).isFlashDeal === true ? '1' : '0',
-          shippingTime: (product as any).shippingTime || '',
-          vendor: (product as any).vendor || '',
-          vendorListingNo: (product as any).vendorListingNo || '',
-          carrier: (product as any).carrier || '',
-          carrierListingNo: (product as any).carrierListingNo || '',
-          uniqueListingNo: (product as any).uniqueListingNo || '',
-          adminCustomMessage: (product as any).adminCustomMessage || '',
-          startTime: (product as any).startTime || '',
-          endTime: product.expiryTime || '',
-          remark: (product as any).remark || '',
-          supplierId: (product as any).sellerId ? (typeof (product as any).sellerId === 'object' ? (product as any).sellerId._id : (product as any).sellerId) : '',
-          subSkuFamilyId: subSkuFamilyId,
-          supplierListingNumber: (product as any).supplierListingNumber || '',
-          customerListingNumber: (product as any).customerListingNumber || '',
-          skuFamilyId: typeof product.skuFamilyId === 'object' ? product.skuFamilyId._id : product.skuFamilyId,
-          ram: product.ram || '',
-          sequence: (product as any).sequence || undefined,
-          images: (skuFamily as any)?.images || [],
-          ...customFieldsObj,
-        };
-      });
+      const transformedRows = editProducts.map(product => productToRowData(product, constants, deliveryHubs));
       console.log('Transformed rows:', transformedRows);
       setRows(transformedRows);
 
@@ -524,81 +424,16 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
         }
       }
       
-      // Extract custom columns from backend (product.customColumns) or from custom fields
-      // Priority 1: Check if product has customColumns field from backend
-      const firstProduct = editProducts[0];
-      if (firstProduct && (firstProduct as any).customColumns && Array.isArray((firstProduct as any).customColumns)) {
-        // Load custom columns from backend (stored in database)
-        const backendCustomCols = (firstProduct as any).customColumns.map((col: any) => ({
-          key: col.key.startsWith('custom_') ? col.key : `custom_${col.key}`,
-          label: col.label || col.key.replace(/^custom_/, '').replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase()),
-          width: col.width || 150,
-        }));
-        setCustomColumns(backendCustomCols);
-      } else if (transformedRows.length > 0) {
-        // Priority 2: Extract custom columns from custom fields data
-        const allCustomKeys = new Set<string>();
-        editProducts.forEach((product) => {
-          const customFields = (product as any).customFields || {};
-          if (customFields instanceof Map) {
-            customFields.forEach((_value, key) => {
-              const normalizedKey = key.startsWith('custom_') ? key : `custom_${key}`;
-              allCustomKeys.add(normalizedKey);
-            });
-          } else if (typeof customFields === 'object' && customFields !== null) {
-            Object.keys(customFields).forEach(key => {
-              const normalizedKey = key.startsWith('custom_') ? key : `custom_${key}`;
-              allCustomKeys.add(normalizedKey);
-            });
-          }
-        });
-        if (allCustomKeys.size > 0) {
-          const customCols = Array.from(allCustomKeys).map(key => ({
-            key,
-            label: key.replace(/^custom_/, '').replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
-            width: 150,
-          }));
-          setCustomColumns(customCols);
-        }
-      }
+      // Custom columns stored on the product, or derived from its custom fields
+      setCustomColumns(getProductCustomColumns(editProducts));
       return;
     }
     
-    // Priority 2: Load from localStorage if available
-    try {
-      const savedData = localStorage.getItem(STORAGE_KEY);
-      if (savedData) {
-        const parsed = JSON.parse(savedData);
-        // Only restore if variantType matches
-        if (parsed.variantType === variantType && parsed.rows && parsed.rows.length > 0) {
-          // Restore custom columns first if they exist
-          if (parsed.customColumns && Array.isArray(parsed.customColumns) && parsed.customColumns.length > 0) {
-            setCustomColumns(parsed.customColumns);
-            // Ensure all rows have custom column fields initialized
-            const rowsWithCustomFields = parsed.rows.map((row: ProductRowData) => {
-              const rowWithFields = { ...row };
-              parsed.customColumns.forEach((col: { key: string; label: string; width: number }) => {
-                if (!(col.key in rowWithFields)) {
-                  rowWithFields[col.key] = '';
-                }
-              });
-              return rowWithFields;
-            });
-            setRows(rowsWithCustomFields);
-          } else {
-            setRows(parsed.rows);
-          }
-          // Restore totalMoq if it exists and variantType is multi
-          if (variantType === 'multi' && parsed.totalMoq !== undefined) {
-            setTotalMoq(parsed.totalMoq);
-          }
-          // Show notification that data was restored
-          // toastHelper.showTost(`Restored ${parsed.rows.length} row(s) from saved data`, 'info');
-          return;
-        }
-      }
-    } catch (error) {
-      console.error('Error loading from localStorage:', error);
+    // Priority 2: Restore the draft being worked on
+    const draft = draftIdRef.current ? ProductDraftStorage.get(draftIdRef.current) : null;
+    if (draft && draft.variantType === variantType && draft.rows.length > 0) {
+      applyDraft(draft);
+      return;
     }
     
     // Priority 3: Initialize rows based on variant type if no saved data and not editing
@@ -613,115 +448,118 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
     } else if (variantType === 'single') {
       setRows([createEmptyRow(0)]);
     }
-  }, [variantType, variants, editProducts, constants]);
+  }, [variantType, variants, editProducts, constants, deliveryHubs]);
 
-  // Sync shipping time mode with values
+  // Autosave into the current draft whenever rows, totalMoq, or customColumns change.
+  // Editing an existing listing never writes a draft, and a new draft is only
+  // started once the seller has actually changed something.
+  const isEditingListing = editProducts.length > 0;
+  const hasEdits = history.canUndo;
   useEffect(() => {
-    const newModes: Record<number, 'today' | 'tomorrow' | 'calendar' | ''> = {};
-    let hasChanges = false;
-    
-    rows.forEach((row, index) => {
-      const shippingTimeValue = row.shippingTime;
-      if (!shippingTimeValue) {
-        if (shippingTimeMode[index]) {
-          newModes[index] = '';
-          hasChanges = true;
+    if (isEditingListing || rows.length === 0 || submittedRef.current) return;
+    if (skipAutosaveRef.current) {
+      skipAutosaveRef.current = false;
+      return;
+    }
+    const content = {
+      variantType,
+      rows,
+      totalMoq: variantType === 'multi' ? totalMoq : undefined,
+      customColumns,
+      submitResults,
+    };
+    const saved = draftIdRef.current ? ProductDraftStorage.update(draftIdRef.current, content) : null;
+    if (saved) {
+      scheduleDraftSync();
+      return;
+    }
+    if (!hasEdits) return;
+    const created = ProductDraftStorage.create(content);
+    draftIdRef.current = created.id;
+    setDraftName(created.name);
+    onDraftChange?.(created.id);
+    scheduleDraftSync();
+  }, [rows, variantType, totalMoq, customColumns, submitResults, isEditingListing, hasEdits, onDraftChange, scheduleDraftSync]);
+
+  // When a draft is opened, pick up a newer copy saved from another device
+  useEffect(() => {
+    const id = draftIdRef.current;
+    if (!id || isEditingListing) return;
+    let cancelled = false;
+    ProductDraftService.get(id)
+      .then(async (res) => {
+        if (cancelled) return;
+        const remote = res.status === 200 ? res.data : null;
+        const local = ProductDraftStorage.get(id);
+        if (!remote || remote.updatedAt === local?.syncedAt) {
+          if (local?.dirty) scheduleDraftSync();
+          return;
         }
-        return;
-      }
-      
-      try {
-        const formatDate = (date: Date): string => {
-          const year = date.getFullYear();
-          const month = String(date.getMonth() + 1).padStart(2, '0');
-          const day = String(date.getDate()).padStart(2, '0');
-          return `${year}-${month}-${day}`;
-        };
-        
-        const getToday = (): Date => {
-          const today = new Date();
-          today.setHours(0, 0, 0, 0);
-          return today;
-        };
-        
-        const getTomorrow = (): Date => {
-          const tomorrow = new Date();
-          tomorrow.setDate(tomorrow.getDate() + 1);
-          tomorrow.setHours(0, 0, 0, 0);
-          return tomorrow;
-        };
-        
-        const dateValue = new Date(shippingTimeValue);
-        dateValue.setHours(0, 0, 0, 0);
-        
-        const todayStr = formatDate(getToday());
-        const tomorrowStr = formatDate(getTomorrow());
-        const valueStr = formatDate(dateValue);
-        
-        let detectedMode: 'today' | 'tomorrow' | 'calendar' | '' = '';
-        if (valueStr === todayStr) {
-          detectedMode = 'today';
-        } else if (valueStr === tomorrowStr) {
-          detectedMode = 'tomorrow';
+        if (local?.dirty) {
+          await resolveDraftConflict(remote);
         } else {
-          detectedMode = 'calendar';
-        }
-        
-        if (shippingTimeMode[index] !== detectedMode) {
-          newModes[index] = detectedMode;
-          hasChanges = true;
-        }
-      } catch (e) {
-        // Invalid date, clear mode
-        if (shippingTimeMode[index]) {
-          newModes[index] = '';
-          hasChanges = true;
+          loadServerDraft(remote);
         }
-      }
-    });
-    
-    if (hasChanges) {
-      setShippingTimeMode((prev) => {
-        const updated = { ...prev };
-        Object.keys(newModes).forEach((key) => {
-          const idx = Number(key);
-          const mode = newModes[idx];
-          if (mode === '' || mode === 'today' || mode === 'tomorrow' || mode === 'calendar') {
-            updated[idx] = mode;
-          }
-        });
-        return updated;
+      })
+      .catch(() => {
+        // Offline: keep working on the local copy, it is pushed on the next edit
       });
-    }
-  }, [rows.map(r => r.shippingTime).join(',')]);
-
+    return () => {
+      cancelled = true;
+    };
+  }, [isEditingListing, loadServerDraft, resolveDraftConflict, scheduleDraftSync]);
 
-  // Save data to localStorage whenever rows, totalMoq, or customColumns change
+  // Push pending changes right away when leaving the grid
   useEffect(() => {
-    if (rows.length > 0 || customColumns.length > 0) {
-      try {
-        const dataToSave = {
-          variantType,
-          rows,
-          totalMoq: variantType === 'multi' ? totalMoq : undefined,
-          customColumns: customColumns.length > 0 ? customColumns : undefined,
-          timestamp: new Date().toISOString(),
-        };
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(dataToSave));
-      } catch (error) {
-        console.error('Error saving to localStorage:', error);
+    const timerRef = syncTimerRef;
+    return () => {
+      if (timerRef.current && draftIdRef.current) {
+        clearTimeout(timerRef.current);
+        ProductDraftService.sync(draftIdRef.current);
       }
+    };
+  }, []);
+
+  const renameDraft = async () => {
+    const id = draftIdRef.current;
+    if (!id) return;
+    const result = await Swal.fire({
+      title: 'Rename Draft',
+      input: 'text',
+      inputValue: draftName,
+      showCancelButton: true,
+      confirmButtonText: 'Save',
+      confirmButtonColor: '#0071E0',
+      inputValidator: (value) => (!value.trim() ? 'Name is required' : undefined),
+    });
+    if (!result.isConfirmed) return;
+    const renamed = ProductDraftStorage.rename(id, result.value);
+    if (renamed) {
+      setDraftName(renamed.name);
+      scheduleDraftSync();
     }
-  }, [rows, variantType, totalMoq, customColumns]);
+  };
+
+  // Values of the new-row preset for the columns this seller may fill
+  const getNewRowPresetValues = (): Record<string, string> => {
+    const preset = newRowPresetId ? RowPresetStorage.get(newRowPresetId) : null;
+    if (!preset) return {};
+    const values = resolveRowPreset(preset);
+    Object.keys(values).forEach(field => {
+      if (!hasPermission(field)) delete values[field];
+    });
+    return values;
+  };
 
   const createEmptyRow = (index: number, variant?: VariantOption): ProductRowData => ({
+    rowId: createRowId(),
     subModelName: variant?.subModelName || '',
     storage: variant?.storage || '',
     colour: variant?.color || '',
-    country: '',
-    sim: '',
+    country: variant?.country || '',
+    sim: variant?.sim || '',
     version: '',
-    grade: '',
+    grade: variant?.grade || '',
     status: 'active', // Default to active for isStatus field
     condition: '',
     lockUnlock: '',
@@ -729,12 +567,12 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
     batteryHealth: '',
     packing: '',
     currentLocation: '',
-    hkUsd: '',
-    hkXe: '',
-    hkHkd: '',
-    dubaiUsd: '',
-    dubaiXe: '',
-    dubaiAed: '',
+    ...deliveryHubs.reduce((acc, hub) => {
+      getHubPriceFields(hub).forEach(field => {
+        acc[field] = '';
+      });
+      return acc;
+    }, {} as Record<string, string>),
     deliveryLocation: [],
     customMessage: '',
     totalQty: '',
@@ -747,12 +585,14 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
     tags: '',
     flashDeal: '',
     shippingTime: '',
+    shippingPreset: '',
     vendor: '',
     vendorListingNo: '',
     carrier: '',
     carrierListingNo: '',
     uniqueListingNo: '',
     adminCustomMessage: '',
+    scheduleHub: deliveryHubs[0]?.code || '',
     startTime: '',
     endTime: '',
     remark: '',
@@ -768,6 +608,7 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
       acc[col.key] = '';
       return acc;
     }, {} as Record<string, string>),
+    ...getNewRowPresetValues(),
   });
 
   // Load permissions and fetch dropdown data
@@ -797,6 +638,12 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
         setSkuFamilies(skuFamiliesList || []);
         const constantsData = await ConstantsService.getConstants();
         setConstants(constantsData);
+
+        try {
+          setExchangeRates(await ExchangeRateService.getRates());
+        } catch (error) {
+          console.error('Error fetching exchange rates:', error);
+        }
         
         // Fetch next customer listing number WITH multi-variant support
         try {
@@ -967,13 +814,41 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Grid shortcuts are off while the presets, columns or find/replace dialog is open
+      if (showPresetsModal || showColumnLayoutModal || showFindReplaceModal || showBulkPriceModal || showExchangeRatesModal || showExportModal || showVariantMatrixModal || showSchedulePreview || showHolidayModal || duplicateReview) return;
       // Ctrl+N or Cmd+N to add row
       if ((e.ctrlKey || e.metaKey) && e.key === 'n') {
         e.preventDefault();
         addRow();
       }
-      // Delete key to remove row if focused
-      if (e.key === 'Delete' && focusedCell) {
+      // Ctrl+H or Cmd+H to find and replace
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'h' && !customColumnModal && !showBulkEditModal) {
+        e.preventDefault();
+        setShowFindReplaceModal(true);
+        return;
+      }
+      // Ctrl+Z to undo, Ctrl+Shift+Z / Ctrl+Y to redo (not while a modal has focus)
+      if ((e.ctrlKey || e.metaKey) && !customColumnModal && !showBulkEditModal) {
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+          e.preventDefault();
+          undo();
+          return;
+        }
+        if ((key === 'z' && e.shiftKey) || key === 'y') {
+          e.preventDefault();
+          redo();
+          return;
+        }
+      }
+      // Delete key clears every cell in a multi-cell selection
+      if (e.key === 'Delete' && getSelectedCells().length > 1) {
+        e.preventDefault();
+        clearSelectedCells();
+        return;
+      }
+      // Delete key clears the focused cell, unless it is being edited
+      if (e.key === 'Delete' && focusedCell && editingCellRef.current !== `${focusedCell.row}-${focusedCell.col}`) {
         const cell = cellRefs.current[`${focusedCell.row}-${focusedCell.col}`];
         if (cell && 'value' in cell) {
           updateRow(focusedCell.row, focusedCell.col as keyof ProductRowData, '');
@@ -984,70 +859,93 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
         setRowSkuFamilySearch(null);
         setRowSkuFamilySearchResults([]);
       }
+      // Escape also drops the range selection
+      if (e.key === 'Escape' && selection) {
+        setSelection(null);
+      }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [focusedCell, rows.length, rowSkuFamilySearch]);
+  }, [focusedCell, rows, rowSkuFamilySearch, selection, customColumns, totalMoq, cellIssues, customColumnModal, showBulkEditModal, showPresetsModal, showColumnLayoutModal, showFindReplaceModal, showBulkPriceModal, showExchangeRatesModal, showExportModal, showVariantMatrixModal, showSchedulePreview, showHolidayModal, duplicateReview]);
+
+  // End a drag selection wherever the mouse is released
+  useEffect(() => {
+    const stopSelecting = () => {
+      isSelectingRef.current = false;
+    };
+    window.addEventListener('mouseup', stopSelecting);
+    return () => window.removeEventListener('mouseup', stopSelecting);
+  }, []);
 
   // Removed supplier dropdown click outside handler
 
-  // Auto-calculate delivery location and currency conversions
+  // Rows whose delivery location already matches their prices, for the current hubs
+  const derivedLocationRef = useRef({ hubs: deliveryHubs, rows: new WeakSet<ProductRowData>() });
+
+  // Auto-calculate delivery location: every hub with a price delivers. Edits replace
+  // the row object, so only rows changed since the last pass are recomputed.
   useEffect(() => {
-    setRows(prevRows => prevRows.map(row => {
-      const updatedRow = { ...row };
-      
-      // Auto-calculate delivery location based on pricing
-      const locations: string[] = [];
-      // If HK pricing exists, add HK to delivery locations
-      if (row.hkUsd || row.hkHkd) {
-        locations.push('HK');
-      }
-      // If Dubai pricing exists, add D to delivery locations
-      if (row.dubaiUsd || row.dubaiAed) {
-        locations.push('D');
-      }
-      updatedRow.deliveryLocation = locations;
-      
-      return updatedRow;
-    }));
-  }, [rows.map(r => `${r.currentLocation}-${r.hkUsd}-${r.hkHkd}-${r.dubaiUsd}-${r.dubaiAed}`).join(',')]);
+    if (derivedLocationRef.current.hubs !== deliveryHubs) {
+      derivedLocationRef.current = { hubs: deliveryHubs, rows: new WeakSet() };
+    }
+    const derived = derivedLocationRef.current.rows;
+    setRows(prevRows => {
+      let hasChanges = false;
+      const updatedRows = prevRows.map(row => {
+        if (derived.has(row)) return row;
+        const deliveryLocation = deliveryHubs.filter(hub => hasHubPrice(hub, row)).map(hub => hub.code);
+        let updatedRow = row;
+        if ((row.deliveryLocation || []).join(',') !== deliveryLocation.join(',')) {
+          updatedRow = { ...row, deliveryLocation };
+          hasChanges = true;
+        }
+        derived.add(updatedRow);
+        return updatedRow;
+      });
+      return hasChanges ? updatedRows : prevRows;
+    });
+  }, [rows, deliveryHubs]);
 
   // Auto-generate customer listing numbers when rows change
   // Format: L{number}-{index+1} for single, L{number}M{number}-{index+1} for multi
   // Counting is overall (not per seller), NO supplier code
   // For multi-variant: M number matches L number (L1M1, L2M2, etc.) - same as admin panel
+  // Rows that already carry the right number are left untouched
   useEffect(() => {
     if (currentCustomerListingNumber !== null && rows.length > 0) {
-      setRows(prevRows => prevRows.map((row, index) => {
-        const updatedRow = { ...row };
-        let prefix = `L${currentCustomerListingNumber}`;
-        // For multi-variant: L{N}M{N} (e.g., L1M1, L2M2) - M number matches L number
-        if (variantType === 'multi') {
-          prefix = `L${currentCustomerListingNumber}M${currentCustomerListingNumber}`;
-        }
-
-        const customerListingNo = `${prefix}-${index + 1}`;
+      setRows(prevRows => {
+        let hasChanges = false;
+        const updatedRows = prevRows.map((row, index) => {
+          let prefix = `L${currentCustomerListingNumber}`;
+          // For multi-variant: L{N}M{N} (e.g., L1M1, L2M2) - M number matches L number
+          if (variantType === 'multi') {
+            prefix = `L${currentCustomerListingNumber}M${currentCustomerListingNumber}`;
+          }
 
-        if (!updatedRow.customerListingNumber || updatedRow.customerListingNumber !== customerListingNo) {
-          updatedRow.customerListingNumber = customerListingNo;
-        }
-        return updatedRow;
-      }));
+          const customerListingNo = `${prefix}-${index + 1}`;
+          if (row.customerListingNumber === customerListingNo) return row;
+          hasChanges = true;
+          return { ...row, customerListingNumber: customerListingNo };
+        });
+        return hasChanges ? updatedRows : prevRows;
+      });
     }
   }, [rows.length, currentCustomerListingNumber, variantType]);
 
   // Auto-generate unique listing numbers when rows change
   useEffect(() => {
     if (currentUniqueListingNumber !== null && rows.length > 0) {
-      setRows(prevRows => prevRows.map((row, index) => {
-        const updatedRow = { ...row };
-        const uniqueListingNo = String(currentUniqueListingNumber + index).padStart(8, '0');
-        if (!updatedRow.uniqueListingNo || updatedRow.uniqueListingNo !== uniqueListingNo) {
-          updatedRow.uniqueListingNo = uniqueListingNo;
-        }
-        return updatedRow;
-      }));
+      setRows(prevRows => {
+        let hasChanges = false;
+        const updatedRows = prevRows.map((row, index) => {
+          const uniqueListingNo = String(currentUniqueListingNumber + index).padStart(8, '0');
+          if (row.uniqueListingNo === uniqueListingNo) return row;
+          hasChanges = true;
+          return { ...row, uniqueListingNo };
+        });
+        return hasChanges ? updatedRows : prevRows;
+      });
     }
   }, [rows.length, currentUniqueListingNumber]);
 
@@ -1061,8 +959,6 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
     setRows(prevRows => {
       let hasChanges = false;
       const updatedRows = prevRows.map((row, index) => {
-        const updatedRow = { ...row };
-        
         // Count how many rows come before this row (for product number) - per seller individual counting
         const productNum = index + 1;
         
@@ -1075,12 +971,9 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
         // Include supplier code in supplier listing number
         const expectedListingNo = `${supplierListingNumberInfo.supplierCode}-${listingPrefix}-${productNum}`;
         
-        if (updatedRow.supplierListingNumber !== expectedListingNo) {
-          hasChanges = true;
-          updatedRow.supplierListingNumber = expectedListingNo;
-        }
-        
-        return updatedRow;
+        if (row.supplierListingNumber === expectedListingNo) return row;
+        hasChanges = true;
+        return { ...row, supplierListingNumber: expectedListingNo };
       });
       
       return hasChanges ? updatedRows : prevRows;
@@ -1089,103 +982,221 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
 
   // Removed auto-generation of customer/unique/supplier listing numbers - sellers don't need these
 
-  const updateRow = (index: number, field: keyof ProductRowData, value: any) => {
-    setRows(prevRows => {
-      const newRows = [...prevRows];
-      newRows[index] = { ...newRows[index], [field]: value };
-
-      // In multi-variant mode, keep group-level fields identical across all rows.
-      if (variantType === 'multi' && groupLevelFields.includes(field)) {
-        for (let i = 0; i < newRows.length; i++) {
-          if (i !== index) {
-            (newRows[i] as any)[field] = value;
-          }
+  // Apply a single field change to a copy of the rows, including the multi-variant
+  // group sync and the USD/XE/local currency recalculation
+  const applyFieldUpdate = (prevRows: ProductRowData[], index: number, field: keyof ProductRowData, value: any): ProductRowData[] => {
+    const newRows = [...prevRows];
+    newRows[index] = { ...newRows[index], [field]: value };
+
+    // In multi-variant mode, keep group-level fields identical across all rows.
+    if (variantType === 'multi' && groupLevelFields.includes(field)) {
+      for (let i = 0; i < newRows.length; i++) {
+        if (i !== index) {
+          newRows[i] = { ...newRows[i], [field]: value };
         }
       }
+    }
+    
+    // A new schedule hub keeps the times as entered, now read in that hub's zone
+    if (field === 'scheduleHub') {
+      const toZone = getScheduleTimeZone(deliveryHubs, value);
+      newRows.forEach((row, i) => {
+        if (prevRows[i].scheduleHub === row.scheduleHub) return;
+        const fromZone = getScheduleTimeZone(deliveryHubs, prevRows[i].scheduleHub);
+        newRows[i] = {
+          ...row,
+          startTime: row.startTime ? rezoneInstant(row.startTime, fromZone, toZone) : row.startTime,
+          endTime: row.endTime ? rezoneInstant(row.endTime, fromZone, toZone) : row.endTime,
+        };
+      });
+    }
+
+    // A shipping date set directly is fixed; a preset (or a new location's holidays) resolves to a date
+    if (field === 'shippingTime') {
+      newRows.forEach((row, i) => {
+        if (row !== prevRows[i]) newRows[i] = { ...row, shippingPreset: value ? 'calendar' : '' };
+      });
+    } else if (field === 'shippingPreset' || field === 'currentLocation') {
+      newRows.forEach((row, i) => {
+        if (row !== prevRows[i]) newRows[i] = refreshShippingTime(row, holidayCalendars);
+      });
+    }
+
+    // A full purchase sells the whole stock, so its MOQ follows the quantity
+    if ((field === 'totalQty' || field === 'purchaseType') && newRows[index].purchaseType === 'full') {
+      newRows[index] = { ...newRows[index], moqPerVariant: newRows[index].totalQty || 1 };
+    }
+
+    // Removed supplier listing number auto-generation - sellers don't select suppliers
+    
+    // Auto-calculate currency conversions for the edited hub
+    const hub = findHubByField(deliveryHubs, String(field));
+    if (hub) {
+      const usd = parseFloat(String(newRows[index][hub.usdField])) || 0;
+      const xe = parseFloat(String(newRows[index][hub.xeField])) || 0;
+      const local = parseFloat(String(newRows[index][hub.localField])) || 0;
       
-      // Removed supplier listing number auto-generation - sellers don't select suppliers
-      
-      // Auto-calculate currency conversions for HK
-      if (field === 'hkUsd' || field === 'hkXe' || field === 'hkHkd') {
-        const usd = parseFloat(String(newRows[index].hkUsd)) || 0;
-        const xe = parseFloat(String(newRows[index].hkXe)) || 0;
-        const hkd = parseFloat(String(newRows[index].hkHkd)) || 0;
-        
-        // Count how many values are present (greater than 0)
-        const valuesCount = [usd, xe, hkd].filter(v => v > 0).length;
-        
-        // Only calculate if at least 2 values exist
-        if (valuesCount >= 2) {
-          // Calculate the missing value when any two values exist
-          // Priority: don't overwrite the field being edited
-          if (field !== 'hkHkd' && usd > 0 && xe > 0) {
-            // If USD and XE exist, calculate HKD (multiply USD * XE)
-            newRows[index].hkHkd = (usd * xe).toFixed(2);
-          } else if (field !== 'hkUsd' && hkd > 0 && xe > 0) {
-            // If HKD and XE exist, calculate USD (divide HKD / XE)
-            newRows[index].hkUsd = (hkd / xe).toFixed(2);
-          } else if (field !== 'hkXe' && usd > 0 && hkd > 0) {
-            // If USD and HKD exist, calculate XE (divide HKD / USD)
-            newRows[index].hkXe = (hkd / usd).toFixed(4);
-          }
-        }
-      }
+      // Count how many values are present (greater than 0)
+      const valuesCount = [usd, xe, local].filter(v => v > 0).length;
       
-      // Auto-calculate currency conversions for Dubai
-      if (field === 'dubaiUsd' || field === 'dubaiXe' || field === 'dubaiAed') {
-        const usd = parseFloat(String(newRows[index].dubaiUsd)) || 0;
-        const xe = parseFloat(String(newRows[index].dubaiXe)) || 0;
-        const aed = parseFloat(String(newRows[index].dubaiAed)) || 0;
-        
-        // Count how many values are present (greater than 0)
-        const valuesCount = [usd, xe, aed].filter(v => v > 0).length;
-        
-        // Only calculate if at least 2 values exist
-        if (valuesCount >= 2) {
-          // Calculate the missing value when any two values exist
-          // Priority: don't overwrite the field being edited
-          if (field !== 'dubaiAed' && usd > 0 && xe > 0) {
-            // If USD and XE exist, calculate AED (multiply USD * XE)
-            newRows[index].dubaiAed = (usd * xe).toFixed(2);
-          } else if (field !== 'dubaiUsd' && aed > 0 && xe > 0) {
-            // If AED and XE exist, calculate USD (divide AED / XE)
-            newRows[index].dubaiUsd = (aed / xe).toFixed(2);
-          } else if (field !== 'dubaiXe' && usd > 0 && aed > 0) {
-            // If USD and AED exist, calculate XE (divide AED / USD)
-            newRows[index].dubaiXe = (aed / usd).toFixed(4);
-          }
+      // Only calculate if at least 2 values exist
+      if (valuesCount >= 2) {
+        // Calculate the missing value when any two values exist
+        // Priority: don't overwrite the field being edited
+        if (field !== hub.localField && usd > 0 && xe > 0) {
+          // If USD and XE exist, calculate the local price (multiply USD * XE)
+          newRows[index][hub.localField] = (usd * xe).toFixed(2);
+        } else if (field !== hub.usdField && local > 0 && xe > 0) {
+          // If local price and XE exist, calculate USD (divide local / XE)
+          newRows[index][hub.usdField] = (local / xe).toFixed(2);
+        } else if (field !== hub.xeField && usd > 0 && local > 0) {
+          // If USD and local price exist, calculate XE (divide local / USD)
+          newRows[index][hub.xeField] = (local / usd).toFixed(4);
         }
       }
-      
-      return newRows;
-    });
+    }
+    
+    return newRows;
   };
 
-  const addRow = () => {
-    setRows(prevRows => {
-      const baseRow = createEmptyRow(prevRows.length);
+  // State as of the last render, for handlers inside memoized grid rows (see GridRow)
+  const latestStateRef = useRef({ rows, customColumns, totalMoq, cellIssues, submitResults, selection, focusedCell });
+  latestStateRef.current = { rows, customColumns, totalMoq, cellIssues, submitResults, selection, focusedCell };
 
-      // In multi-variant mode, new variants inherit group-level fields from master row (row 0)
-      if (variantType === 'multi' && prevRows.length > 0) {
-        const master = prevRows[0];
-        groupLevelFields.forEach((field) => {
-          (baseRow as any)[field] = (master as any)[field];
-        });
-      }
+  // Push the current state onto the undo stack before a user edit. Edits sharing a
+  // coalesce key (keystrokes in the same cell) become a single undo step.
+  const recordHistory = (coalesceKey?: string) => {
+    const { rows, customColumns, totalMoq, cellIssues, submitResults } = latestStateRef.current;
+    history.record({ rows, customColumns, totalMoq, cellIssues, submitResults }, coalesceKey);
+  };
 
-      return [...prevRows, baseRow];
+  const restoreSnapshot = (snapshot: GridSnapshot | null) => {
+    if (!snapshot) return;
+    setRows(snapshot.rows);
+    setCustomColumns(snapshot.customColumns);
+    setTotalMoq(snapshot.totalMoq);
+    setCellIssues(snapshot.cellIssues);
+    // A row the server has created stays created, whatever is undone
+    setSubmitResults(prev => {
+      const next = { ...snapshot.submitResults };
+      Object.entries(prev).forEach(([rowId, result]) => {
+        if (result.status === 'created') next[rowId] = result;
+      });
+      return next;
     });
+    setSelection(null);
+  };
+
+  const undo = () => restoreSnapshot(history.undo({ rows, customColumns, totalMoq, cellIssues, submitResults }));
+  const redo = () => restoreSnapshot(history.redo({ rows, customColumns, totalMoq, cellIssues, submitResults }));
+
+  const getRowResult = (index: number): RowSubmitResult | undefined => {
+    const rowId = rows[index]?.rowId;
+    return rowId ? submitResults[rowId] : undefined;
+  };
+
+  const isRowLocked = (index: number) => getRowResult(index)?.status === 'created';
+
+  // A price typed into a hub with no XE and no other price yet takes the reference
+  // rate as its XE, so the other currency is filled in by the conversion
+  const fillReferenceXe = (prevRows: ProductRowData[], index: number, field: string): ProductRowData[] => {
+    const hub = findHubByField(deliveryHubs, field);
+    if (!hub || field === hub.xeField) return prevRows;
+    const referenceRate = exchangeRates?.rates[hub.currency];
+    if (!referenceRate || !hasPermission(hub.xeField)) return prevRows;
+    const row = prevRows[index];
+    const otherPrice = field === hub.usdField ? row[hub.localField] : row[hub.usdField];
+    if (parseFloat(String(row[hub.xeField])) > 0 || parseFloat(String(otherPrice)) > 0) return prevRows;
+    const newRows = [...prevRows];
+    newRows[index] = { ...row, [hub.xeField]: referenceRate.toFixed(4) };
+    return newRows;
+  };
+
+  const updateRow = (index: number, field: keyof ProductRowData, value: any) => {
+    if (isRowLocked(index)) return;
+    recordHistory(`${index}-${String(field)}`);
+    setRows(prevRows => applyFieldUpdate(fillReferenceXe(prevRows, index, field as string), index, field, value));
+    clearCellIssue(index, field as string);
+  };
+
+  // Generated columns, group-level fields on non-master variants and created rows are not writable
+  const isCellWritable = (index: number, field: string) => {
+    const isGroupLocked = variantType === 'multi' && index > 0 && groupLevelFields.includes(field);
+    return !READ_ONLY_GRID_FIELDS.includes(field) && !isGroupLocked && !isRowLocked(index);
+  };
+
+  const clearCellIssue = (index: number, field: string) => {
+    setCellIssues(prev => {
+      const key = `${index}-${field}`;
+      if (!(key in prev)) return prev;
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  const buildAppendedRow = (prevRows: ProductRowData[], variant?: VariantOption): ProductRowData => {
+    const baseRow = createEmptyRow(prevRows.length, variant);
+
+    // In multi-variant mode, new variants inherit group-level fields from master row (row 0)
+    if (variantType === 'multi' && prevRows.length > 0) {
+      const master = prevRows[0];
+      groupLevelFields.forEach((field) => {
+        (baseRow as any)[field] = (master as any)[field];
+      });
+    }
+
+    return baseRow;
+  };
+
+  const addRow = () => {
+    recordHistory();
+    setRows(prevRows => [...prevRows, buildAppendedRow(prevRows)]);
+  };
+
+  // Rows generated by the variant matrix. A grid holding only its starting
+  // blank row (no model yet) gets the variants in its place.
+  const addVariantRows = (variants: VariantOption[]) => {
+    const { rows } = latestStateRef.current;
+    const replaceBlank = rows.length === 1 && !rows[0].skuFamilyId && !rows[0].subModelName && !isRowLocked(0);
+    recordHistory();
+    setRows(prevRows => {
+      const nextRows = [...prevRows];
+      variants.forEach(variant => nextRows.push(buildAppendedRow(nextRows, variant)));
+      return replaceBlank ? nextRows.slice(1).map((row, index) => ({ ...row, sequence: index + 1 })) : nextRows;
+    });
+    if (replaceBlank) {
+      setCellIssues({});
+      setSubmitResults({});
+      setSelection(null);
+    }
+    setShowVariantMatrixModal(false);
+    toastHelper.showTost(`Added ${variants.length} variant row(s)`, 'success');
   };
 
   const removeRow = (index: number) => {
-    if (rows.length > 1) {
+    if (latestStateRef.current.rows.length > 1) {
+      recordHistory();
       setRows(prevRows => prevRows.filter((_, i) => i !== index));
+      setSelection(null);
+      // Keep paste issues attached to the rows they belong to
+      setCellIssues(prev => {
+        const next: Record<string, string> = {};
+        Object.entries(prev).forEach(([key, message]) => {
+          const [rowPart, ...colParts] = key.split('-');
+          const issueRow = Number(rowPart);
+          if (issueRow === index) return;
+          next[`${issueRow > index ? issueRow - 1 : issueRow}-${colParts.join('-')}`] = message;
+        });
+        return next;
+      });
     }
   };
 
   const duplicateRow = (index: number) => {
+    recordHistory();
     setRows(prevRows => {
-      const newRow = { ...prevRows[index], sequence: prevRows.length + 1 };
+      const newRow = { ...prevRows[index], rowId: createRowId(), sequence: prevRows.length + 1 };
       // Clear unique fields
       newRow.uniqueListingNo = '';
       newRow.supplierId = getCurrentSellerId();
@@ -1197,26 +1208,600 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
   };
 
   const fillDown = (rowIndex: number, columnKey: string) => {
+    const { rows, submitResults } = latestStateRef.current;
     if (rowIndex === rows.length - 1) return;
+    const target = rowIndex + 1;
+    if (submitResults[rows[target].rowId]?.status === 'created') return;
     const value = rows[rowIndex][columnKey as keyof ProductRowData];
-    updateRow(rowIndex + 1, columnKey as keyof ProductRowData, value);
+    // Its own undo step: typing in the filled cell afterwards is not merged into it
+    recordHistory();
+    setRows(prevRows => applyFieldUpdate(fillReferenceXe(prevRows, target, columnKey), target, columnKey, value));
+    clearCellIssue(target, columnKey);
   };
 
   const fillAllBelow = (rowIndex: number, columnKey: string) => {
+    const { rows, submitResults } = latestStateRef.current;
     const value = rows[rowIndex][columnKey as keyof ProductRowData];
-    setRows(prevRows => prevRows.map((row, idx) => 
-      idx > rowIndex ? { ...row, [columnKey]: value } : row
+    recordHistory();
+    // Rows that were already created are left alone
+    setRows(prevRows => prevRows.map((row, idx) =>
+      idx > rowIndex && submitResults[row.rowId]?.status !== 'created' ? { ...row, [columnKey]: value } : row
     ));
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  // Scroll a cell into view and focus its editor (used by the error panel)
+  const focusCellElement = (rowIndex: number, field: string) => {
+    revealCell(rowIndex, field);
+    const cell = tableRef.current?.querySelector<HTMLElement>(`[data-cell="${rowIndex}-${field}"]`);
+    if (!cell) return;
+    cell.scrollIntoView({ block: 'center', inline: 'center', behavior: 'smooth' });
+    cell.querySelector<HTMLElement>('input:not([disabled]), select:not([disabled]), textarea')?.focus();
+    setFocusedCell({ row: rowIndex, col: field });
+  };
+
+  const jumpToCell = (rowIndex: number, field: string) => {
+    // Errors can point at a column the seller has hidden; show it again first
+    if (columnLayout.hidden.includes(field)) {
+      updateColumnLayout({ ...columnLayout, hidden: columnLayout.hidden.filter(key => key !== field) });
+      setTimeout(() => focusCellElement(rowIndex, field), 0);
+      return;
+    }
+    focusCellElement(rowIndex, field);
+  };
+
+  // First enabled editor in a rendered cell
+  const getCellControl = (rowIndex: number, field: string) =>
+    tableRef.current
+      ?.querySelector(`[data-cell="${rowIndex}-${field}"]`)
+      ?.querySelector<HTMLElement>('input:not([disabled]):not([readonly]), select:not([disabled]), textarea:not([disabled])') || null;
+
+  // Next writable cell from (rowIndex, colIndex) in the given direction; `wrap` continues
+  // onto the next/previous row like Tab does in a spreadsheet. Only row data is consulted,
+  // so cells outside the rendered window are not scrolled to while searching.
+  const findNavigableCell = (rowIndex: number, colIndex: number, rowStep: number, colStep: number, wrap: boolean = false) => {
+    let r = rowIndex;
+    let c = colIndex;
+    for (;;) {
+      r += rowStep;
+      c += colStep;
+      if (wrap && c >= columns.length) {
+        r += 1;
+        c = 0;
+      } else if (wrap && c < 0) {
+        r -= 1;
+        c = columns.length - 1;
+      }
+      if (r < 0 || r >= rows.length || c < 0 || c >= columns.length) return null;
+      if (isCellWritable(r, columns[c].key)) return { row: r, col: columns[c].key };
+    }
+  };
+
+  const navigateToCell = (from: { row: number; col: string }, to: { row: number; col: string }, extendSelection: boolean) => {
+    revealCell(to.row, to.col);
+    const control = getCellControl(to.row, to.col);
+    if (!control) return;
+    editingCellRef.current = null;
+    control.focus({ preventScroll: true });
+    control.closest('[data-cell]')?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    // Selected text is replaced by whatever the seller types next
+    if (control instanceof HTMLInputElement) control.select();
+    setFocusedCell(to);
+    setSelectedRowIndex(to.row);
+    if (extendSelection) {
+      const anchor = selection ? { row: selection.anchorRow, col: selection.anchorCol } : from;
+      setSelection({ anchorRow: anchor.row, anchorCol: anchor.col, focusRow: to.row, focusCol: to.col });
+    } else {
+      setSelection(null);
+    }
+  };
+
+  // Ctrl+D: copy the top row of the selection down through it, or the focused cell into the row below
+  const fillDownFromKeyboard = (rowIndex: number, columnKey: string) => {
+    const bounds = getSelectionBounds();
+    if (!bounds || bounds.top === bounds.bottom) {
+      if (isCellWritable(rowIndex + 1, columnKey)) fillDown(rowIndex, columnKey);
+      return;
+    }
+    recordHistory();
+    setRows(prevRows => {
+      let newRows = prevRows;
+      for (let c = bounds.left; c <= bounds.right; c++) {
+        const field = columns[c].key as keyof ProductRowData;
+        for (let r = bounds.top + 1; r <= bounds.bottom; r++) {
+          if (isCellWritable(r, columns[c].key)) {
+            newRows = applyFieldUpdate(newRows, r, field, prevRows[bounds.top][field]);
+          }
+        }
+      }
+      return newRows;
+    });
+  };
+
+  // Arrows, Tab/Shift+Tab and Enter/Shift+Enter move between cells; F2 or typing starts
+  // editing, Escape stops it. Alt+Down opens the cell's dropdown or calendar.
+  const handleGridKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    const cell = target.closest<HTMLElement>('[data-cell]');
+    if (!cell || !target.matches('input, select, textarea') || e.nativeEvent.isComposing) return;
+
+    const cellKey = cell.dataset.cell || '';
+    const separator = cellKey.indexOf('-');
+    const current = { row: Number(cellKey.slice(0, separator)), col: cellKey.slice(separator + 1) };
+    const colIndex = columns.findIndex(col => col.key === current.col);
+    if (colIndex === -1) return;
+
+    // Open dropdowns and calendars keep their own keyboard handling
+    if (cell.querySelector('.select__menu, .react-datepicker-popper')) return;
+
+    const isEditing = editingCellRef.current === cellKey;
+    const isDatePicker = !!target.closest('.react-datepicker__input-container');
+
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'd') {
+      e.preventDefault();
+      fillDownFromKeyboard(current.row, current.col);
+      return;
+    }
+
+    if (e.altKey && e.key === 'ArrowDown') {
+      // react-select and native selects open themselves; date pickers open on click
+      editingCellRef.current = cellKey;
+      if (isDatePicker) {
+        e.preventDefault();
+        target.click();
+      }
+      return;
+    }
+
+    if (e.key === 'F2') {
+      e.preventDefault();
+      editingCellRef.current = cellKey;
+      if (isDatePicker) {
+        target.click();
+      } else if (target instanceof HTMLInputElement && target.type === 'text') {
+        target.setSelectionRange(target.value.length, target.value.length);
+      }
+      return;
+    }
+
+    if (e.key === 'Escape') {
+      if (isEditing) {
+        editingCellRef.current = null;
+        if (target instanceof HTMLInputElement) target.select();
+      }
+      return;
+    }
+
+    // The SKU Family search results take Up/Down/Enter while they are showing
+    const skuResultsOpen = current.col === 'skuFamilyId'
+      && rowSkuFamilySearch?.rowIndex === current.row
+      && rowSkuFamilySearch.showResults
+      && rowSkuFamilySearchResults.length > 0;
+    if (skuResultsOpen && (e.key === 'ArrowDown' || e.key === 'ArrowUp' || e.key === 'Enter')) {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Enter') {
+        handleRowSkuFamilySearchSelect(rowSkuFamilySearchResults[skuResultIndex] || rowSkuFamilySearchResults[0], current.row);
+        editingCellRef.current = null;
+      } else {
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSkuResultIndex(index => Math.min(rowSkuFamilySearchResults.length - 1, Math.max(0, index + step)));
+      }
+      return;
+    }
+
+    let next: { row: number; col: string } | null = null;
+    if (e.key === 'Tab') {
+      next = findNavigableCell(current.row, colIndex, 0, e.shiftKey ? -1 : 1, true);
+      // Past the last cell, let focus leave the grid
+      if (!next) return;
+    } else if (e.key === 'Enter') {
+      next = findNavigableCell(current.row, colIndex, e.shiftKey ? -1 : 1, 0);
+    } else if (e.key.startsWith('Arrow')) {
+      if (e.altKey || e.ctrlKey || e.metaKey) return;
+      // While editing, Left/Right move the caret and native selects keep Up/Down
+      if (isEditing && (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || target instanceof HTMLSelectElement)) return;
+      const steps: Record<string, [number, number]> = { ArrowUp: [-1, 0], ArrowDown: [1, 0], ArrowLeft: [0, -1], ArrowRight: [0, 1] };
+      const [rowStep, colStep] = steps[e.key] || [0, 0];
+      next = findNavigableCell(current.row, colIndex, rowStep, colStep);
+    } else {
+      // Typing a character starts editing, replacing the selected value
+      if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) editingCellRef.current = cellKey;
+      return;
+    }
+
+    // Keys that move are never passed on to the editor (no react-select menu, no number stepping)
+    e.preventDefault();
+    e.stopPropagation();
+    if (next) navigateToCell(current, next, e.shiftKey && e.key.startsWith('Arrow'));
+  };
+
+  // Write raw text into cells the same way a paste does: values are matched against constants,
+  // grades and SKU families, rows are appended when needed, and anything that cannot be matched
+  // is left untouched and flagged on the cell.
+  const writeCellValues = (entries: Array<{ row: number; field: string; raw: string }>) => {
+    recordHistory();
+    const valueContext = { constants, grades, skuFamilies, customColumns };
+    const issues: Record<string, string> = {};
+    const touchedCells: string[] = [];
+    let newRows = [...rows];
+    let written = 0;
+    let skipped = 0;
+
+    entries.forEach(({ row: rowIndex, field, raw }) => {
+      while (rowIndex >= newRows.length) {
+        newRows = [...newRows, buildAppendedRow(newRows)];
+      }
+
+      if (!isCellWritable(rowIndex, field)) {
+        skipped++;
+        return;
+      }
+
+      const cellKey = `${rowIndex}-${field}`;
+      touchedCells.push(cellKey);
+      const result = coerceCellValue(field, raw, valueContext, newRows[rowIndex]);
+      if (!result.ok) {
+        issues[cellKey] = result.message || `Could not match "${raw}"`;
+        return;
+      }
+
+      const countryChanged = field === 'country' && newRows[rowIndex].country !== result.value;
+      newRows = applyFieldUpdate(fillReferenceXe(newRows, rowIndex, field), rowIndex, field, result.value);
+      if (countryChanged) {
+        newRows = applyFieldUpdate(newRows, rowIndex, 'sim', '');
+      }
+      written++;
+    });
+
+    setRows(newRows);
+    setCellIssues(prev => {
+      const next = { ...prev };
+      touchedCells.forEach(key => delete next[key]);
+      return { ...next, ...issues };
+    });
+
+    return { written, skipped, issues: Object.keys(issues).length };
+  };
+
+  const handleFindReplace = (matches: FindReplaceMatch[]) => {
+    const result = writeCellValues(matches.map(match => ({ row: match.row, field: match.field, raw: match.after })));
+    setShowFindReplaceModal(false);
+    if (result.issues > 0) {
+      toastHelper.showTost(`Replaced ${result.written} cell(s). ${result.issues} value(s) could not be matched and are highlighted in red.`, 'warning');
+    } else {
+      toastHelper.showTost(`Replaced ${result.written} cell(s)`, 'success');
+    }
+  };
+
+  // Paste a rectangular range copied from Excel / Google Sheets, starting at the focused cell
+  const handleGridPaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    if (!focusedCell) return;
+    const matrix = parseClipboardGrid(e.clipboardData);
+    // A single value keeps the browser's native paste into the focused input
+    if (matrix.length === 0 || (matrix.length === 1 && matrix[0].length <= 1)) return;
+
+    const startCol = columns.findIndex(col => col.key === focusedCell.col);
+    if (startCol === -1) return;
     e.preventDefault();
 
+    const entries: Array<{ row: number; field: string; raw: string }> = [];
+    matrix.forEach((cells, r) => {
+      cells.forEach((raw, c) => {
+        const column = columns[startCol + c];
+        if (column) {
+          entries.push({ row: focusedCell.row + r, field: column.key, raw });
+        }
+      });
+    });
+
+    const result = writeCellValues(entries);
+    if (result.issues > 0) {
+      toastHelper.showTost(`Pasted ${result.written} cell(s). ${result.issues} value(s) could not be matched and are highlighted in red.`, 'warning');
+    } else {
+      toastHelper.showTost(`Pasted ${result.written} cell(s)${result.skipped > 0 ? `, skipped ${result.skipped} read-only cell(s)` : ''}`, 'success');
+    }
+  };
+
+  // Load a spreadsheet's rows for review. Values are matched like a paste, so unknown SKU
+  // families, grades and codes are highlighted in the grid instead of being dropped.
+  const importSheet = ({ fileName, cells }: ImportedSheet) => {
+    const [headers = [], ...records] = cells;
+    const { fields, ignored } = matchSheetHeaders(headers, permittedColumns);
+    if (records.length === 0 || fields.every(field => !field)) {
+      toastHelper.showTost(`No product rows with known column headers were found in ${fileName}`, 'error');
+      return;
+    }
+
+    // Imported rows take the place of the empty rows at the end of the grid
+    let startRow = rows.length;
+    while (startRow > 0 && !rows[startRow - 1].skuFamilyId && !rows[startRow - 1].subModelName && !isRowLocked(startRow - 1)) {
+      startRow--;
+    }
+    const result = writeCellValues(toSheetEntries(records, fields, startRow));
+    const ignoredNote = ignored.length > 0 ? ` Ignored column(s): ${ignored.join(', ')}.` : '';
+    if (result.issues > 0) {
+      toastHelper.showTost(`Imported ${records.length} row(s) from ${fileName}. ${result.issues} value(s) could not be matched and are highlighted in red.${ignoredNote}`, 'warning');
+    } else {
+      toastHelper.showTost(`Imported ${records.length} row(s) from ${fileName}.${ignoredNote}`, ignored.length > 0 ? 'warning' : 'success');
+    }
+  };
+  const importSheetRef = useRef(importSheet);
+  importSheetRef.current = importSheet;
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!isSpreadsheetFile(file)) {
+      toastHelper.showTost('Please choose an Excel (.xlsx) or CSV file', 'error');
+      return;
+    }
+    try {
+      importSheet({ fileName: file.name, cells: await readSpreadsheet(file) });
+    } catch (error) {
+      console.error('Failed to read spreadsheet:', error);
+      toastHelper.showTost(`Could not read ${file.name}`, 'error');
+    }
+  };
+
+  // Rows as they are in the grid, with option names instead of codes, in the format the import reads
+  const handleExportGrid = async (columnKeys: string[], format: SpreadsheetFormat) => {
+    const exportColumns = columnKeys.flatMap(key => permittedColumns.filter(col => col.key === key));
+    // MOQ per cart is kept for the whole group, not on each row
+    const exportRows = variantType === 'multi' ? rows.map(row => ({ ...row, totalMoq })) : rows;
+    try {
+      await writeSpreadsheet(
+        `product-grid-${formatDay(new Date())}`,
+        toSheetCells(exportRows, exportColumns, { constants, grades, skuFamilies, customColumns }),
+        format
+      );
+      setShowExportModal(false);
+    } catch (error) {
+      console.error('Failed to export grid:', error);
+      toastHelper.showTost('Failed to export the grid', 'error');
+    }
+  };
+
+  // A sheet opened from the products page is loaded once the grid has its data
+  const pendingSheetRef = useRef(importedSheet);
+  useEffect(() => {
+    if (loading || !pendingSheetRef.current) return;
+    const sheet = pendingSheetRef.current;
+    pendingSheetRef.current = null;
+    importSheetRef.current(sheet);
+  }, [loading]);
+
+  // Row/column bounds of the current range selection (column indices into `columns`)
+  const getSelectionBounds = () => {
+    if (!selection) return null;
+    const anchorCol = columns.findIndex(col => col.key === selection.anchorCol);
+    const focusCol = columns.findIndex(col => col.key === selection.focusCol);
+    if (anchorCol === -1 || focusCol === -1) return null;
+    return {
+      top: Math.max(0, Math.min(selection.anchorRow, selection.focusRow)),
+      bottom: Math.min(rows.length - 1, Math.max(selection.anchorRow, selection.focusRow)),
+      left: Math.min(anchorCol, focusCol),
+      right: Math.max(anchorCol, focusCol),
+    };
+  };
+
+  const getSelectedCells = (): Array<{ row: number; field: string }> => {
+    const bounds = getSelectionBounds();
+    if (!bounds) return [];
+    const cells: Array<{ row: number; field: string }> = [];
+    for (let r = bounds.top; r <= bounds.bottom; r++) {
+      for (let c = bounds.left; c <= bounds.right; c++) {
+        cells.push({ row: r, field: columns[c].key });
+      }
+    }
+    return cells;
+  };
+
+  const handleCellMouseDown = (e: React.MouseEvent, rowIndex: number, colKey: string) => {
+    if (e.button !== 0) return;
+    const { selection, focusedCell } = latestStateRef.current;
+    if (e.shiftKey) {
+      const anchor = selection ? { row: selection.anchorRow, col: selection.anchorCol } : focusedCell;
+      if (anchor) {
+        e.preventDefault();
+        setSelection({ anchorRow: anchor.row, anchorCol: anchor.col, focusRow: rowIndex, focusCol: colKey });
+        return;
+      }
+    }
+    isSelectingRef.current = true;
+    setSelection({ anchorRow: rowIndex, anchorCol: colKey, focusRow: rowIndex, focusCol: colKey });
+  };
+
+  const handleCellMouseEnter = (rowIndex: number, colKey: string) => {
+    const { selection } = latestStateRef.current;
+    if (!isSelectingRef.current || !selection) return;
+    if (selection.focusRow === rowIndex && selection.focusCol === colKey) return;
+    // Dragging across inputs would otherwise select their text
+    window.getSelection()?.removeAllRanges();
+    setSelection({ ...selection, focusRow: rowIndex, focusCol: colKey });
+  };
+
+  // Selected range as tab-separated option labels, ready for Excel / Google Sheets
+  const getSelectionTsv = (): string => {
+    const bounds = getSelectionBounds();
+    if (!bounds) return '';
+    const valueContext = { constants, grades, skuFamilies, customColumns };
+    const matrix: string[][] = [];
+    for (let r = bounds.top; r <= bounds.bottom; r++) {
+      const cells: string[] = [];
+      for (let c = bounds.left; c <= bounds.right; c++) {
+        const field = columns[c].key;
+        const value = field === 'totalMoq' ? totalMoq : rows[r][field];
+        cells.push(formatCellValue(field, value, valueContext, rows[r]));
+      }
+      matrix.push(cells);
+    }
+    return serializeGridToTsv(matrix);
+  };
+
+  const handleGridCopy = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    if (getSelectedCells().length <= 1) return;
+    e.preventDefault();
+    e.clipboardData.setData('text/plain', getSelectionTsv());
+  };
+
+  const copySelectedCells = async () => {
+    try {
+      await navigator.clipboard.writeText(getSelectionTsv());
+      toastHelper.showTost(`Copied ${getSelectedCells().length} cell(s)`, 'success');
+    } catch (error) {
+      console.error('Error copying selection:', error);
+      toastHelper.showTost('Could not access the clipboard. Use Ctrl+C instead.', 'error');
+    }
+  };
+
+  const clearSelectedCells = () => {
+    const result = writeCellValues(getSelectedCells().map(cell => ({ ...cell, raw: '' })));
+    toastHelper.showTost(`Cleared ${result.written} cell(s)${result.skipped > 0 ? `, skipped ${result.skipped} read-only cell(s)` : ''}`, 'success');
+  };
+
+  const handleBulkSet = (field: string, raw: string) => {
+    const bounds = getSelectionBounds();
+    if (!bounds) return;
+    const entries: Array<{ row: number; field: string; raw: string }> = [];
+    for (let r = bounds.top; r <= bounds.bottom; r++) {
+      entries.push({ row: r, field, raw });
+    }
+    const result = writeCellValues(entries);
+    setShowBulkEditModal(false);
+    if (result.issues > 0) {
+      toastHelper.showTost(`Updated ${result.written} row(s). ${result.issues} row(s) could not accept this value.`, 'warning');
+    } else {
+      toastHelper.showTost(`Updated ${result.written} row(s)${result.skipped > 0 ? `, skipped ${result.skipped} locked cell(s)` : ''}`, 'success');
+    }
+  };
+
+  // Rows a toolbar action on "selected rows" targets: the range selection, else the picked or focused row
+  const getTargetRows = (): number[] => {
+    const bounds = getSelectionBounds();
+    if (bounds) {
+      return Array.from({ length: bounds.bottom - bounds.top + 1 }, (_, i) => bounds.top + i);
+    }
+    const row = selectedRowIndex ?? focusedCell?.row;
+    return row !== undefined && row !== null && row < rows.length ? [row] : [];
+  };
+
+  const applyRowPreset = (preset: RowPreset, target: RowPresetTarget) => {
+    setShowPresetsModal(false);
+    if (target === 'new') {
+      setNewRowPresetId(preset.id);
+      toastHelper.showTost(`New rows will use "${preset.name}"`, 'success');
+      return;
+    }
+    const targetRows = target === 'all' ? rows.map((_, index) => index) : getTargetRows();
+    const values = resolveRowPreset(preset);
+    const entries: Array<{ row: number; field: string; raw: string }> = [];
+    targetRows.forEach(row => {
+      Object.entries(values).forEach(([field, raw]) => {
+        if (hasPermission(field)) entries.push({ row, field, raw });
+      });
+    });
+    if (entries.length === 0) {
+      toastHelper.showTost('This preset has no values for the columns you can edit', 'warning');
+      return;
+    }
+    const result = writeCellValues(entries);
+    if (result.issues > 0) {
+      toastHelper.showTost(`Applied "${preset.name}". ${result.issues} value(s) no longer match the available options and are highlighted in red.`, 'warning');
+    } else {
+      toastHelper.showTost(`Applied "${preset.name}" to ${targetRows.length} row(s)`, 'success');
+    }
+  };
+
+  // Reprice through applyFieldUpdate so the linked currency follows the XE rate. When both
+  // currencies of a hub change, the rate is cleared first so it is recomputed from them.
+  const getRepricedRows = (adjustment: PriceAdjustment, targetRows: number[]): ProductRowData[] => {
+    let newRows = rows;
+    targetRows.forEach(index => {
+      if (isRowLocked(index)) return;
+      deliveryHubs.forEach(hub => {
+        const row = newRows[index];
+        const usd = adjustment.fields.includes(hub.usdField) ? adjustPrice(row[hub.usdField], adjustment) : null;
+        const local = adjustment.fields.includes(hub.localField) ? adjustPrice(row[hub.localField], adjustment) : null;
+        if (usd !== null && local !== null) {
+          newRows = applyFieldUpdate(newRows, index, hub.xeField, '');
+          newRows = applyFieldUpdate(newRows, index, hub.localField, '');
+          newRows = applyFieldUpdate(newRows, index, hub.usdField, usd);
+          newRows = applyFieldUpdate(newRows, index, hub.localField, local);
+        } else if (usd !== null) {
+          newRows = applyFieldUpdate(newRows, index, hub.usdField, usd);
+        } else if (local !== null) {
+          newRows = applyFieldUpdate(newRows, index, hub.localField, local);
+        }
+      });
+    });
+    return newRows;
+  };
+
+  const applyPriceAdjustment = (adjustment: PriceAdjustment) => {
+    const targetRows = getTargetRows();
+    // Prices the change would take to zero or below are kept and flagged on the cell
+    const touchedCells: string[] = [];
+    const issues: Record<string, string> = {};
+    targetRows.forEach(index => {
+      if (isRowLocked(index)) return;
+      adjustment.fields.forEach(field => {
+        const cellKey = `${index}-${field}`;
+        touchedCells.push(cellKey);
+        if (isPriceZeroedOut(rows[index][field], adjustment)) {
+          issues[cellKey] = 'Not repriced: the adjustment would take this price to zero or below';
+        }
+      });
+    });
+    recordHistory();
+    setRows(getRepricedRows(adjustment, targetRows));
+    setCellIssues(prev => {
+      const next = { ...prev };
+      touchedCells.forEach(key => delete next[key]);
+      return { ...next, ...issues };
+    });
+    setShowBulkPriceModal(false);
+    const skipped = Object.keys(issues).length;
+    if (skipped > 0) {
+      toastHelper.showTost(`Repriced ${targetRows.length} row(s). ${skipped} price(s) would drop to zero or below, were left unchanged and are highlighted in red.`, 'warning');
+    } else {
+      toastHelper.showTost(`Repriced ${targetRows.length} row(s)`, 'success');
+    }
+  };
+
+  // Set XE to the reference rate on the given cells and let the conversion recalculate the dependent price
+  const applyReferenceXe = (cells: Array<{ row: number; field: string }>) => {
+    if (!exchangeRates || cells.length === 0) return;
+    recordHistory();
+    let newRows = rows;
+    cells.forEach(({ row, field }) => {
+      const hub = findHubByField(deliveryHubs, field);
+      const referenceRate = hub ? exchangeRates.rates[hub.currency] : 0;
+      if (referenceRate && isCellWritable(row, field)) {
+        newRows = applyFieldUpdate(newRows, row, field, referenceRate.toFixed(4));
+      }
+    });
+    setRows(newRows);
+    setShowExchangeRatesModal(false);
+    toastHelper.showTost(`Updated XE on ${cells.length} cell(s)`, 'success');
+  };
+
+  // `retryFailedOnly` resends just the rows whose last submission failed
+  const handleSubmit = async (e: React.FormEvent, retryFailedOnly: boolean = false) => {
+    e.preventDefault();
+    if (submitting) return;
+
+    // Rows already created are never sent again
+    const targetIndices = rows
+      .map((_, index) => index)
+      .filter(index => retryFailedOnly ? getRowResult(index)?.status === 'failed' : !isRowLocked(index));
+
+    // Relative shipping times count from the day the rows are submitted
+    let normalizedRows = rows.map(row => refreshShippingTime(row, holidayCalendars));
     // For multi-variant products, enforce that all group-level fields match the master row
-    let normalizedRows = rows;
-    if (variantType === 'multi' && rows.length > 1) {
-      const master = rows[0];
-      normalizedRows = rows.map((row, index) => {
+    if (variantType === 'multi' && normalizedRows.length > 1) {
+      const master = normalizedRows[0];
+      normalizedRows = normalizedRows.map((row, index) => {
         if (index === 0) return row;
         const updated: ProductRowData = { ...row };
         groupLevelFields.forEach((field) => {
@@ -1226,104 +1811,225 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
       });
     }
     
-    // Set current time for start time if not entered
-    const currentTime = new Date().toISOString();
-    const updatedRows = normalizedRows.map(row => ({
-      ...row,
-      startTime: row.startTime || currentTime
-    }));
-    setRows(updatedRows);
-    
-    // Validate required fields based on permissions
-    const errors: string[] = [];
-      updatedRows.forEach((row, index) => {
-        if (hasPermission('supplierId') && !row.supplierId) errors.push(`Row ${index + 1}: SUPPLIER ID is required`);
-      if (hasPermission('skuFamilyId') && !row.skuFamilyId) errors.push(`Row ${index + 1}: SKU Family is required`);
-        if (hasPermission('subModelName') && !row.subModelName) errors.push(`Row ${index + 1}: SubModelName is required`);
-        if (hasPermission('storage') && !row.storage) errors.push(`Row ${index + 1}: Storage is required`);
-        if (hasPermission('colour') && !row.colour) errors.push(`Row ${index + 1}: Colour is required`);
-        if (hasPermission('country') && !row.country) errors.push(`Row ${index + 1}: Country is required`);
-        if (hasPermission('sim') && !row.sim) errors.push(`Row ${index + 1}: SIM is required`);
-        if (hasPermission('grade') && !row.grade) errors.push(`Row ${index + 1}: GRADE is required`);
-        if (hasPermission('status') && !row.status) errors.push(`Row ${index + 1}: STATUS is required`);
-        if (hasPermission('lockUnlock') && !row.lockUnlock) errors.push(`Row ${index + 1}: LOCK/UNLOCK is required`);
-        if (hasPermission('packing') && !row.packing) errors.push(`Row ${index + 1}: PACKING is required`);
-        if (hasPermission('currentLocation') && !row.currentLocation) errors.push(`Row ${index + 1}: CURRENT LOCATION is required`);
-        if (hasPermission('totalQty') && !row.totalQty) errors.push(`Row ${index + 1}: TOTAL QTY is required`);
-        if (hasPermission('moqPerVariant') && !row.moqPerVariant) errors.push(`Row ${index + 1}: MOQ/VARIANT is required`);
-        if (hasPermission('supplierListingNumber') && !row.supplierListingNumber) errors.push(`Row ${index + 1}: SUPPLIER LISTING NO is required`);
-        if (hasPermission('customerListingNumber') && !row.customerListingNumber) errors.push(`Row ${index + 1}: CUSTOMER LISTING NO is required`);
-        if (hasPermission('paymentTerm') && !row.paymentTerm) errors.push(`Row ${index + 1}: PAYMENT TERM is required`);
-        if (hasPermission('paymentMethod') && (!row.paymentMethod || row.paymentMethod.trim() === '')) {
-          errors.push(`Row ${index + 1}: PAYMENT METHOD is required`);
-        }
-        if (hasPermission('endTime') && !row.endTime) errors.push(`Row ${index + 1}: END TIME is required`);
-        
-        // Validate: End time must be greater than start time
-        if (hasPermission('startTime') && hasPermission('endTime') && row.startTime && row.endTime) {
-          const startTime = new Date(row.startTime);
-          const endTime = new Date(row.endTime);
-          if (endTime <= startTime) {
-            errors.push(`Row ${index + 1}: END TIME must be greater than START TIME`);
-          }
-        }
-        
-        // Validate: No past dates allowed for start time
-        if (hasPermission('startTime') && row.startTime) {
-          const startTime = new Date(row.startTime);
-          const now = new Date();
-          if (startTime < now) {
-            errors.push(`Row ${index + 1}: START TIME cannot be in the past`);
-          }
-        }
-        
-        // Validate: No past dates allowed for end time
-        if (hasPermission('endTime') && row.endTime) {
-          const endTime = new Date(row.endTime);
-          const now = new Date();
-          if (endTime < now) {
-            errors.push(`Row ${index + 1}: END TIME cannot be in the past`);
-          }
-        }
-      });
-
+    // Validate the rows as they will be submitted
+    const errors = validateProductRows(normalizedRows, {
+      variantType,
+      hasPermission,
+      totalMoq,
+      isEditMode: editProducts.length > 0,
+      customColumns,
+    }).filter(error => error.field === 'totalMoq' || targetIndices.includes(error.row));
     if (errors.length > 0) {
-      // Use a better error display
-      // const errorMessage = `Please fix the following ${errors.length} error(s):\n\n${errors.slice(0, 10).join('\n')}${errors.length > 10 ? `\n\n... and ${errors.length - 10} more errors` : ''}`;
-      // if (window.confirm(errorMessage + '\n\nDo you want to continue anyway?')) {
-      //   // User wants to continue despite errors
-      // } else {
-      //   return;
-      // }
+      setShowValidation(true);
+      setShowErrorPanel(true);
+      toastHelper.showTost(`Please fix ${errors.length} error(s) before submitting`, 'error');
+      jumpToCell(errors[0].row, errors[0].field);
+      return;
     }
 
-    const rowsWithListingNos = updatedRows;
-    
-    // Validate MOQ PER CART for multi-variant products (only if permission exists)
-    if (variantType === 'multi' && hasPermission('totalMoq')) {
-      const totalMoqValue = typeof totalMoq === 'string' ? totalMoq.trim() : totalMoq;
-      if (!totalMoqValue || totalMoqValue === '' || totalMoqValue === '0' || Number(totalMoqValue) <= 0) {
-        toastHelper.showTost('MOQ PER CART is required for multi-variant products', 'error');
-        return;
-      }
-    }
+    // An empty start time is left out of the payload, so the deal starts once it is created
+    setRows(normalizedRows);
     
     // If editing, bypass margin/cost flow and directly save
     if (editProducts && editProducts.length > 0) {
       // Direct save for edit mode - preserve existing margins and costs
       // Pass customColumns so ProductVariantForm knows which custom fields to include
-      onSave(rowsWithListingNos, variantType === 'multi' && hasPermission('totalMoq') ? totalMoq : undefined, customColumns);
+      onSave(normalizedRows, variantType === 'multi' && hasPermission('totalMoq') ? totalMoq : undefined, customColumns);
       return;
     }
     
+    const totalMoqValue = variantType === 'multi' && hasPermission('totalMoq') ? totalMoq : undefined;
+
+    // Let the seller resolve repeated rows and relistings before anything is created
+    setSubmitting(true);
+    const duplicates = await findDuplicateListings(normalizedRows, targetIndices);
+    setSubmitting(false);
+    if (duplicates.batch.length > 0 || duplicates.existing.length > 0) {
+      setDuplicateReview({ rows: normalizedRows, totalMoq: totalMoqValue, targets: targetIndices, ...duplicates });
+      return;
+    }
+
     // For sellers, directly create product requests (no margin/cost modals)
-    await handleDirectSubmit(rowsWithListingNos, variantType === 'multi' && hasPermission('totalMoq') ? totalMoq : undefined);
+    await handleDirectSubmit(normalizedRows, totalMoqValue, targetIndices);
   };
 
+  // Products the seller already lists in the SKU families of the target rows, every page of each
+  const fetchListedProducts = async (rowsToCheck: ProductRowData[], targets: number[]): Promise<ListedProduct[]> => {
+    const familyNames = Array.from(new Set(targets
+      .map(index => skuFamilies.find(sku => sku._id === rowsToCheck[index].skuFamilyId)?.name)
+      .filter((name): name is string => Boolean(name))));
+    const fetchFamily = async (search: string): Promise<ListedProduct[]> => {
+      const listed: ListedProduct[] = [];
+      for (let page = 1; ; page++) {
+        const response = await ProductService.list({ page, limit: LISTED_PRODUCTS_PAGE_SIZE, search });
+        const docs: ListedProduct[] = Array.isArray(response?.data?.docs) ? response.data.docs : [];
+        listed.push(...docs);
+        if (docs.length < LISTED_PRODUCTS_PAGE_SIZE || page >= (response.data.totalPages || page)) break;
+      }
+      return listed;
+    };
+    const products = (await Promise.all(familyNames.map(fetchFamily))).flat();
+    return products.filter((product, index) => product._id && products.findIndex(p => p._id === product._id) === index);
+  };
+
+  // In-batch duplicates, plus near matches among the seller's products in the same SKU families
+  const findDuplicateListings = async (rowsToCheck: ProductRowData[], targets: number[]) => {
+    const batch = findBatchDuplicates(rowsToCheck, targets);
+    let existing: ExistingDuplicate[] = [];
+    try {
+      const listings = (await fetchListedProducts(rowsToCheck, targets)).map(product => toExistingListing(product, constants));
+      existing = findExistingDuplicates(rowsToCheck, targets, listings);
+    } catch (error) {
+      // The service has already reported the failure; the batch check still applies
+      console.error('Error checking existing products for duplicates:', error);
+    }
+    return { batch, existing };
+  };
+
+  const handleSaveHolidays = (calendars: HolidayCalendars) => {
+    const saved = HolidayCalendarStorage.save(calendars);
+    setHolidayCalendars(saved);
+    setShowHolidayModal(false);
+    // Business-day shipping times move with the new holidays
+    const refreshed = rows.map((row, index) => (isRowLocked(index) ? row : refreshShippingTime(row, saved)));
+    if (refreshed.some((row, index) => row !== rows[index])) {
+      recordHistory();
+      setRows(refreshed);
+    }
+    toastHelper.showTost('Holiday calendar saved', 'success');
+  };
+
+  // Check every row's flash deal against the batch and the seller's listed deals
+  const openSchedulePreview = async () => {
+    setScheduleOverlaps(null);
+    setShowSchedulePreview(true);
+    const targets = rows.map((_, index) => index);
+    let existing: ExistingFlashDeal[] = [];
+    try {
+      // Products being edited are the rows themselves
+      const editedIds = editProducts.map(product => product?._id).filter(Boolean);
+      existing = (await fetchListedProducts(rows, targets))
+        .filter(product => !editedIds.includes(product._id))
+        .map(product => toExistingFlashDeal(product, constants))
+        .filter((deal): deal is ExistingFlashDeal => deal !== null);
+    } catch (error) {
+      console.error('Error checking existing flash deals:', error);
+    }
+    setScheduleOverlaps(findFlashDealOverlaps(rows, targets, existing));
+  };
+
+  const getRowLabel = (index: number) => {
+    const row = rows[index];
+    const family = skuFamilies.find(sku => sku._id === row.skuFamilyId)?.name;
+    return [family || row.subModelName || 'No model', row.storage, row.colour].filter(Boolean).join(' · ');
+  };
+
+  const resolveDuplicates = async (resolution: DuplicateResolution) => {
+    if (!duplicateReview) return;
+    const review = duplicateReview;
+    setDuplicateReview(null);
+
+    let nextRows = review.rows;
+    const skipped = new Set<number>();
+    review.batch.forEach((group, groupIndex) => {
+      const action = resolution.batch[groupIndex];
+      if (action === 'keep') return;
+      const [kept, ...repeats] = group.rows;
+      repeats.forEach(index => skipped.add(index));
+      if (action === 'merge') {
+        const totalQty = group.rows.reduce((sum, index) => sum + (parseFloat(String(nextRows[index].totalQty)) || 0), 0);
+        nextRows = applyFieldUpdate(nextRows, kept, 'totalQty', String(totalQty));
+      }
+    });
+
+    // Rows that update an existing listing instead of creating one, by row index
+    const existingUpdates: Record<number, string> = {};
+    review.existing.forEach((match, matchIndex) => {
+      if (skipped.has(match.row)) return;
+      const action = resolution.existing[matchIndex];
+      if (action === 'skip') skipped.add(match.row);
+      if (action === 'update') existingUpdates[match.row] = match.listing.id;
+    });
+
+    if (nextRows !== review.rows) {
+      recordHistory();
+      setRows(nextRows);
+    }
+    const targets = review.targets.filter(index => !skipped.has(index));
+    if (targets.length === 0) {
+      toastHelper.showTost('Every row was skipped as a duplicate. Nothing was submitted.', 'warning');
+      return;
+    }
+    await handleDirectSubmit(nextRows, review.totalMoq, targets, existingUpdates, Array.from(skipped));
+  };
+
+  // Update request for a row that replaces one of the seller's listings. Only the listing's own
+  // fields are sent; seller, group code, sequence and total MOQ stay as the listing has them.
+  const toListingUpdate = (
+    id: string,
+    product: Omit<UpdateProductRequest, 'id' | 'isFlashDeal'> & { isFlashDeal?: string }
+  ): UpdateProductRequest => ({
+    id,
+    skuFamilyId: product.skuFamilyId,
+    subSkuFamilyId: product.subSkuFamilyId,
+    gradeId: product.gradeId,
+    specification: product.specification,
+    simType: product.simType,
+    color: product.color,
+    ram: product.ram,
+    storage: product.storage,
+    weight: product.weight,
+    condition: product.condition,
+    country: product.country,
+    stock: product.stock,
+    moq: product.moq,
+    purchaseType: product.purchaseType,
+    countryDeliverables: product.countryDeliverables,
+    isNegotiable: product.isNegotiable,
+    // Create requests carry the flag as 'true' / 'false'
+    isFlashDeal: product.isFlashDeal === undefined ? undefined : product.isFlashDeal === 'true',
+    startTime: product.startTime,
+    expiryTime: product.expiryTime,
+    scheduleTimeZone: product.scheduleTimeZone,
+    supplierListingNumber: product.supplierListingNumber,
+    customerListingNumber: product.customerListingNumber,
+    packing: product.packing,
+    currentLocation: product.currentLocation,
+    deliveryLocation: product.deliveryLocation,
+    customMessage: product.customMessage,
+    paymentTerm: product.paymentTerm,
+    paymentMethod: product.paymentMethod,
+    shippingTime: product.shippingTime,
+    vendor: product.vendor,
+    vendorListingNo: product.vendorListingNo,
+    carrier: product.carrier,
+    carrierListingNo: product.carrierListingNo,
+    uniqueListingNo: product.uniqueListingNo,
+    tags: product.tags,
+    remark: product.remark,
+    warranty: product.warranty,
+    batteryHealth: product.batteryHealth,
+    lockUnlock: product.lockUnlock,
+    isStatus: product.isStatus,
+    customFields: product.customFields,
+    customColumns: product.customColumns,
+  });
+
   // Direct submit for sellers (no margin/cost selection)
-  const handleDirectSubmit = async (rowsToSubmit: ProductRowData[], totalMoqValue?: number | string) => {
+  // `existingUpdates` maps row index to a product the row updates instead of creating a
+  // request; `skippedIndices` are duplicates left out of this submission
+  const handleDirectSubmit = async (
+    rowsToSubmit: ProductRowData[],
+    totalMoqValue: number | string | undefined,
+    targetIndices: number[],
+    existingUpdates: Record<number, string> = {},
+    skippedIndices: number[] = []
+  ) => {
     try {
-      setLoading(true);
+      setSubmitting(true);
+      if (variantType === 'multi' && !groupCodeRef.current) {
+        groupCodeRef.current = `GROUP-${Date.now()}`;
+      }
       
       // Transform rows to backend format
       const productsToCreate = rowsToSubmit.map(row => {
@@ -1397,51 +2103,20 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
           return colorMap[colorUpper] || color; // Return mapped value or original if not in map
         };
 
-        // Helper to normalize country - same as admin panel: store code directly (HK or USA)
-        // Admin panel stores row.country directly without normalization
-        const normalizeCountry = (country: string | null | undefined): string | null => {
-          if (!country) return null;
-          // Return as is - admin panel stores codes directly (HK for Hongkong, USA for Dubai)
-          return country.trim() || null;
-        };
         
         const countryDeliverables: any[] = [];
         
-        if (hasPermission('hkUsd') || hasPermission('hkHkd')) {
-          if (row.hkUsd || row.hkHkd) {
-            countryDeliverables.push({
-              country: 'Hongkong',
-              currency: 'USD',
-              basePrice: parseFloat(String(row.hkUsd)) || 0,
-              exchangeRate: parseFloat(String(row.hkXe)) || null,
-              // Legacy fields
-              usd: parseFloat(String(row.hkUsd)) || 0,
-              xe: parseFloat(String(row.hkXe)) || 0,
-              local: parseFloat(String(row.hkHkd)) || 0,
-              hkd: parseFloat(String(row.hkHkd)) || 0,
-              paymentTerm: hasPermission('paymentTerm') ? normalizePaymentTerm(row.paymentTerm) : null,
-              paymentMethod: hasPermission('paymentMethod') ? (cleanString(row.paymentMethod) || null) : null,
-            });
-          }
-        }
-        
-        if (hasPermission('dubaiUsd') || hasPermission('dubaiAed')) {
-          if (row.dubaiUsd || row.dubaiAed) {
-            countryDeliverables.push({
-              country: 'Dubai',
-              currency: 'USD',
-              basePrice: parseFloat(String(row.dubaiUsd)) || 0,
-              exchangeRate: parseFloat(String(row.dubaiXe)) || null,
-              // Legacy fields
-              usd: parseFloat(String(row.dubaiUsd)) || 0,
-              xe: parseFloat(String(row.dubaiXe)) || 0,
-              local: parseFloat(String(row.dubaiAed)) || 0,
-              aed: parseFloat(String(row.dubaiAed)) || 0,
-              paymentTerm: hasPermission('paymentTerm') ? normalizePaymentTerm(row.paymentTerm) : null,
-              paymentMethod: hasPermission('paymentMethod') ? (cleanString(row.paymentMethod) || null) : null,
-            });
-          }
-        }
+        deliveryHubs.forEach(hub => {
+          if (!hasPermission(hub.usdField) && !hasPermission(hub.localField)) return;
+          if (!hasHubPrice(hub, row)) return;
+          countryDeliverables.push({
+            country: hub.country,
+            currency: 'USD',
+            ...buildHubDeliverablePrices(hub, row),
+            paymentTerm: hasPermission('paymentTerm') ? normalizePaymentTerm(row.paymentTerm) : null,
+            paymentMethod: hasPermission('paymentMethod') ? (cleanString(row.paymentMethod) || null) : null,
+          });
+        });
 
         // Build product object - only include fields with permission
         const product: any = {};
@@ -1526,7 +2201,7 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
         
         // Only include country if permission exists
         if (hasPermission('country')) {
-          const country = normalizeCountry(cleanString(row.country));
+          const country = normalizeCountryCode(cleanString(row.country), constants);
           if (country) {
             product.country = country;
           }
@@ -1550,26 +2225,12 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
         // Remove custom_ prefix when sending to backend (backend stores without prefix)
         // Always include customFields in payload if customColumns exist
         if (customColumns.length > 0) {
-          const customFieldsMap: Record<string, string> = {};
-          customColumns.forEach(customCol => {
-            const value = row[customCol.key as keyof ProductRowData];
-            // Remove custom_ prefix when sending to backend
-            const backendKey = customCol.key.startsWith('custom_') 
-              ? customCol.key.replace(/^custom_/, '') 
-              : customCol.key;
-            // Include value even if empty (backend can handle empty strings)
-            customFieldsMap[backendKey] = (value && typeof value === 'string') ? value.trim() : '';
-          });
-          // Always include customFields in payload
-          product.customFields = customFieldsMap;
+          // Values are sent typed (numbers, booleans, option lists), empty ones included
+          product.customFields = buildCustomFields(customColumns, row);
           
           // Store custom column definitions (metadata) in payload for backend storage
           // Backend will store this to restore columns when editing
-          product.customColumns = customColumns.map(col => ({
-            key: col.key.startsWith('custom_') ? col.key.replace(/^custom_/, '') : col.key,
-            label: col.label,
-            width: col.width
-          }));
+          product.customColumns = customColumns.map(toCustomColumnMetadata);
         }
         
         // Only include isNegotiable if permission exists
@@ -1591,10 +2252,15 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
         if (hasPermission('endTime') && cleanString(row.endTime)) {
           product.expiryTime = new Date(row.endTime).toISOString();
         }
+
+        // Zone the schedule was entered in, so it can be shown the same way again
+        if (product.startTime || product.expiryTime) {
+          product.scheduleTimeZone = getScheduleTimeZone(deliveryHubs, row.scheduleHub);
+        }
         
         // Group code for multi-variant
         if (variantType === 'multi') {
-          product.groupCode = `GROUP-${Date.now()}`;
+          product.groupCode = groupCodeRef.current;
         }
         
         // Sequence
@@ -1799,39 +2465,106 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
         return product;
       });
 
-      // Filter out null products (products without required fields like skuFamilyId)
-      const validProducts = productsToCreate.filter(product => product !== null);
+      // Rows without a valid payload (e.g. no SKU Family permission) cannot be sent
+      const targets = targetIndices.filter(index => productsToCreate[index] !== null);
       
-      if (validProducts.length === 0) {
+      if (targets.length === 0) {
         toastHelper.showTost('No valid products to create. Please ensure SKU Family is selected for at least one product.', 'error');
-        setLoading(false);
         return;
       }
+
+      setSubmitResults(prev => {
+        const next = { ...prev };
+        targets.forEach(index => {
+          next[rowsToSubmit[index].rowId] = { status: 'pending' };
+        });
+        return next;
+      });
       
-      // Create all product requests using seller service
-      const createPromises = validProducts.map(product => 
-        ProductService.createSellerProductRequest(product)
+      // Create each product request independently so one failing row doesn't hide the others
+      const settled = await Promise.allSettled(
+        targets.map(index => (existingUpdates[index]
+          ? ProductService.update(toListingUpdate(existingUpdates[index], productsToCreate[index]), false)
+          : ProductService.createSellerProductRequest(productsToCreate[index], false)))
       );
 
-      await Promise.all(createPromises);
-      
-      // Clear localStorage on successful save
-      try {
-        localStorage.removeItem(STORAGE_KEY);
-      } catch (error) {
-        console.error('Error clearing localStorage:', error);
+      const batchResults: Record<string, RowSubmitResult> = {};
+      settled.forEach((result, i) => {
+        const rowId = rowsToSubmit[targets[i]].rowId;
+        if (result.status === 'fulfilled') {
+          const data = result.value?.data;
+          batchResults[rowId] = {
+            status: 'created',
+            productId: existingUpdates[targets[i]] || data?._id || data?.product?._id || data?.productId || undefined,
+          };
+        } else {
+          batchResults[rowId] = {
+            status: 'failed',
+            message: result.reason?.message || 'Failed to create product request',
+          };
+        }
+      });
+      setSubmitResults(prev => ({ ...prev, ...batchResults }));
+
+      const failedMessages = Object.values(batchResults)
+        .filter(result => result.status === 'failed')
+        .map(result => result.message || '');
+      const allRowsCreated = rowsToSubmit.every((row, index) =>
+        skippedIndices.includes(index) || (batchResults[row.rowId] || submitResults[row.rowId])?.status === 'created'
+      );
+
+      if (allRowsCreated) {
+        // The draft has been submitted in full
+        submittedRef.current = true;
+        if (draftIdRef.current) {
+          if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+          ProductDraftStorage.remove(draftIdRef.current);
+          ProductDraftService.delete(draftIdRef.current, false).catch(() => undefined);
+          draftIdRef.current = null;
+        }
+        
+        toastHelper.showTost('Product requests submitted successfully! They will be reviewed by admin.', 'success');
+        
+        // Products are already created above - don't call onSave as it would create duplicate products
+        // Navigate directly to products list
+        setTimeout(() => {
+          window.location.href = '/seller/#/products';
+        }, 1000);
+        return;
+      }
+
+      // Check if it's a business profile approval error
+      const businessProfileError = failedMessages.find(message =>
+        message.includes('business profile must be approved') || message.includes('BUSINESS_PROFILE_NOT_APPROVED')
+      );
+      if (businessProfileError) {
+        // Show confirmation/info box instead of error toast
+        await Swal.fire({
+          icon: "info",
+          title: "Business Profile Approval Required",
+          html: `<p style="text-align: left; margin: 10px 0;">${businessProfileError}</p>`,
+          confirmButtonText: "OK",
+          confirmButtonColor: "#0071E0",
+          width: "500px",
+        });
+      } else {
+        const createdCount = targets.length - failedMessages.length;
+        toastHelper.showTost(
+          `${createdCount} of ${targets.length} product request(s) created. ${failedMessages.length} failed - fix them and use "Retry Failed".`,
+          'warning'
+        );
       }
-      
-      toastHelper.showTost('Product requests submitted successfully! They will be reviewed by admin.', 'success');
-      
-      // Products are already created above - don't call onSave as it would create duplicate products
-      // Navigate directly to products list
-      setTimeout(() => {
-        window.location.href = '/seller/#/products';
-      }, 1000);
     } catch (error: any) {
       console.error('Error creating product requests:', error);
       const errorMessage = error.message || 'Failed to submit product requests';
+      // Nothing is left pending if the batch itself blew up
+      setSubmitResults(prev => {
+        const next = { ...prev };
+        Object.keys(next).forEach(rowId => {
+          if (next[rowId].status === 'pending') next[rowId] = { status: 'failed', message: errorMessage };
+        });
+        return next;
+      });
       
       // Check if it's a business profile approval error
       if (errorMessage.includes('business profile must be approved') || errorMessage.includes('BUSINESS_PROFILE_NOT_APPROVED')) {
@@ -1848,65 +2581,26 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
         toastHelper.showTost(errorMessage, 'error');
       }
     } finally {
-      setLoading(false);
+      setSubmitting(false);
     }
   };
 
   // Removed modal handlers - sellers don't set margins/costs
 
+  // Banners for the payment columns plus one per delivery hub
+  const subgroupHeaders: Record<string, SubgroupHeader> = {
+    ...SUBGROUP_HEADERS,
+    ...Object.fromEntries(deliveryHubs.map((hub, hubIndex) => [
+      hubSubgroup(hub),
+      { label: `${hub.name.toUpperCase()} DELIVERY PRICE`, icon: 'fa-dollar-sign', ...HUB_HEADER_COLOURS[hubIndex % HUB_HEADER_COLOURS.length] },
+    ])),
+  };
+
   // Column definitions - filtered by permissions
-  const allColumns = [
-    { key: 'supplierId', label: 'SUPPLIER ID*', width: 180, group: 'Supplier Info', permissionField: 'supplierId' },
-    { key: 'supplierListingNumber', label: 'SUPPLIER LISTING NO*', width: 180, group: 'Supplier Info', permissionField: 'supplierListingNumber' },
-    { key: 'customerListingNumber', label: 'CUSTOMER LISTING NO*', width: 180, group: 'Supplier Info', permissionField: 'customerListingNumber' },
-    { key: 'skuFamilyId', label: 'SKU FAMILY*', width: 200, group: 'Product Detail', permissionField: 'skuFamilyId' },
-    { key: 'subModelName', label: 'SUB MODEL NAME*', width: 150, group: 'Product Detail', permissionField: 'subModelName' },
-    { key: 'storage', label: 'STORAGE*', width: 100, group: 'Product Detail', permissionField: 'storage' },
-    { key: 'colour', label: 'COLOUR*', width: 100, group: 'Product Detail', permissionField: 'colour' },
-    { key: 'country', label: 'COUNTRY*', width: 120, group: 'Product Detail', permissionField: 'country' },
-    { key: 'sim', label: 'SIM*', width: 120, group: 'Product Detail', permissionField: 'sim' },
-    { key: 'version', label: 'VERSION', width: 120, group: 'Product Detail', permissionField: 'version' },
-    { key: 'grade', label: 'GRADE*', width: 120, group: 'Product Detail', permissionField: 'grade' },
-    { key: 'status', label: 'STATUS*', width: 100, group: 'Product Detail', permissionField: 'status' },
-    { key: 'condition', label: 'CONDITION', width: 120, group: 'Product Detail', permissionField: 'condition' },
-    { key: 'lockUnlock', label: 'LOCK/UNLOCK*', width: 120, group: 'Product Detail', permissionField: 'lockUnlock' },
-    { key: 'warranty', label: 'WARRANTY', width: 120, group: 'Product Detail', permissionField: 'warranty' },
-    { key: 'batteryHealth', label: 'BATTERY HEALTH', width: 130, group: 'Product Detail', permissionField: 'batteryHealth' },
-    { key: 'packing', label: 'PACKING*', width: 120, group: 'Pricing/Delivery', permissionField: 'packing' },
-    { key: 'currentLocation', label: 'CURRENT LOCATION*', width: 150, group: 'Pricing/Delivery', permissionField: 'currentLocation' },
-    { key: 'hkUsd', label: 'USD', width: 100, group: 'HK DELIVERY', subgroup: 'HK', permissionField: 'hkUsd' },
-    { key: 'hkXe', label: 'XE', width: 100, group: 'HK DELIVERY', subgroup: 'HK', permissionField: 'hkXe' },
-    { key: 'hkHkd', label: 'HKD', width: 100, group: 'HK DELIVERY', subgroup: 'HK', permissionField: 'hkHkd' },
-    { key: 'dubaiUsd', label: 'USD', width: 110, group: 'DUBAI DELIVERY', subgroup: 'DUBAI', permissionField: 'dubaiUsd' },
-    { key: 'dubaiXe', label: 'XE', width: 110, group: 'DUBAI DELIVERY', subgroup: 'DUBAI', permissionField: 'dubaiXe' },
-    { key: 'dubaiAed', label: 'AED', width: 110, group: 'DUBAI DELIVERY', subgroup: 'DUBAI', permissionField: 'dubaiAed' },
-    { key: 'deliveryLocation', label: 'DELIVERY LOCATION', width: 150, group: 'Pricing/Delivery', permissionField: 'deliveryLocation' },
-    { key: 'customMessage', label: 'CUSTOM MESSAGE', width: 150, group: 'Pricing/Delivery', permissionField: 'customMessage' },
-    { key: 'totalQty', label: 'TOTAL QTY*', width: 100, group: 'Pricing/Delivery', permissionField: 'totalQty' },
-    { key: 'moqPerVariant', label: 'MOQ/VARIANT*', width: 120, group: 'Pricing/Delivery', permissionField: 'moqPerVariant' },
-    { key: 'weight', label: 'WEIGHT', width: 100, group: 'Pricing/Delivery', permissionField: 'weight' },
-    { key: 'purchaseType', label: 'PURCHASE TYPE*', width: 130, group: 'Pricing/Delivery', permissionField: 'purchaseType' },
-    ...(variantType === 'multi' ? [{ key: 'totalMoq', label: 'MOQ PER CART*', width: 150, group: 'Pricing/Delivery', permissionField: 'totalMoq' }] : []),
-    { key: 'paymentTerm', label: 'PAYMENT TERM*', width: 200, group: 'Payment', permissionField: 'paymentTerm' },
-    { key: 'paymentMethod', label: 'PAYMENT METHOD*', width: 200, group: 'Payment', permissionField: 'paymentMethod' },
-    { key: 'negotiableFixed', label: 'NEGOTIABLE/FIXED', width: 150, group: 'Other Info', permissionField: 'negotiableFixed' },
-    { key: 'flashDeal', label: 'FLASH DEAL', width: 130, group: 'Other Info', permissionField: 'flashDeal' },
-    { key: 'shippingTime', label: 'SHIPPING TIME', width: 130, group: 'Other Info', permissionField: 'shippingTime' },
-    { key: 'vendor', label: 'VENDOR', width: 100, group: 'Other Info', permissionField: 'vendor' },
-    { key: 'vendorListingNo', label: 'VENDOR LISTING NO', width: 150, group: 'Other Info', permissionField: 'vendorListingNo' },
-    { key: 'carrier', label: 'CARRIER', width: 100, group: 'Other Info', permissionField: 'carrier' },
-    { key: 'carrierListingNo', label: 'CARRIER LISTING NO', width: 150, group: 'Other Info', permissionField: 'carrierListingNo' },
-    { key: 'uniqueListingNo', label: 'UNIQUE LISTING NO', width: 150, group: 'Other Info', permissionField: 'uniqueListingNo' },
-    { key: 'tags', label: 'TAGS', width: 150, group: 'Other Info', permissionField: 'tags' },
-    { key: 'adminCustomMessage', label: 'ADMIN CUSTOM MESSAGE', width: 180, group: 'Other Info', permissionField: 'adminCustomMessage' },
-    { key: 'startTime', label: 'START TIME', width: 150, group: 'Other Info', permissionField: 'startTime' },
-    { key: 'endTime', label: 'END TIME *', width: 150, group: 'Other Info', permissionField: 'endTime' },
-    { key: 'remark', label: 'REMARK', width: 150, group: 'Other Info', permissionField: 'remark' },
-    ...customColumns, // Add dynamic custom columns at the end
-  ];
+  const allColumns = getProductGridColumns(variantType, deliveryHubs, customColumns);
 
   // Filter columns based on permissions - strict mode: only show fields with permission
-  const columns = allColumns.filter((col): col is ColumnDefinition => {
+  const permittedColumns = allColumns.filter(col => {
     // Always show custom fields (no permission check needed)
     // Custom columns don't have permissionField, so check if it's in customColumns array
     if (!('permissionField' in col)) {
@@ -1914,7 +2608,7 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
     }
     
     // For all fields with permissionField, check permission
-    const permissionFieldValue = (col as Extract<ColumnDefinition, { permissionField: string }>).permissionField;
+    const permissionFieldValue = col.permissionField;
     if (permissionFieldValue) {
       return hasPermission(permissionFieldValue);
     }
@@ -1923,6 +2617,103 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
     return false;
   });
 
+  // Visible columns in the seller's saved layout; pinned columns come first
+  const columns = applyColumnLayout(permittedColumns, columnLayout);
+
+  // Left offset of each pinned column (they stick next to the row-number column)
+  const pinnedOffsets: Record<string, number> = {};
+  let pinnedLeft = ROW_NUMBER_WIDTH;
+  columns.forEach(col => {
+    if (!columnLayout.pinned.includes(col.key)) return;
+    pinnedOffsets[col.key] = pinnedLeft;
+    pinnedLeft += col.width;
+  });
+  const lastPinnedKey = Object.keys(pinnedOffsets).pop();
+
+  const getPinnedStyle = (key: string, zIndex: number): React.CSSProperties =>
+    key in pinnedOffsets ? { position: 'sticky', left: pinnedOffsets[key], zIndex } : {};
+
+  const pinnedEdgeClass = (key: string) =>
+    key === lastPinnedKey ? 'shadow-[3px_0_4px_-2px_rgba(0,0,0,0.2)]' : '';
+
+  // Track the viewport to decide which rows and columns to render
+  const handleGridScroll = () => {
+    if (scrollFrameRef.current !== null) return;
+    scrollFrameRef.current = requestAnimationFrame(() => {
+      scrollFrameRef.current = null;
+      if (tableRef.current) setViewport(readViewport(tableRef.current, rowsContainerRef.current));
+    });
+  };
+
+  useEffect(() => {
+    const container = tableRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewport(readViewport(container, rowsContainerRef.current)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [loading]);
+
+  // Grow the shared row height when a rendered row needs more room
+  useLayoutEffect(() => {
+    let tallest = 0;
+    rowsContainerRef.current?.querySelectorAll<HTMLElement>('[data-row]').forEach(rowElement => {
+      tallest = Math.max(tallest, rowElement.offsetHeight);
+    });
+    if (tallest > rowHeight) setRowHeight(tallest);
+  }, [rowHeight, rows, submitResults, viewport, columnLayout]);
+
+  // Scroll a cell that is outside the rendered window into view and render it
+  // synchronously, so it can be looked up by its data-cell attribute
+  const revealCell = (rowIndex: number, field: string) => {
+    const container = tableRef.current;
+    if (!container || container.querySelector(`[data-cell="${rowIndex}-${field}"]`)) return;
+    const rowsTop = rowsContainerRef.current?.offsetTop ?? 0;
+    const rowTop = rowsTop + rowIndex * rowHeight;
+    if (rowTop < container.scrollTop + rowsTop) {
+      container.scrollTop = rowTop - rowsTop;
+    } else if (rowTop + rowHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTop = rowTop + rowHeight - container.clientHeight;
+    }
+    // Column headers are always rendered, so they give the column's position
+    const header = container.querySelector<HTMLElement>(`[data-column="${field}"]`);
+    if (header && !(field in pinnedOffsets)) {
+      if (header.offsetLeft < container.scrollLeft + pinnedLeft) {
+        container.scrollLeft = header.offsetLeft - pinnedLeft;
+      } else if (header.offsetLeft + header.offsetWidth > container.scrollLeft + container.clientWidth) {
+        container.scrollLeft = header.offsetLeft + header.offsetWidth - container.clientWidth;
+      }
+    }
+    flushSync(() => setViewport(readViewport(container, rowsContainerRef.current)));
+  };
+
+  const updateColumnLayout = (layout: ColumnLayout) => {
+    setColumnLayout(layout);
+    ColumnLayoutStorage.save(variantType, layout);
+  };
+
+  const resetColumnLayout = () => {
+    setColumnLayout(ColumnLayoutStorage.reset(variantType));
+  };
+
+  // Drag the right edge of a header to resize; the width is saved when the drag ends
+  const startColumnResize = (e: React.MouseEvent, key: string, startWidth: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    let latest = columnLayout;
+    const handleMove = (event: MouseEvent) => {
+      latest = { ...columnLayout, widths: { ...columnLayout.widths, [key]: clampColumnWidth(startWidth + event.clientX - startX) } };
+      setColumnLayout(latest);
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      ColumnLayoutStorage.save(variantType, latest);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
   // Check if there are any permissioned fields (excluding custom fields)
   const hasPermissionedFields = columns.some(col => 'group' in col && col.group !== 'Custom Fields');
 
@@ -1937,12 +2728,9 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
   };
   
   // Status options for isStatus field (active/nonactive)
-  const statusOptions = [
-    { code: 'active', name: 'Active' },
-    { code: 'nonactive', name: 'Non Active' }
-  ];
+  const statusOptions = STATUS_OPTIONS;
   
-  const conditionOptions = ['AAA', 'A+', 'Mixed'];
+  const conditionOptions = CONDITION_OPTIONS;
   
   // Get lockStatus options from constants (show name, store code)
   const lockUnlockOptions = constants?.lockStatus || [];
@@ -1987,7 +2775,10 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
         ? (rows[0][column.key as keyof ProductRowData] as any)
         : value;
 
-    switch (column.key) {
+    // Every delivery hub price column renders as the same number input
+    const cellHub = findHubByField(deliveryHubs, column.key);
+
+    switch (cellHub ? 'hubPrice' : column.key) {
       case 'skuFamilyId':
         const selectedSkuFamily = skuFamilies.find(sku => sku._id === value);
         const displayValue = selectedSkuFamily?.name || '';
@@ -2004,6 +2795,7 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
                 onChange={(e) => {
                   const query = e.target.value;
                   setRowSkuFamilySearch({ rowIndex, query, showResults: true });
+                  setSkuResultIndex(0);
                 }}
                 onFocus={() => {
                   setFocusedCell({ row: rowIndex, col: column.key });
@@ -2040,7 +2832,9 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
                   <div
                     key={idx}
                     onClick={() => handleRowSkuFamilySearchSelect(option, rowIndex)}
-                    className="px-4 py-3 hover:bg-blue-50 dark:hover:bg-blue-900/20 cursor-pointer border-b border-gray-200 dark:border-gray-700 last:border-b-0 transition-colors"
+                    className={`px-4 py-3 hover:bg-blue-50 dark:hover:bg-blue-900/20 cursor-pointer border-b border-gray-200 dark:border-gray-700 last:border-b-0 transition-colors ${
+                      idx === skuResultIndex ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+                    }`}
                   >
                     <div className="flex items-start justify-between">
                       <div className="flex-1">
@@ -2454,6 +3248,27 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
           </div>
         );
 
+      case 'scheduleHub':
+        return (
+          <select
+            value={groupDisplayValue as string}
+            onChange={(e) => updateRow(rowIndex, column.key as keyof ProductRowData, e.target.value)}
+            className="w-full px-2 py-1 text-xs border-0 bg-transparent focus:outline-none focus:ring-1 focus:ring-blue-500"
+            disabled={isGroupLevelField && !isMasterRow}
+            title={getScheduleTimeZone(deliveryHubs, groupDisplayValue)}
+            onFocus={() => {
+              setFocusedCell({ row: rowIndex, col: column.key });
+              setSelectedRowIndex(rowIndex);
+            }}
+          >
+            {deliveryHubs.map(hub => (
+              <option key={hub.code} value={hub.code}>
+                {hub.name} ({formatUtcOffset(new Date(), hub.timeZone)})
+              </option>
+            ))}
+          </select>
+        );
+
       case 'currentLocation':
         return (
           <select
@@ -2476,19 +3291,14 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
           </select>
         );
 
-      case 'hkUsd':
-      case 'hkXe':
-      case 'hkHkd':
-      case 'dubaiUsd':
-      case 'dubaiXe':
-      case 'dubaiAed':
+      case 'hubPrice':
       case 'totalQty':
       case 'moqPerVariant':
       case 'weight':
         return (
           <input
             type="number"
-            step={column.key.includes('Xe') || column.key.includes('XE') ? '0.0001' : '0.01'}
+            step={column.key === cellHub?.xeField ? '0.0001' : '0.01'}
             value={value as string | number}
             onChange={(e) => updateRow(rowIndex, column.key as keyof ProductRowData, e.target.value)}
             className="w-full px-2 py-1.5 text-xs border-0 bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1 rounded transition-all duration-150 text-right font-medium placeholder:text-gray-400"
@@ -2504,13 +3314,7 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
         return (
           <select
             value={value as string || 'partial'}
-            onChange={(e) => {
-              updateRow(rowIndex, column.key as keyof ProductRowData, e.target.value);
-              // If changed to 'full', set MOQ to equal stock
-              if (e.target.value === 'full') {
-                updateRow(rowIndex, 'moqPerVariant', row.totalQty || 1);
-              }
-            }}
+            onChange={(e) => updateRow(rowIndex, column.key as keyof ProductRowData, e.target.value)}
             className="w-full px-2 py-1.5 text-xs border-0 bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1 rounded transition-all duration-150 cursor-pointer appearance-none"
             required
             onFocus={() => {
@@ -2559,14 +3363,16 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
         );
 
       case 'startTime':
-      case 'endTime':
-        const dateValue = groupDisplayValue ? new Date(groupDisplayValue as string) : null;
+      case 'endTime': {
+        // The picker shows wall-clock time in the row's schedule hub zone; values are UTC instants
         const currentRow = rows[rowIndex];
-        const startTimeValue = currentRow?.startTime ? new Date(currentRow.startTime) : null;
-        const endTimeValue = currentRow?.endTime ? new Date(currentRow.endTime) : null;
+        const hubZone = getScheduleTimeZone(deliveryHubs, currentRow?.scheduleHub);
+        const dateValue = groupDisplayValue ? toZonedPickerDate(groupDisplayValue as string, hubZone) : null;
+        const startTimeValue = currentRow?.startTime ? toZonedPickerDate(currentRow.startTime, hubZone) : null;
+        const endTimeValue = currentRow?.endTime ? toZonedPickerDate(currentRow.endTime, hubZone) : null;
         
-        // Get minimum date (current date/time - no past dates allowed)
-        const minDate = new Date();
+        // Get minimum date (current time in the hub - no past dates allowed)
+        const minDate = toZonedPickerDate(new Date().toISOString(), hubZone) || new Date();
         minDate.setSeconds(0, 0); // Reset seconds and milliseconds
         
         // For endTime, minDate should be startTime if it exists, otherwise current time
@@ -2574,60 +3380,72 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
         
         // For startTime, maxDate should be endTime if it exists (to ensure startTime < endTime)
         const maxDateForStartTime = endTimeValue || undefined;
+
+        // Hover text with the time in the hub and in the seller's own zone
+        const instant = groupDisplayValue ? new Date(groupDisplayValue as string) : null;
+        const sellerZone = getSellerTimeZone();
+        const zoneTitle = instant && !isNaN(instant.getTime())
+          ? `${formatInTimeZone(instant, hubZone)} ${hubZone} (${formatUtcOffset(instant, hubZone)})`
+            + (sellerZone !== hubZone ? `\n${formatInTimeZone(instant, sellerZone)} your time, ${sellerZone} (${formatUtcOffset(instant, sellerZone)})` : '')
+          : `Entered in ${hubZone} time`;
         
         return (
-          <DatePicker
-            selected={dateValue}
-            onChange={(date) => {
-              if (!date) {
-                updateRow(rowIndex, column.key as keyof ProductRowData, '');
-                return;
-              }
-              
-              // Validate: no past dates allowed
-              if (date < minDate) {
-                toastHelper.showTost('Cannot select past dates. Please select a future date.', 'error');
-                return;
-              }
-              
-              const dateISO = date.toISOString();
-              
-              if (column.key === 'startTime') {
-                // If setting startTime, validate it's before endTime
-                if (endTimeValue && date >= endTimeValue) {
-                  toastHelper.showTost('Start time must be before end time.', 'error');
+          <div title={zoneTitle} className="w-full">
+            <DatePicker
+              selected={dateValue}
+              onChange={(date) => {
+                if (!date) {
+                  updateRow(rowIndex, column.key as keyof ProductRowData, '');
                   return;
                 }
-                updateRow(rowIndex, column.key as keyof ProductRowData, dateISO);
-              } else if (column.key === 'endTime') {
-                // If setting endTime, validate it's after startTime
-                if (startTimeValue && date <= startTimeValue) {
-                  toastHelper.showTost('End time must be after start time.', 'error');
+              
+                // Validate: no past dates allowed
+                if (date < minDate) {
+                  toastHelper.showTost('Cannot select past dates. Please select a future date.', 'error');
                   return;
                 }
-                updateRow(rowIndex, column.key as keyof ProductRowData, dateISO);
-              }
-            }}
-            showTimeSelect
-            timeFormat="HH:mm"
-            timeIntervals={30}
-            dateFormat="yyyy-MM-dd HH:mm"
-            minDate={column.key === 'startTime' ? minDate : minDateForEndTime}
-            maxDate={column.key === 'startTime' ? (maxDateForStartTime || undefined) : undefined}
-            className="w-full px-2 py-1.5 text-xs border-0 bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1 rounded transition-all duration-150 placeholder:text-gray-400"
-            placeholderText={column.key === 'startTime' ? "Select date & time (auto: current time)" : "Select date & time *"}
-            disabled={isGroupLevelField && !isMasterRow}
-            required={column.key === 'endTime'}
-            onFocus={() => {
-              setFocusedCell({ row: rowIndex, col: column.key });
-              setSelectedRowIndex(rowIndex);
-            }}
-            wrapperClassName="w-full"
-            popperClassName="inline-datetime-picker"
-            popperModifiers={[]}
-            calendarClassName="inline-datetime-calendar"
-          />
+              
+                const dateISO = fromZonedPickerDate(date, hubZone);
+              
+                if (column.key === 'startTime') {
+                  // If setting startTime, validate it's before endTime
+                  if (endTimeValue && date >= endTimeValue) {
+                    toastHelper.showTost('Start time must be before end time.', 'error');
+                    return;
+                  }
+                  updateRow(rowIndex, column.key as keyof ProductRowData, dateISO);
+                } else if (column.key === 'endTime') {
+                  // If setting endTime, validate it's after startTime
+                  if (startTimeValue && date <= startTimeValue) {
+                    toastHelper.showTost('End time must be after start time.', 'error');
+                    return;
+                  }
+                  updateRow(rowIndex, column.key as keyof ProductRowData, dateISO);
+                }
+              }}
+              showTimeSelect
+              timeFormat="HH:mm"
+              timeIntervals={30}
+              dateFormat="yyyy-MM-dd HH:mm"
+              minDate={column.key === 'startTime' ? minDate : minDateForEndTime}
+              maxDate={column.key === 'startTime' ? (maxDateForStartTime || undefined) : undefined}
+              className="w-full px-2 py-1.5 text-xs border-0 bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1 rounded transition-all duration-150 placeholder:text-gray-400"
+              placeholderText={column.key === 'startTime' ? "Select date & time (auto: when submitted)" : "Select date & time *"}
+              disabled={isGroupLevelField && !isMasterRow}
+              required={column.key === 'endTime'}
+              preventOpenOnFocus
+              onFocus={() => {
+                setFocusedCell({ row: rowIndex, col: column.key });
+                setSelectedRowIndex(rowIndex);
+              }}
+              wrapperClassName="w-full"
+              popperClassName="inline-datetime-picker"
+              popperModifiers={[]}
+              calendarClassName="inline-datetime-calendar"
+            />
+          </div>
         );
+      }
 
       case 'supplierId':
         // Display current seller (disabled, cannot be changed)
@@ -2635,8 +3453,9 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
         const user = StorageService.getItem<any>(STORAGE_KEYS.USER);
         const sellerName = user?.name || user?.businessName || 'Current Seller';
         // Ensure supplierId is set in the row data
+        // (not an edit, so it bypasses updateRow and the undo history)
         if (value !== currentSeller) {
-          updateRow(rowIndex, 'supplierId' as keyof ProductRowData, currentSeller);
+          setRows(prevRows => applyFieldUpdate(prevRows, rowIndex, 'supplierId', currentSeller));
         }
         return (
           <div className="relative">
@@ -2761,101 +3580,29 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
           </div>
         );
 
-      case 'shippingTime':
+      case 'shippingTime': {
         const shippingTimeValue = groupDisplayValue as string;
-        
-        // Helper function to format date as YYYY-MM-DD
-        const formatDate = (date: Date): string => {
-          const year = date.getFullYear();
-          const month = String(date.getMonth() + 1).padStart(2, '0');
-          const day = String(date.getDate()).padStart(2, '0');
-          return `${year}-${month}-${day}`;
-        };
-        
-        // Helper function to get today's date
-        const getToday = (): Date => {
-          const today = new Date();
-          today.setHours(0, 0, 0, 0);
-          return today;
-        };
-        
-        // Helper function to get tomorrow's date
-        const getTomorrow = (): Date => {
-          const tomorrow = new Date();
-          tomorrow.setDate(tomorrow.getDate() + 1);
-          tomorrow.setHours(0, 0, 0, 0);
-          return tomorrow;
-        };
-        
-        // Determine current selected date value and detect mode from value
-        let selectedDate: Date | null = null;
-        let detectedMode: 'today' | 'tomorrow' | 'calendar' | '' = '';
-        
-        if (shippingTimeValue) {
-          try {
-            const dateValue = new Date(shippingTimeValue);
-            dateValue.setHours(0, 0, 0, 0);
-            selectedDate = dateValue;
-            
-            // Auto-detect if it's today or tomorrow
-            const todayStr = formatDate(getToday());
-            const tomorrowStr = formatDate(getTomorrow());
-            const valueStr = formatDate(dateValue);
-            
-            if (valueStr === todayStr) {
-              detectedMode = 'today';
-            } else if (valueStr === tomorrowStr) {
-              detectedMode = 'tomorrow';
-            } else {
-              detectedMode = 'calendar';
-            }
-          } catch (e) {
-            selectedDate = null;
-            detectedMode = '';
-          }
-        }
-        
-        // Use stored mode if exists, otherwise use detected mode
-        const storedMode = shippingTimeMode[rowIndex];
-        const currentMode = storedMode || detectedMode;
-        
+        const selectedDate = shippingTimeValue ? new Date(shippingTimeValue) : null;
+        selectedDate?.setHours(0, 0, 0, 0);
+        // Rows from older drafts and existing listings have a date but no preset
+        const shippingPreset = (isGroupLevelField && !isMasterRow ? rows[0]?.shippingPreset : row.shippingPreset)
+          || (shippingTimeValue ? 'calendar' : '');
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+
         return (
           <div className="w-full" onFocus={() => setFocusedCell({ row: rowIndex, col: column.key })}>
-            {/* Dropdown for selection */}
             <select
-              value={currentMode || ''}
+              value={shippingPreset}
               onChange={(e) => {
                 if (isGroupLevelField && !isMasterRow) return; // Prevent changes for non-master rows
-                const selectedMode = e.target.value as 'today' | 'tomorrow' | 'calendar' | '';
-                const newMode = selectedMode || '';
-                
-                // Update mode state
-                setShippingTimeMode((prev) => {
-                  const updated = { ...prev };
-                  if (newMode === '' || newMode === 'today' || newMode === 'tomorrow' || newMode === 'calendar') {
-                    updated[rowIndex] = newMode;
-                  }
-                  return updated;
-                });
-                
-                if (selectedMode === 'today') {
-                  const today = getToday();
-                  const todayStr = formatDate(today);
-                  updateRow(rowIndex, column.key as keyof ProductRowData, todayStr);
-                } else if (selectedMode === 'tomorrow') {
-                  const tomorrow = getTomorrow();
-                  const tomorrowStr = formatDate(tomorrow);
-                  updateRow(rowIndex, column.key as keyof ProductRowData, tomorrowStr);
-                } else if (selectedMode === 'calendar') {
-                  // Keep existing value or set to today if empty
-                  if (!shippingTimeValue) {
-                    const today = getToday();
-                    const todayStr = formatDate(today);
-                    updateRow(rowIndex, column.key as keyof ProductRowData, todayStr);
-                  }
+                const preset = e.target.value;
+                if (preset === '') {
+                  updateRow(rowIndex, 'shippingTime', '');
+                } else if (preset === 'calendar' && !shippingTimeValue) {
+                  updateRow(rowIndex, 'shippingTime', resolveShippingPreset('today', []));
                 } else {
-                  // Clear value when "Select shipping time" is chosen
-                  updateRow(rowIndex, column.key as keyof ProductRowData, '');
+                  updateRow(rowIndex, 'shippingPreset', preset);
                 }
               }}
               disabled={isGroupLevelField && !isMasterRow}
@@ -2866,30 +3613,34 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
               }}
             >
               <option value="">Select shipping time</option>
-              <option value="today">Today</option>
-              <option value="tomorrow">Tomorrow</option>
-              <option value="calendar">Calendar</option>
+              {SHIPPING_PRESET_OPTIONS.map(option => (
+                <option key={option.code} value={option.code}>
+                  {option.name}
+                </option>
+              ))}
             </select>
-            
-            {/* Show date picker only when calendar is selected */}
-            {(currentMode === 'calendar' || currentMode === '') && (
+
+            {isRelativeShippingPreset(shippingPreset) ? (
+              <div
+                className="mt-1 px-2 text-xs text-gray-500 dark:text-gray-400"
+                title="Worked out again when the draft is reopened and when it is submitted"
+              >
+                {shippingTimeValue}
+              </div>
+            ) : (
               <div className="mt-1">
                 <DatePicker
-                  selected={selectedDate}
+                  selected={selectedDate && !isNaN(selectedDate.getTime()) ? selectedDate : null}
                   onChange={(date) => {
                     if (isGroupLevelField && !isMasterRow) return; // Prevent changes for non-master rows
-                    if (date) {
-                      const dateStr = formatDate(date);
-                      updateRow(rowIndex, column.key as keyof ProductRowData, dateStr);
-                    } else {
-                      updateRow(rowIndex, column.key as keyof ProductRowData, '');
-                    }
+                    updateRow(rowIndex, 'shippingTime', date ? formatDay(date) : '');
                   }}
                   dateFormat="yyyy-MM-dd"
                   className="w-full px-2 py-1.5 text-xs border-0 bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1 rounded transition-all duration-150 placeholder:text-gray-400"
                   placeholderText="Select date"
                   disabled={isGroupLevelField && !isMasterRow}
-                  minDate={getToday()}
+                  minDate={today}
+                  preventOpenOnFocus
                   onFocus={() => {
                     setFocusedCell({ row: rowIndex, col: column.key });
                     setSelectedRowIndex(rowIndex);
@@ -2900,6 +3651,7 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
             )}
           </div>
         );
+      }
 
       case 'totalMoq':
         // MOQ PER CART field - shows value in each row, editable only in first row
@@ -2919,6 +3671,7 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
               value={moqValue}
               onChange={(e) => {
                 if (isMasterMoqRow) {
+                  recordHistory('totalMoq');
                   setTotalMoq(e.target.value);
                 }
               }}
@@ -2953,11 +3706,113 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
 
       default:
         // Handle custom dynamic columns
-        if (customColumns.some(cc => cc.key === column.key)) {
+        const customColumn = customColumns.find(cc => cc.key === column.key);
+        if (customColumn) {
+          const customValue = (value as string) || '';
+          const focusCustomCell = () => {
+            setFocusedCell({ row: rowIndex, col: column.key });
+            setSelectedRowIndex(rowIndex);
+          };
+          // yyyy-MM-dd as a local date, so the picker shows the same day
+          const toLocalDay = (day: string) => {
+            const [year, month, date] = day.split('-').map(Number);
+            return day && !isNaN(year) ? new Date(year, month - 1, date) : null;
+          };
+          const toDayString = (date: Date) =>
+            `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+          switch (customColumn.type) {
+            case 'number':
+              return (
+                <input
+                  type="number"
+                  value={customValue}
+                  onChange={(e) => updateRow(rowIndex, column.key as keyof ProductRowData, e.target.value)}
+                  className="w-full px-2 py-1.5 text-xs border-0 bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1 rounded transition-all duration-150 placeholder:text-gray-400"
+                  min={customColumn.min || undefined}
+                  max={customColumn.max || undefined}
+                  onFocus={focusCustomCell}
+                  placeholder="0"
+                />
+              );
+            case 'date':
+              return (
+                <DatePicker
+                  selected={toLocalDay(customValue)}
+                  onChange={(date) => updateRow(rowIndex, column.key as keyof ProductRowData, date ? toDayString(date) : '')}
+                  dateFormat="yyyy-MM-dd"
+                  className="w-full px-2 py-1.5 text-xs border-0 bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1 rounded transition-all duration-150 placeholder:text-gray-400"
+                  placeholderText="Select date"
+                  minDate={toLocalDay(customColumn.min) || undefined}
+                  maxDate={toLocalDay(customColumn.max) || undefined}
+                  preventOpenOnFocus
+                  onFocus={focusCustomCell}
+                  wrapperClassName="w-full"
+                />
+              );
+            case 'boolean':
+            case 'select':
+              return (
+                <select
+                  value={customValue}
+                  onChange={(e) => updateRow(rowIndex, column.key as keyof ProductRowData, e.target.value)}
+                  className="w-full px-2 py-1.5 text-xs border-0 bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1 rounded transition-all duration-150 cursor-pointer appearance-none"
+                  onFocus={focusCustomCell}
+                >
+                  <option value="" className="text-gray-500">Select...</option>
+                  {(customColumn.type === 'boolean'
+                    ? BOOLEAN_OPTIONS
+                    : customColumn.options.map(option => ({ code: option, name: option }))
+                  ).map(opt => (
+                    <option key={opt.code} value={opt.code} className="bg-white dark:bg-gray-800">
+                      {opt.name}
+                    </option>
+                  ))}
+                </select>
+              );
+            case 'multiselect': {
+              const selectedChoices = splitMultiValue(customValue);
+              return (
+                <div className="min-w-[200px]" onFocus={focusCustomCell}>
+                  <Select
+                    isMulti
+                    options={customColumn.options.map(option => ({ value: option, label: option }))}
+                    value={selectedChoices.map(option => ({ value: option, label: option }))}
+                    onChange={(selected) => {
+                      const selectedValues = selected ? selected.map(opt => opt.value).join(', ') : '';
+                      updateRow(rowIndex, column.key as keyof ProductRowData, selectedValues);
+                    }}
+                    className="text-xs"
+                    classNamePrefix="select"
+                    isSearchable={false}
+                    placeholder="Select..."
+                    styles={{
+                      control: (provided, state) => ({
+                        ...provided,
+                        minHeight: '32px',
+                        minWidth: '200px',
+                        fontSize: '12px',
+                        border: 'none',
+                        boxShadow: state.isFocused ? '0 0 0 2px rgba(59, 130, 246, 0.5)' : 'none',
+                        backgroundColor: 'transparent',
+                        '&:hover': { border: 'none' }
+                      }),
+                      valueContainer: (provided) => ({ ...provided, padding: '4px 8px', minHeight: '32px' }),
+                      input: (provided) => ({ ...provided, margin: '0', padding: '0' }),
+                      indicatorsContainer: (provided) => ({ ...provided, height: '32px' }),
+                      menu: (provided) => ({ ...provided, zIndex: 9999, boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1)' }),
+                      multiValue: (provided) => ({ ...provided, backgroundColor: '#dbeafe', fontSize: '11px' }),
+                      multiValueLabel: (provided) => ({ ...provided, color: '#1e40af', fontWeight: '500' }),
+                    }}
+                  />
+                </div>
+              );
+            }
+          }
           return (
             <input
               type="text"
-              value={(value as string) || ''}
+              value={customValue}
               onChange={(e) => updateRow(rowIndex, column.key as keyof ProductRowData, e.target.value)}
               className="w-full px-2 py-1.5 text-xs border-0 bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1 rounded transition-all duration-150 placeholder:text-gray-400"
               onFocus={() => {
@@ -2986,42 +3841,27 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
     }
   };
 
-  // Function to handle adding a new custom column
-  const handleAddCustomColumn = () => {
-    if (!newColumnName.trim()) {
-      toastHelper.showTost('Please enter a column name', 'error');
-      return;
-    }
+  // Add a custom column, or update the type and rules of an existing one
+  const handleSaveCustomColumn = (column: CustomColumn) => {
+    const isExisting = customColumns.some(col => col.key === column.key);
+    recordHistory();
+    if (isExisting) {
+      // Values that no longer fit the new type are flagged by validation
+      setCustomColumns(prevColumns => prevColumns.map(col => (col.key === column.key ? column : col)));
+    } else {
+      setCustomColumns(prevColumns => [...prevColumns, column]);
 
-    // Check if column name already exists
-    const columnKey = `custom_${newColumnName.trim().toLowerCase().replace(/\s+/g, '_')}`;
-    if (columns.some(col => col.key === columnKey)) {
-      toastHelper.showTost('A column with this name already exists', 'error');
-      return;
+      // Initialize the field for all existing rows
+      setRows(prevRows => 
+        prevRows.map(row => ({
+          ...row,
+          [column.key]: '',
+        }))
+      );
     }
 
-    // Add new custom column
-    const newColumn = {
-      key: columnKey,
-      label: newColumnName.trim().toUpperCase(),
-      width: 150,
-      group: 'Custom Fields',
-    };
-
-    setCustomColumns([...customColumns, newColumn]);
-
-    // Initialize the field for all existing rows
-    setRows(prevRows => 
-      prevRows.map(row => ({
-        ...row,
-        [columnKey]: '',
-      }))
-    );
-
-    // Reset modal
-    setNewColumnName('');
-    setShowAddColumnModal(false);
-    toastHelper.showTost(`Column "${newColumnName.trim()}" added successfully`, 'success');
+    setCustomColumnModal(null);
+    toastHelper.showTost(`Column "${column.label}" ${isExisting ? 'updated' : 'added'} successfully`, 'success');
   };
 
   // Function to handle deleting a custom column
@@ -3038,6 +3878,7 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
       cancelButtonText: 'Cancel',
     }).then((result) => {
       if (result.isConfirmed) {
+        recordHistory();
         // Remove the column from customColumns
         setCustomColumns(prevColumns => prevColumns.filter(col => col.key !== columnKey));
         
@@ -3055,22 +3896,304 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
     });
   };
 
-  if (loading) {
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center p-12 bg-white dark:bg-gray-900">
+        <div className="relative">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-200 dark:border-blue-900 border-t-blue-600 dark:border-t-blue-400"></div>
+          <div className="absolute inset-0 flex items-center justify-center">
+            <i className="fas fa-spinner text-blue-600 dark:text-blue-400 text-lg animate-spin"></i>
+          </div>
+        </div>
+        <p className="mt-4 text-sm font-medium text-gray-600 dark:text-gray-400">Loading form data...</p>
+      </div>
+    );
+  }
+
+
+  const totalWidth = columns.reduce((sum, col) => sum + col.width + 1, 0);
+
+  const selectionBounds = getSelectionBounds();
+  const selectedCellCount = selectionBounds
+    ? (selectionBounds.bottom - selectionBounds.top + 1) * (selectionBounds.right - selectionBounds.left + 1)
+    : 0;
+  const hasRangeSelection = selectedCellCount > 1;
+  const presetTargetRows = showPresetsModal ? getTargetRows() : [];
+  // XE rates that stray too far from the reference table, and XE cells still empty
+  const xeWarningMap: Record<string, string> = {};
+  const emptyXeCells: Array<{ row: number; field: string }> = [];
+  const flaggedXeCells: Array<{ row: number; field: string }> = [];
+  if (exchangeRates) {
+    rows.forEach((row, index) => {
+      deliveryHubs.forEach(hub => {
+        const referenceRate = exchangeRates.rates[hub.currency];
+        if (!referenceRate || !hasPermission(hub.xeField) || !isCellWritable(index, hub.xeField)) return;
+        const deviation = getRateDeviation(row[hub.usdField], row[hub.localField], row[hub.xeField], referenceRate);
+        if (deviation && deviation.percent > env.xeDeviationPercent) {
+          xeWarningMap[`${index}-${hub.xeField}`] = `XE ${deviation.rate.toFixed(4)} is ${deviation.percent.toFixed(1)}% off the reference USD→${hub.currency} rate of ${referenceRate.toFixed(4)}`;
+          flaggedXeCells.push({ row: index, field: hub.xeField });
+        }
+        if (!(parseFloat(String(row[hub.xeField])) > 0)) emptyXeCells.push({ row: index, field: hub.xeField });
+      });
+    });
+  }
+  const priceTargetRows = showBulkPriceModal ? getTargetRows().filter(index => !isRowLocked(index)) : [];
+  const priceFields = deliveryHubs
+    .flatMap(hub => [hub.usdField, hub.localField])
+    .filter(field => hasPermission(field));
+
+  const validationErrors = validateProductRows(rows, {
+    variantType,
+    hasPermission,
+    totalMoq,
+    isEditMode: editProducts.length > 0,
+    customColumns,
+  }).filter(error => !isRowLocked(error.row));
+  const showMoqSummary = variantType === 'multi' && hasPermission('moqPerVariant');
+  const moqIssues = showMoqSummary
+    ? validateMoqRules(rows, { variantType, hasPermission, totalMoq }).filter(error => !isRowLocked(error.row))
+    : [];
+  const failedRowCount = rows.filter(row => submitResults[row.rowId]?.status === 'failed').length;
+  const pendingSubmitCount = rows.filter((_, index) => !isRowLocked(index)).length;
+  const validationErrorMap: Record<string, string> = {};
+  validationErrors.forEach(error => {
+    const key = `${error.row}-${error.field}`;
+    if (!validationErrorMap[key]) validationErrorMap[key] = error.message;
+  });
+  // Virtualization window: rows [firstRow, lastRow) and unpinned columns [firstCol, lastCol)
+  // are rendered, with spacers standing in for the rest. Pinned columns are always rendered.
+  const firstRow = Math.max(0, Math.floor((viewport.top - viewport.rowsTop) / rowHeight) - ROW_OVERSCAN);
+  const lastRow = Math.min(rows.length, Math.ceil((viewport.top + viewport.height - viewport.rowsTop) / rowHeight) + ROW_OVERSCAN);
+  const columnOffsets = [ROW_NUMBER_WIDTH];
+  columns.forEach(col => columnOffsets.push(columnOffsets[columnOffsets.length - 1] + col.width));
+  const pinnedCount = Object.keys(pinnedOffsets).length;
+  let firstCol = pinnedCount;
+  while (firstCol < columns.length && columnOffsets[firstCol + 1] <= viewport.left - COLUMN_OVERSCAN_PX) firstCol++;
+  let lastCol = firstCol;
+  while (lastCol < columns.length && columnOffsets[lastCol] < viewport.left + viewport.width + COLUMN_OVERSCAN_PX) lastCol++;
+  const leftSpacerWidth = columnOffsets[firstCol] - columnOffsets[pinnedCount];
+  const rightSpacerWidth = columnOffsets[columns.length] - columnOffsets[lastCol];
+
+  // Cell issues, errors and warnings grouped by row
+  const rowMarks: Record<number, string[]> = {};
+  const addRowMarks = (kind: string, marks: Record<string, string>) => {
+    Object.entries(marks).forEach(([key, message]) => {
+      const markRow = parseInt(key, 10);
+      (rowMarks[markRow] = rowMarks[markRow] || []).push(`${kind}:${key}:${message}`);
+    });
+  };
+  addRowMarks('issue', cellIssues);
+  if (showValidation) addRowMarks('error', validationErrorMap);
+  addRowMarks('warning', xeWarningMap);
+
+  // Everything a memoized grid row shows: its own data, its share of the focus, selection,
+  // submit results and SKU search, and the grid-wide inputs. renderGridRow reads the
+  // row-specific values from here, so what is compared is what is rendered.
+  const getRowState = (row: ProductRowData, rowIndex: number) => {
+    const search = rowSkuFamilySearch?.rowIndex === rowIndex ? rowSkuFamilySearch : null;
+    const inSelection = hasRangeSelection && !!selectionBounds && rowIndex >= selectionBounds.top && rowIndex <= selectionBounds.bottom;
+    return {
+      row,
+      rowIndex,
+      // Non-master variants display the master row's group-level values
+      masterRow: variantType === 'multi' ? rows[0] : null,
+      rowCount: rows.length,
+      focusedCol: focusedCell?.row === rowIndex ? focusedCell.col : null,
+      isSelectedRow: selectedRowIndex === rowIndex,
+      selectionLeft: inSelection && selectionBounds ? selectionBounds.left : null,
+      selectionRight: inSelection && selectionBounds ? selectionBounds.right : null,
+      result: submitResults[row.rowId],
+      search,
+      searchResults: search ? rowSkuFamilySearchResults : null,
+      skuResultIndex: search ? skuResultIndex : null,
+      // Cell issues, errors and warnings of the row
+      marks: (rowMarks[rowIndex] || []).join('|'),
+      rowHeight,
+      firstCol,
+      lastCol,
+      variantType,
+      columnLayout,
+      customColumns,
+      permissions,
+      constants,
+      grades,
+      skuFamilies,
+      deliveryHubs,
+      exchangeRates,
+      totalMoq,
+      showValidation,
+    };
+  };
+
+  type GridRowState = ReturnType<typeof getRowState>;
+
+  const renderGridCell = (state: GridRowState, col: typeof columns[0], colIndex: number) => {
+    const { row, rowIndex, focusedCol, selectionLeft, selectionRight } = state;
+    const isLocked = state.result?.status === 'created';
+    const cellIssue = cellIssues[`${rowIndex}-${col.key}`];
+    const cellError = showValidation ? validationErrorMap[`${rowIndex}-${col.key}`] : undefined;
+    const cellWarning = xeWarningMap[`${rowIndex}-${col.key}`];
+    const isInSelection = selectionLeft !== null && selectionRight !== null && colIndex >= selectionLeft && colIndex <= selectionRight;
+    // Regular columns including totalMoq (now rendered normally in each row)
     return (
-      <div className="flex flex-col items-center justify-center p-12 bg-white dark:bg-gray-900">
-        <div className="relative">
-          <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-200 dark:border-blue-900 border-t-blue-600 dark:border-t-blue-400"></div>
-          <div className="absolute inset-0 flex items-center justify-center">
-            <i className="fas fa-spinner text-blue-600 dark:text-blue-400 text-lg animate-spin"></i>
-          </div>
+      <div
+        key={`${rowIndex}-${col.key}`}
+        className={`px-0 py-1.5 border-r border-gray-200 dark:border-gray-700 relative group transition-all duration-150 flex ${
+          focusedCol === col.key
+            ? ''
+            : 'hover:bg-gray-50 dark:hover:bg-gray-800/50'
+        } ${cellIssue ? 'ring-2 ring-inset ring-red-500 bg-red-50 dark:bg-red-900/20' : ''} ${
+          cellError && !cellIssue ? 'ring-1 ring-inset ring-red-400 bg-red-50/60 dark:bg-red-900/10' : ''
+        } ${
+          cellWarning && !cellError && !cellIssue ? 'ring-1 ring-inset ring-yellow-400 bg-yellow-50 dark:bg-yellow-900/20' : ''
+        } ${
+          isInSelection ? 'bg-blue-100 dark:bg-blue-900/40' : ''
+        } ${isLocked ? 'pointer-events-none opacity-60' : ''} ${
+          col.key in pinnedOffsets && !isInSelection && !cellIssue && !cellError && !cellWarning ? 'bg-white dark:bg-gray-900' : ''
+        } ${pinnedEdgeClass(col.key)}`}
+        style={{ 
+          width: `${col.width}px`, 
+          minWidth: `${col.width}px`,
+          justifyContent:'center',
+          alignItems:'center',
+          ...getPinnedStyle(col.key, 3)
+        }}
+        onDoubleClick={() => {
+          if (col.key === 'totalMoq' && variantType === 'multi') {
+            // For totalMoq, fill all below rows with the same value
+            fillAllBelow(rowIndex, col.key);
+          } else {
+            fillAllBelow(rowIndex, col.key);
+          }
+        }}
+        onMouseDown={(e) => handleCellMouseDown(e, rowIndex, col.key)}
+        onMouseEnter={() => handleCellMouseEnter(rowIndex, col.key)}
+        data-cell={`${rowIndex}-${col.key}`}
+        title={cellIssue || cellError || cellWarning || 'Double-click to fill all below'}
+      >
+        <div className="px-2 w-full">
+          {renderCell(row, rowIndex, col)}
         </div>
-        <p className="mt-4 text-sm font-medium text-gray-600 dark:text-gray-400">Loading form data...</p>
+        {col.key !== 'totalMoq' && rowIndex < state.rowCount - 1 && focusedCol === col.key && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              fillDown(rowIndex, col.key);
+            }}
+            className="absolute bottom-1 right-1 bg-blue-600 text-white text-xs px-2 py-1 rounded-lg shadow-lg hover:bg-blue-700 z-20 transform hover:scale-110 transition-all duration-200 flex items-center gap-1"
+            title="Fill Down (Ctrl+D)"
+          >
+            <i className="fas fa-arrow-down text-xs"></i>
+            <span className="text-xs font-medium">Fill</span>
+          </button>
+        )}
+        {/* Hover indicator */}
+        <div className="absolute inset-0 border-2 border-transparent group-hover:border-blue-300 dark:group-hover:border-blue-700 rounded pointer-events-none transition-all duration-150"></div>
       </div>
     );
-  }
+  };
+
+  const renderGridRow = (state: GridRowState) => {
+    const { rowIndex, result } = state;
+    const isLocked = result?.status === 'created';
+    return (
+      <div
+        data-row={rowIndex}
+        className={`flex border-b border-gray-200 dark:border-gray-700 transition-all duration-150 ${
+          rowIndex % 2 === 0 
+            ? 'bg-white dark:bg-gray-900' 
+            : 'bg-gray-50/50 dark:bg-gray-800/30'
+        } ${
+          state.focusedCol !== null
+            ? 'bg-blue-50 dark:bg-blue-900/20 shadow-inner'
+            : 'hover:bg-blue-50/50 dark:hover:bg-blue-900/10'
+        } ${isLocked ? 'bg-green-50/60 dark:bg-green-900/10' : ''}`}
+        style={{ minHeight: `${state.rowHeight}px` }}
+      >
+        {/* Enhanced Row Number */}
+        <div className="w-12 min-w-12 border-r-2 border-gray-300 dark:border-gray-700 bg-gray-200 dark:bg-gray-800 flex items-center justify-center text-xs font-bold text-gray-700 dark:text-gray-300 sticky left-0 z-5 shadow-sm">
+          <div className="flex flex-col items-center gap-2">
+            <div 
+              onClick={() => setSelectedRowIndex(rowIndex)}
+              className={`w-6 h-6 rounded-full flex items-center justify-center text-white font-bold shadow-md cursor-pointer transition-all ${
+                state.isSelectedRow
+                  ? 'bg-green-600 dark:bg-green-700 ring-2 ring-green-400 ring-offset-2' 
+                  : 'bg-blue-600 dark:bg-blue-700 hover:bg-blue-700 dark:hover:bg-blue-600'
+              }`}
+              title={state.isSelectedRow ? 'Selected for search fill (click to deselect)' : 'Click to select this row for search fill'}
+            >
+              {rowIndex + 1}
+            </div>
+            {result?.status === 'pending' && (
+              <i className="fas fa-spinner fa-spin text-blue-500 text-xs" title="Submitting..."></i>
+            )}
+            {result?.status === 'created' && (
+              <i
+                className="fas fa-check-circle text-green-600 dark:text-green-400 text-sm"
+                title={`Created${result.productId ? ` - ID ${result.productId}` : ''}`}
+              ></i>
+            )}
+            {result?.status === 'failed' && (
+              <i
+                className="fas fa-exclamation-triangle text-red-600 dark:text-red-400 text-sm"
+                title={`Failed: ${result.message || 'Unknown error'}`}
+              ></i>
+            )}
+            <div className="flex gap-1">
+              <button
+                type="button"
+                onClick={() => duplicateRow(rowIndex)}
+                className="p-1 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/30 rounded transition-colors"
+                title="Duplicate Row"
+              >
+                <i className="fas fa-copy text-xs"></i>
+              </button>
+              {state.rowCount > 1 && !isLocked && (
+                <button
+                  type="button"
+                  onClick={() => removeRow(rowIndex)}
+                  className="p-1 text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 hover:bg-red-100 dark:hover:bg-red-900/30 rounded transition-colors"
+                  title="Delete Row"
+                >
+                  <i className="fas fa-trash text-xs"></i>
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
 
+        {/* Enhanced Cells */}
+        {columns.slice(0, pinnedCount).map((col, colIndex) => renderGridCell(state, col, colIndex))}
+        {leftSpacerWidth > 0 && <div style={{ width: `${leftSpacerWidth}px`, minWidth: `${leftSpacerWidth}px` }}></div>}
+        {columns.slice(state.firstCol, state.lastCol).map((col, offset) => renderGridCell(state, col, state.firstCol + offset))}
+        {rightSpacerWidth > 0 && <div style={{ width: `${rightSpacerWidth}px`, minWidth: `${rightSpacerWidth}px` }}></div>}
+        {/* Add Column Button Cell */}
+        {hasPermissionedFields && (
+          <div
+            className="px-2 py-1.5 border-r border-gray-200 dark:border-gray-700 flex items-center justify-center bg-green-50 dark:bg-green-900/30 hover:bg-green-100 dark:hover:bg-green-900/50 transition-colors cursor-pointer"
+            style={{ width: '80px', minWidth: '80px' }}
+            onClick={() => setCustomColumnModal({ column: null })}
+            title="Add Custom Column"
+          >
+            <i className="fas fa-plus text-green-600 dark:text-green-400"></i>
+          </div>
+        )}
+      </div>
+    );
+  };
 
-  const totalWidth = columns.reduce((sum, col) => sum + col.width + 1, 0);
+  // Columns in the selection that bulk set can write to
+  const bulkEditFields = selectionBounds
+    ? columns
+        .slice(selectionBounds.left, selectionBounds.right + 1)
+        .filter(col => !READ_ONLY_GRID_FIELDS.includes(col.key))
+        .map(col => ({
+          key: col.key,
+          label: col.label,
+          options: getColumnOptions(col.key, { constants, grades, skuFamilies, customColumns }, rows[selectionBounds.top]),
+        }))
+    : [];
 
   return (
     <>
@@ -3103,6 +4226,131 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
                   <i className="fas fa-copy text-sm"></i>
                   <span>Duplicate</span>
                 </button>
+                <div className="flex items-center rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 shadow-sm">
+                  <button
+                    type="button"
+                    onClick={undo}
+                    disabled={!history.canUndo}
+                    className="px-3 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-l-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Undo (Ctrl+Z)"
+                  >
+                    <i className="fas fa-undo text-sm"></i>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={redo}
+                    disabled={!history.canRedo}
+                    className="px-3 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-r-lg border-l border-gray-300 dark:border-gray-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Redo (Ctrl+Shift+Z)"
+                  >
+                    <i className="fas fa-redo text-sm"></i>
+                  </button>
+                </div>
+                {variantType === 'multi' && hasPermission('skuFamilyId') && (
+                  <button
+                    type="button"
+                    onClick={() => setShowVariantMatrixModal(true)}
+                    className="px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2 shadow-sm transition-colors"
+                    title="Generate rows for every combination of models, storages, colours, grades, country specs and SIM types"
+                  >
+                    <i className="fas fa-th text-sm"></i>
+                    <span>Variants</span>
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setShowPresetsModal(true)}
+                  className="px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2 shadow-sm transition-colors"
+                  title="Apply saved packing, location, payment and shipping defaults"
+                >
+                  <i className="fas fa-magic text-sm"></i>
+                  <span>Presets</span>
+                </button>
+                {(hasPermission('startTime') || hasPermission('endTime')) && (
+                  <button
+                    type="button"
+                    onClick={openSchedulePreview}
+                    className="px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2 shadow-sm transition-colors"
+                    title="Review start and end times in hub and local time, and overlapping flash deals"
+                  >
+                    <i className="fas fa-clock text-sm"></i>
+                    <span>Schedule</span>
+                  </button>
+                )}
+                {hasPermission('shippingTime') && (
+                  <button
+                    type="button"
+                    onClick={() => setShowHolidayModal(true)}
+                    className="px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2 shadow-sm transition-colors"
+                    title="Public holidays skipped by business-day shipping times"
+                  >
+                    <i className="fas fa-calendar-alt text-sm"></i>
+                    <span>Holidays</span>
+                  </button>
+                )}
+                {priceFields.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (getTargetRows().filter(index => !isRowLocked(index)).length === 0) {
+                        toastHelper.showTost('Select the rows to reprice first', 'warning');
+                        return;
+                      }
+                      setShowBulkPriceModal(true);
+                    }}
+                    className="px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2 shadow-sm transition-colors"
+                    title="Change prices on the selected rows by a percentage or fixed amount"
+                  >
+                    <i className="fas fa-percent text-sm"></i>
+                    <span>Pricing</span>
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => importInputRef.current?.click()}
+                  className="px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2 shadow-sm transition-colors"
+                  title="Load rows from an Excel or CSV file to review before submitting"
+                >
+                  <i className="fas fa-file-import text-sm"></i>
+                  <span>Import</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowExportModal(true)}
+                  className="px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2 shadow-sm transition-colors"
+                  title="Download the grid as an Excel or CSV file"
+                >
+                  <i className="fas fa-file-export text-sm"></i>
+                  <span>Export</span>
+                </button>
+                <input
+                  type="file"
+                  accept={SPREADSHEET_ACCEPT}
+                  onChange={handleImportFile}
+                  className="hidden"
+                  ref={importInputRef}
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowFindReplaceModal(true)}
+                  className="px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2 shadow-sm transition-colors"
+                  title="Find and replace (Ctrl+H)"
+                >
+                  <i className="fas fa-search text-sm"></i>
+                  <span>Replace</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowColumnLayoutModal(true)}
+                  className="px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2 shadow-sm transition-colors"
+                  title="Show, hide, reorder, resize and pin columns"
+                >
+                  <i className="fas fa-columns text-sm"></i>
+                  <span>Columns</span>
+                  {columnLayout.hidden.length > 0 && (
+                    <span className="px-1.5 py-0.5 text-xs rounded bg-gray-200 dark:bg-gray-700">{columnLayout.hidden.length} hidden</span>
+                  )}
+                </button>
               </>
             )}
           </div>
@@ -3203,6 +4451,18 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
                 {columns.length} Columns
               </span>
             </div>
+            {draftName && (
+              <button
+                type="button"
+                onClick={renameDraft}
+                className="flex items-center gap-2 px-3 py-1.5 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors max-w-xs"
+                title="Autosaved draft - click to rename"
+              >
+                <i className="fas fa-file-alt text-green-500 text-sm"></i>
+                <span className="text-xs font-semibold text-gray-700 dark:text-gray-300 truncate">{draftName}</span>
+                <i className="fas fa-pen text-gray-400 text-xs"></i>
+              </button>
+            )}
             {variantType === 'multi' && (
               <div className="flex items-center gap-2 px-3 py-1.5 bg-purple-100 dark:bg-purple-900/40 rounded-lg border border-purple-300 dark:border-purple-700 shadow-sm">
                 <i className="fas fa-layer-group text-purple-600 dark:text-purple-400 text-sm"></i>
@@ -3211,6 +4471,86 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
                 </span>
               </div>
             )}
+            {hasRangeSelection && (
+              <div className="flex items-center gap-1 px-2 py-1 bg-blue-50 dark:bg-blue-900/30 rounded-lg border border-blue-300 dark:border-blue-700 shadow-sm">
+                <span className="px-1 text-xs font-semibold text-blue-700 dark:text-blue-300">
+                  {selectedCellCount} cells selected
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setShowBulkEditModal(true)}
+                  className="px-2 py-1 text-xs font-medium text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/50 rounded transition-colors"
+                  title="Set one value on the selected rows"
+                >
+                  <i className="fas fa-pen mr-1"></i>Set
+                </button>
+                <button
+                  type="button"
+                  onClick={clearSelectedCells}
+                  className="px-2 py-1 text-xs font-medium text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/50 rounded transition-colors"
+                  title="Clear selected cells (Delete)"
+                >
+                  <i className="fas fa-eraser mr-1"></i>Clear
+                </button>
+                <button
+                  type="button"
+                  onClick={copySelectedCells}
+                  className="px-2 py-1 text-xs font-medium text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/50 rounded transition-colors"
+                  title="Copy selected cells (Ctrl+C)"
+                >
+                  <i className="fas fa-copy mr-1"></i>Copy
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSelection(null)}
+                  className="p-1 text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded transition-colors"
+                  title="Clear selection (Esc)"
+                >
+                  <i className="fas fa-times"></i>
+                </button>
+              </div>
+            )}
+            {exchangeRates && deliveryHubs.some(hub => hasPermission(hub.xeField)) && (
+              <button
+                type="button"
+                onClick={() => setShowExchangeRatesModal(true)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border shadow-sm transition-colors ${
+                  flaggedXeCells.length > 0
+                    ? 'bg-yellow-50 dark:bg-yellow-900/30 border-yellow-300 dark:border-yellow-700 hover:bg-yellow-100 dark:hover:bg-yellow-900/50'
+                    : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+                title="Reference exchange rates"
+              >
+                <i className={`fas fa-exchange-alt text-sm ${flaggedXeCells.length > 0 ? 'text-yellow-600 dark:text-yellow-400' : 'text-blue-500'}`}></i>
+                <span className="text-xs font-semibold text-gray-700 dark:text-gray-300">
+                  {flaggedXeCells.length > 0
+                    ? `${flaggedXeCells.length} XE ${flaggedXeCells.length === 1 ? 'Warning' : 'Warnings'}`
+                    : 'XE Rates'}
+                </span>
+              </button>
+            )}
+            {validationErrors.length > 0 ? (
+              <button
+                type="button"
+                onClick={() => {
+                  setShowValidation(true);
+                  setShowErrorPanel(prev => !prev);
+                }}
+                className="flex items-center gap-2 px-3 py-1.5 bg-red-50 dark:bg-red-900/30 rounded-lg border border-red-300 dark:border-red-700 shadow-sm hover:bg-red-100 dark:hover:bg-red-900/50 transition-colors"
+                title="Show validation errors"
+              >
+                <i className="fas fa-exclamation-circle text-red-600 dark:text-red-400 text-sm"></i>
+                <span className="text-xs font-semibold text-red-700 dark:text-red-300">
+                  {validationErrors.length} {validationErrors.length === 1 ? 'Error' : 'Errors'}
+                </span>
+                <i className={`fas fa-chevron-${showErrorPanel ? 'up' : 'down'} text-red-500 text-xs`}></i>
+              </button>
+            ) : showValidation && (
+              <div className="flex items-center gap-2 px-3 py-1.5 bg-green-50 dark:bg-green-900/30 rounded-lg border border-green-300 dark:border-green-700 shadow-sm">
+                <i className="fas fa-check-circle text-green-600 dark:text-green-400 text-sm"></i>
+                <span className="text-xs font-semibold text-green-700 dark:text-green-300">No errors</span>
+              </div>
+            )}
             {/* <div className="flex items-center gap-2 px-3 py-1.5 bg-green-100 dark:bg-green-900/40 rounded-lg border border-green-300 dark:border-green-700 shadow-sm">
               <i className="fas fa-save text-green-600 dark:text-green-400 text-sm"></i>
               <span className="text-xs font-semibold text-green-700 dark:text-green-300">
@@ -3247,16 +4587,32 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
             <i className="fas fa-times mr-2"></i>
             Cancel
           </button>
+          {hasPermissionedFields && failedRowCount > 0 && (
+            <button
+              type="button"
+              onClick={(e) => handleSubmit(e, true)}
+              disabled={submitting}
+              className="px-4 py-2 bg-orange-500 text-white text-sm font-semibold rounded-lg hover:bg-orange-600 shadow-lg transition-all duration-200 flex items-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
+              title="Resend only the rows that failed"
+            >
+              <i className="fas fa-redo text-sm"></i>
+              <span>Retry Failed</span>
+              <span className="ml-1 px-2 py-0.5 bg-orange-400 rounded-full text-xs font-bold">
+                {failedRowCount}
+              </span>
+            </button>
+          )}
           {hasPermissionedFields && (
             <button
               type="submit"
-              className="px-6 py-2 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700 shadow-lg hover:shadow-xl transition-all duration-200 transform hover:scale-105 flex items-center gap-2"
+              disabled={submitting}
+              className="px-6 py-2 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700 shadow-lg hover:shadow-xl transition-all duration-200 transform hover:scale-105 flex items-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed disabled:transform-none"
             >
-              <i className={`fas ${editProducts && editProducts.length > 0 ? 'fa-edit' : 'fa-save'} text-sm`}></i>
+              <i className={`fas ${submitting ? 'fa-spinner fa-spin' : editProducts && editProducts.length > 0 ? 'fa-edit' : 'fa-save'} text-sm`}></i>
               <span>{editProducts && editProducts.length > 0 ? 'Update Product' : 'Save All Products'}</span>
               {!editProducts || editProducts.length === 0 ? (
                 <span className="ml-1 px-2 py-0.5 bg-blue-500 rounded-full text-xs font-bold">
-                  {rows.length}
+                  {pendingSubmitCount}
                 </span>
               ) : null}
             </button>
@@ -3264,11 +4620,35 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
         </div>
       </div>
 
+      {/* Validation error panel - click an error to jump to its cell */}
+      {showErrorPanel && validationErrors.length > 0 && (
+        <div className="border-b border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 px-6 py-2 max-h-40 overflow-y-auto">
+          <ul className="space-y-1">
+            {validationErrors.map((error, index) => (
+              <li key={`${error.row}-${error.field}-${index}`}>
+                <button
+                  type="button"
+                  onClick={() => jumpToCell(error.row, error.field)}
+                  className="text-xs text-red-700 dark:text-red-300 hover:underline text-left"
+                >
+                  <i className="fas fa-arrow-right mr-2 text-red-400"></i>
+                  {error.message}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Excel-like Table with Enhanced Styling */}
       <div 
         ref={tableRef}
         className="flex-1 overflow-auto bg-white dark:bg-gray-900 relative"
         style={{ maxHeight: 'calc(100vh - 136px)' }}
+        onPaste={handleGridPaste}
+        onCopy={handleGridCopy}
+        onKeyDownCapture={handleGridKeyDown}
+        onScroll={handleGridScroll}
       >
         {/* Scroll Shadow Indicators */}
         {/* <div className="absolute top-0 right-0 w-8 h-full bg-gray-100 dark:bg-gray-800 pointer-events-none z-10 opacity-50"></div> */}
@@ -3278,111 +4658,67 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
           <div className="sticky top-0 z-10 shadow-lg">
             {/* Group Headers for Price Sections */}
             <div className="flex border-b border-gray-300 dark:border-gray-600">
-              <div className="min-w-12 border-r-2 border-gray-400 dark:border-gray-600 bg-gray-300 dark:bg-gray-800 sticky left-0 z-10"></div>
-              {columns.map((col) => {
-                const hkCols = columns.filter((c): c is Extract<ColumnDefinition, { subgroup: string }> => 'subgroup' in c && c.subgroup === 'HK');
-                const dubaiCols = columns.filter((c): c is Extract<ColumnDefinition, { subgroup: string }> => 'subgroup' in c && c.subgroup === 'DUBAI');
-                const paymentTermCols = columns.filter((c): c is Extract<ColumnDefinition, { subgroup: string }> => 'subgroup' in c && c.subgroup === 'PAYMENT_TERM');
-                const paymentMethodCols = columns.filter((c): c is Extract<ColumnDefinition, { subgroup: string }> => 'subgroup' in c && c.subgroup === 'PAYMENT_METHOD');
-                const hkWidth = hkCols.reduce((sum, c) => sum + c.width, 0);
-                const dubaiWidth = dubaiCols.reduce((sum, c) => sum + c.width, 0);
-                const paymentTermWidth = paymentTermCols.reduce((sum, c) => sum + c.width, 0);
-                const paymentMethodWidth = paymentMethodCols.reduce((sum, c) => sum + c.width, 0);
-                
-                // Check if this is the first column of a group
-                if (col.key === 'hkUsd') {
-                  return (
-                    <div
-                      key={`group-hk`}
-                      className="bg-blue-500 dark:bg-blue-700 px-3 py-2 text-xs font-bold text-white text-center border-r-2 border-blue-600 dark:border-blue-800 shadow-inner"
-                      style={{ width: `${hkWidth}px`, minWidth: `${hkWidth}px` }}
-                    >
-                      <div className="flex items-center justify-center gap-2">
-                        <i className="fas fa-dollar-sign text-xs"></i>
-                        <span>HK DELIVERY PRICE</span>
-                      </div>
-                    </div>
-                  );
-                } else if (col.key === 'dubaiUsd') {
-                  return (
-                    <div
-                      key={`group-dubai`}
-                      className="bg-green-500 dark:bg-green-700 px-3 py-2 text-xs font-bold text-white text-center border-r-2 border-green-600 dark:border-green-800 shadow-inner"
-                      style={{ width: `${dubaiWidth}px`, minWidth: `${dubaiWidth}px` }}
-                    >
-                      <div className="flex items-center justify-center gap-2">
-                        <i className="fas fa-dollar-sign text-xs"></i>
-                        <span>DUBAI DELIVERY PRICE</span>
-                      </div>
-                    </div>
-                  );
-                } else if (col.key === 'paymentTermUsd') {
-                  return (
-                    <div
-                      key={`group-payment-term`}
-                      className="bg-purple-500 dark:bg-purple-700 px-3 py-2 text-xs font-bold text-white text-center border-r-2 border-purple-600 dark:border-purple-800 shadow-inner"
-                      style={{ width: `${paymentTermWidth}px`, minWidth: `${paymentTermWidth}px` }}
-                    >
-                      <div className="flex items-center justify-center gap-2">
-                        <i className="fas fa-calendar-check text-xs"></i>
-                        <span>PAYMENT TERM</span>
-                      </div>
-                    </div>
-                  );
-                } else if (col.key === 'paymentMethodUsd') {
+              <div className="w-12 min-w-12 border-r-2 border-gray-400 dark:border-gray-600 bg-gray-300 dark:bg-gray-800 sticky left-0 z-10"></div>
+              {columns.map((col, colIndex) => {
+                const subgroup = 'subgroup' in col ? col.subgroup : undefined;
+                const subgroupHeader = subgroup ? subgroupHeaders[subgroup] : undefined;
+                if (subgroup && subgroupHeader) {
+                  // One banner per run of adjacent columns from the same subgroup
+                  const previous = columns[colIndex - 1];
+                  if (previous && 'subgroup' in previous && previous.subgroup === subgroup) {
+                    return null;
+                  }
+                  let runWidth = 0;
+                  for (let i = colIndex; i < columns.length; i++) {
+                    const runCol = columns[i];
+                    if (!('subgroup' in runCol) || runCol.subgroup !== subgroup) break;
+                    runWidth += runCol.width;
+                  }
                   return (
                     <div
-                      key={`group-payment-method`}
-                      className="bg-orange-500 dark:bg-orange-700 px-3 py-2 text-xs font-bold text-white text-center border-r-2 border-orange-600 dark:border-orange-800 shadow-inner"
-                      style={{ width: `${paymentMethodWidth}px`, minWidth: `${paymentMethodWidth}px` }}
+                      key={`group-${subgroup}-${col.key}`}
+                      className={`${subgroupHeader.className} px-3 py-2 text-xs font-bold text-white text-center border-r-2 shadow-inner`}
+                      style={{ width: `${runWidth}px`, minWidth: `${runWidth}px`, ...getPinnedStyle(col.key, 5) }}
                     >
                       <div className="flex items-center justify-center gap-2">
-                        <i className="fas fa-credit-card text-xs"></i>
-                        <span>PAYMENT METHOD</span>
+                        <i className={`fas ${subgroupHeader.icon} text-xs`}></i>
+                        <span>{subgroupHeader.label}</span>
                       </div>
                     </div>
                   );
-                } else if ('subgroup' in col && col.subgroup) {
-                  // Skip rendering for other columns in the group (they're covered by the group header)
-                  return null;
-                } else {
-                  // Regular column - show empty space for alignment
-                  return (
-                    <div
-                      key={`group-empty-${col.key}`}
-                      className="border-r border-gray-300 dark:border-gray-600 bg-gray-200 dark:bg-gray-800"
-                      style={{ width: `${col.width}px`, minWidth: `${col.width}px` }}
-                    ></div>
-                  );
                 }
+                // Regular column - show empty space for alignment
+                return (
+                  <div
+                    key={`group-empty-${col.key}`}
+                    className={`border-r border-gray-300 dark:border-gray-600 bg-gray-200 dark:bg-gray-800 ${pinnedEdgeClass(col.key)}`}
+                    style={{ width: `${col.width}px`, minWidth: `${col.width}px`, ...getPinnedStyle(col.key, 5) }}
+                  ></div>
+                );
               })}
             </div>
             {/* Column Headers with Better Styling */}
             <div className="flex border-b-2 border-gray-400 dark:border-gray-600 bg-gray-200 dark:bg-gray-800">
-              <div className="min-w-12 border-r-2 border-gray-400 dark:border-gray-600 bg-gray-400 dark:bg-gray-700 flex items-center justify-center text-xs font-bold text-gray-800 dark:text-gray-200 sticky left-0 z-10 shadow-md">
+              <div className="w-12 min-w-12 border-r-2 border-gray-400 dark:border-gray-600 bg-gray-400 dark:bg-gray-700 flex items-center justify-center text-xs font-bold text-gray-800 dark:text-gray-200 sticky left-0 z-10 shadow-md">
                 <i className="fas fa-hashtag mr-1"></i>
                 #
               </div>
               {columns.map((col) => {
-                const isCustomColumn = customColumns.some(cc => cc.key === col.key);
+                const customColumn = customColumns.find(cc => cc.key === col.key);
+                const subgroupHeader = 'subgroup' in col && col.subgroup ? subgroupHeaders[col.subgroup] : undefined;
                 return (
                   <div
                     key={col.key}
                     className={`px-3 py-3 text-xs font-bold text-gray-800 dark:text-gray-200 border-r border-gray-300 dark:border-gray-600 whitespace-nowrap hover:bg-gray-300 dark:hover:bg-gray-700 transition-colors cursor-default relative group ${
                       ('group' in col && col.group === 'Custom Fields')
                         ? 'bg-yellow-50 dark:bg-yellow-900/30'
-                        : ('subgroup' in col && col.subgroup === 'HK')
-                        ? 'bg-blue-50 dark:bg-blue-900/30' 
-                        : ('subgroup' in col && col.subgroup === 'DUBAI')
-                        ? 'bg-green-50 dark:bg-green-900/30'
-                        : ('subgroup' in col && col.subgroup === 'PAYMENT_TERM')
-                        ? 'bg-purple-50 dark:bg-purple-900/30'
-                        : ('subgroup' in col && col.subgroup === 'PAYMENT_METHOD')
-                        ? 'bg-orange-50 dark:bg-orange-900/30'
+                        : subgroupHeader
+                        ? subgroupHeader.columnClassName
                         : 'bg-gray-200 dark:bg-gray-800'
-                    }`}
-                    style={{ width: `${col.width}px`, minWidth: `${col.width}px` }}
+                    } ${pinnedEdgeClass(col.key)}`}
+                    style={{ width: `${col.width}px`, minWidth: `${col.width}px`, ...getPinnedStyle(col.key, 5) }}
                     title={col.label}
+                    data-column={col.key}
                   >
                     <div className="flex items-center gap-1 justify-between">
                       <div className="flex items-center gap-1 flex-1 min-w-0">
@@ -3391,7 +4727,20 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
                         )}
                         <span className="truncate">{col.label.replace('*', '')}</span>
                       </div>
-                      {isCustomColumn && (
+                      {customColumn && (
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setCustomColumnModal({ column: customColumn });
+                          }}
+                          className="ml-1 p-1 text-blue-500 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0"
+                          title="Edit type and rules"
+                        >
+                          <i className="fas fa-pen text-xs"></i>
+                        </button>
+                      )}
+                      {customColumn && (
                         <button
                           type="button"
                           onClick={(e) => {
@@ -3405,6 +4754,17 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
                         </button>
                       )}
                     </div>
+                    {/* Resize handle */}
+                    <div
+                      onMouseDown={(e) => startColumnResize(e, col.key, col.width)}
+                      onDoubleClick={() => {
+                        const widths = { ...columnLayout.widths };
+                        delete widths[col.key];
+                        updateColumnLayout({ ...columnLayout, widths });
+                      }}
+                      className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-blue-400 dark:hover:bg-blue-600"
+                      title="Drag to resize, double-click to restore the default width"
+                    ></div>
                   </div>
                 );
               })}
@@ -3413,7 +4773,7 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
                 <div
                   className="px-3 py-3 text-xs font-bold text-gray-800 dark:text-gray-200 border-r border-gray-300 dark:border-gray-600 bg-green-50 dark:bg-green-900/30 hover:bg-green-100 dark:hover:bg-green-900/50 transition-colors cursor-pointer flex items-center justify-center"
                   style={{ width: '80px', minWidth: '80px' }}
-                  onClick={() => setShowAddColumnModal(true)}
+                  onClick={() => setCustomColumnModal({ column: null })}
                   title="Add Custom Column"
                 >
                   <i className="fas fa-plus text-green-600 dark:text-green-400 text-lg"></i>
@@ -3424,170 +4784,156 @@ const ExcelLikeProductForm: React.FC<ExcelLikeProductFormProps> = ({
 
           {/* Enhanced Rows */}
           <div ref={rowsContainerRef} className="relative">
-            {rows.map((row, rowIndex) => (
-              <div
-                key={rowIndex}
-                className={`flex border-b border-gray-200 dark:border-gray-700 transition-all duration-150 ${
-                  rowIndex % 2 === 0 
-                    ? 'bg-white dark:bg-gray-900' 
-                    : 'bg-gray-50/50 dark:bg-gray-800/30'
-                } ${
-                  focusedCell?.row === rowIndex
-                    ? 'bg-blue-50 dark:bg-blue-900/20 shadow-inner'
-                    : 'hover:bg-blue-50/50 dark:hover:bg-blue-900/10'
-                }`}
-              >
-                {/* Enhanced Row Number */}
-                <div className="min-w-12 border-r-2 border-gray-300 dark:border-gray-700 bg-gray-200 dark:bg-gray-800 flex items-center justify-center text-xs font-bold text-gray-700 dark:text-gray-300 sticky left-0 z-5 shadow-sm">
-                  <div className="flex flex-col items-center gap-2">
-                    <div 
-                      onClick={() => setSelectedRowIndex(rowIndex)}
-                      className={`w-6 h-6 rounded-full flex items-center justify-center text-white font-bold shadow-md cursor-pointer transition-all ${
-                        selectedRowIndex === rowIndex 
-                          ? 'bg-green-600 dark:bg-green-700 ring-2 ring-green-400 ring-offset-2' 
-                          : 'bg-blue-600 dark:bg-blue-700 hover:bg-blue-700 dark:hover:bg-blue-600'
-                      }`}
-                      title={selectedRowIndex === rowIndex ? 'Selected for search fill (click to deselect)' : 'Click to select this row for search fill'}
-                    >
-                      {rowIndex + 1}
-                    </div>
-                    <div className="flex gap-1">
-                      <button
-                        type="button"
-                        onClick={() => duplicateRow(rowIndex)}
-                        className="p-1 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/30 rounded transition-colors"
-                        title="Duplicate Row"
-                      >
-                        <i className="fas fa-copy text-xs"></i>
-                      </button>
-                      {rows.length > 1 && (
-                        <button
-                          type="button"
-                          onClick={() => removeRow(rowIndex)}
-                          className="p-1 text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 hover:bg-red-100 dark:hover:bg-red-900/30 rounded transition-colors"
-                          title="Delete Row"
-                        >
-                          <i className="fas fa-trash text-xs"></i>
-                        </button>
-                      )}
-                    </div>
-                  </div>
-                </div>
-
-                {/* Enhanced Cells */}
-                {columns.map((col) => {
-                  // Regular columns including totalMoq (now rendered normally in each row)
-                  return (
-                    <div
-                      key={`${rowIndex}-${col.key}`}
-                      className={`px-0 py-1.5 border-r border-gray-200 dark:border-gray-700 relative group transition-all duration-150 flex ${
-                        focusedCell?.row === rowIndex && focusedCell?.col === col.key
-                          ? ''
-                          : 'hover:bg-gray-50 dark:hover:bg-gray-800/50'
-                      }`}
-                      style={{ 
-                        width: `${col.width}px`, 
-                        minWidth: `${col.width}px`,
-                        justifyContent:'center',
-                        alignItems:'center'
-                      }}
-                      onDoubleClick={() => {
-                        if (col.key === 'totalMoq' && variantType === 'multi') {
-                          // For totalMoq, fill all below rows with the same value
-                          fillAllBelow(rowIndex, col.key);
-                        } else {
-                          fillAllBelow(rowIndex, col.key);
-                        }
-                      }}
-                      title="Double-click to fill all below"
-                    >
-                      <div className="px-2 w-full">
-                        {renderCell(row, rowIndex, col)}
-                      </div>
-                      {col.key !== 'totalMoq' && rowIndex < rows.length - 1 && focusedCell?.row === rowIndex && focusedCell?.col === col.key && (
-                        <button
-                          type="button"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            fillDown(rowIndex, col.key);
-                          }}
-                          className="absolute bottom-1 right-1 bg-blue-600 text-white text-xs px-2 py-1 rounded-lg shadow-lg hover:bg-blue-700 z-20 transform hover:scale-110 transition-all duration-200 flex items-center gap-1"
-                          title="Fill Down (Ctrl+D)"
-                        >
-                          <i className="fas fa-arrow-down text-xs"></i>
-                          <span className="text-xs font-medium">Fill</span>
-                        </button>
-                      )}
-                      {/* Hover indicator */}
-                      <div className="absolute inset-0 border-2 border-transparent group-hover:border-blue-300 dark:group-hover:border-blue-700 rounded pointer-events-none transition-all duration-150"></div>
-                    </div>
-                  );
-                })}
-                {/* Add Column Button Cell */}
-                {hasPermissionedFields && (
-                  <div
-                    className="px-2 py-1.5 border-r border-gray-200 dark:border-gray-700 flex items-center justify-center bg-green-50 dark:bg-green-900/30 hover:bg-green-100 dark:hover:bg-green-900/50 transition-colors cursor-pointer"
-                    style={{ width: '80px', minWidth: '80px' }}
-                    onClick={() => setShowAddColumnModal(true)}
-                    title="Add Custom Column"
-                  >
-                    <i className="fas fa-plus text-green-600 dark:text-green-400"></i>
-                  </div>
-                )}
-              </div>
+            {firstRow > 0 && <div style={{ height: `${firstRow * rowHeight}px` }}></div>}
+            {rows.slice(firstRow, lastRow).map((row, offset) => (
+              <GridRow
+                key={firstRow + offset}
+                state={getRowState(row, firstRow + offset)}
+                render={renderGridRow}
+              />
             ))}
+            {lastRow < rows.length && <div style={{ height: `${(rows.length - lastRow) * rowHeight}px` }}></div>}
           </div>
         </div>
       </div>
+
+      {showMoqSummary && (
+        <MoqSummaryBar summary={getMoqSummary(rows, totalMoq)} issues={moqIssues} onJump={jumpToCell} />
+      )}
     </form>
 
-      {/* Add Column Modal */}
-      {showAddColumnModal && (
-        <div className="fixed inset-0 flex items-center justify-center bg-black/60 z-50" onClick={() => setShowAddColumnModal(false)}>
-          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full mx-4" onClick={(e) => e.stopPropagation()}>
-            <div className="p-6 border-b border-gray-200 dark:border-gray-700">
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Add Custom Column</h3>
-              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Enter a name for the new column</p>
-            </div>
-            <div className="p-6">
-              <div className="mb-4">
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Column Name
-                </label>
-                <input
-                  type="text"
-                  value={newColumnName}
-                  onChange={(e) => setNewColumnName(e.target.value)}
-                  onKeyPress={(e) => {
-                    if (e.key === 'Enter') {
-                      handleAddCustomColumn();
-                    }
-                  }}
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder="e.g., Special Notes, Warranty Info"
-                  autoFocus
-                />
-              </div>
-            </div>
-            <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
-              <button
-                onClick={() => {
-                  setShowAddColumnModal(false);
-                  setNewColumnName('');
-                }}
-                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleAddCustomColumn}
-                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
-              >
-                Add Column
-              </button>
-            </div>
-          </div>
-        </div>
+      {/* Add / Edit Custom Column Modal */}
+      {customColumnModal && (
+        <CustomColumnModal
+          column={customColumnModal.column}
+          existingKeys={columns.map(col => col.key)}
+          onSave={handleSaveCustomColumn}
+          onClose={() => setCustomColumnModal(null)}
+        />
+      )}
+
+      {showBulkEditModal && (
+        <BulkEditModal
+          fields={bulkEditFields}
+          cellCount={selectedCellCount}
+          onClose={() => setShowBulkEditModal(false)}
+          onApply={handleBulkSet}
+        />
+      )}
+
+      {showPresetsModal && (
+        <RowPresetsModal
+          valueContext={{ constants, grades, skuFamilies, customColumns }}
+          sourceRow={presetTargetRows.length > 0 ? { index: presetTargetRows[0], row: rows[presetTargetRows[0]] } : null}
+          selectedRowCount={presetTargetRows.length}
+          newRowPresetId={newRowPresetId}
+          onApply={applyRowPreset}
+          onClose={() => setShowPresetsModal(false)}
+        />
+      )}
+
+      {showFindReplaceModal && (
+        <FindReplaceModal
+          rows={rows}
+          columns={columns.filter(col => !READ_ONLY_GRID_FIELDS.includes(col.key))}
+          valueContext={{ constants, grades, skuFamilies, customColumns }}
+          isCellWritable={isCellWritable}
+          onJump={(row, field) => {
+            setShowFindReplaceModal(false);
+            jumpToCell(row, field);
+          }}
+          onApply={handleFindReplace}
+          onClose={() => setShowFindReplaceModal(false)}
+        />
+      )}
+
+      {showBulkPriceModal && (
+        <BulkPriceModal
+          rows={rows}
+          targetRows={priceTargetRows}
+          hubs={deliveryHubs}
+          fields={priceFields}
+          getRepricedRows={(adjustment) => getRepricedRows(adjustment, priceTargetRows)}
+          onApply={applyPriceAdjustment}
+          onClose={() => setShowBulkPriceModal(false)}
+        />
+      )}
+
+      {duplicateReview && (
+        <DuplicateListingsModal
+          rows={duplicateReview.rows}
+          batch={duplicateReview.batch}
+          existing={duplicateReview.existing}
+          valueContext={{ constants, grades, skuFamilies, customColumns }}
+          onConfirm={resolveDuplicates}
+          onClose={() => setDuplicateReview(null)}
+        />
+      )}
+
+      {showExchangeRatesModal && exchangeRates && (
+        <ExchangeRatesModal
+          rates={exchangeRates}
+          hubs={deliveryHubs}
+          maxDeviationPercent={env.xeDeviationPercent}
+          emptyXeCount={emptyXeCells.length}
+          flaggedCount={flaggedXeCells.length}
+          onFillEmpty={() => applyReferenceXe(emptyXeCells)}
+          onResetFlagged={() => applyReferenceXe(flaggedXeCells)}
+          onClose={() => setShowExchangeRatesModal(false)}
+        />
+      )}
+
+      {showColumnLayoutModal && (
+        <ColumnLayoutModal
+          columns={applyColumnLayout(permittedColumns, columnLayout, true)}
+          layout={columnLayout}
+          onChange={updateColumnLayout}
+          onReset={resetColumnLayout}
+          onClose={() => setShowColumnLayoutModal(false)}
+        />
+      )}
+
+      {showExportModal && (
+        <SpreadsheetExportModal
+          title="Export Grid"
+          description={`${rows.length} row(s) as they are in the grid. Codes are written as their names, and the file can be imported again.`}
+          columns={applyColumnLayout(permittedColumns, columnLayout, true)}
+          initialSelected={columns.map(col => col.key)}
+          onExport={handleExportGrid}
+          onClose={() => setShowExportModal(false)}
+        />
+      )}
+
+      {showVariantMatrixModal && (
+        <VariantMatrixModal
+          axes={MATRIX_AXES.filter(({ field }) => hasPermission(field)).map(({ axis }) => axis)}
+          onAdd={addVariantRows}
+          onClose={() => setShowVariantMatrixModal(false)}
+        />
+      )}
+
+      {showSchedulePreview && (
+        <SchedulePreviewModal
+          rows={rows}
+          hubs={deliveryHubs}
+          getRowLabel={getRowLabel}
+          overlaps={scheduleOverlaps}
+          onJump={(row, field) => {
+            setShowSchedulePreview(false);
+            jumpToCell(row, field);
+          }}
+          onClose={() => setShowSchedulePreview(false)}
+        />
+      )}
+
+      {showHolidayModal && (
+        <HolidayCalendarModal
+          locations={currentLocationOptions}
+          calendars={holidayCalendars}
+          initialLocation={rows[focusedCell?.row ?? 0]?.currentLocation}
+          onSave={handleSaveHolidays}
+          onClose={() => setShowHolidayModal(false)}
+        />
       )}
 
       {/* Modals removed - sellers don't set margins/costs */}
@@ -0,0 +1,97 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { ExchangeRates } from '../../services/exchangeRate/exchangeRate.services';
+import { DeliveryHub } from '../../utils/deliveryHubs';
+
+interface ExchangeRatesModalProps {
+  rates: ExchangeRates;
+  hubs: DeliveryHub[];
+  // Allowed difference between a row's XE and the reference rate, in percent
+  maxDeviationPercent: number;
+  emptyXeCount: number;
+  flaggedCount: number;
+  onFillEmpty: () => void;
+  onResetFlagged: () => void;
+  onClose: () => void;
+}
+
+const ExchangeRatesModal: React.FC<ExchangeRatesModalProps> = ({
+  rates,
+  hubs,
+  maxDeviationPercent,
+  emptyXeCount,
+  flaggedCount,
+  onFillEmpty,
+  onResetFlagged,
+  onClose,
+}) => {
+  const updatedAt = rates.updatedAt ? new Date(rates.updatedAt) : null;
+  const pairs = hubs.map(hub => ({
+    label: `USD → ${hub.currency}`,
+    rate: rates.rates[hub.currency],
+    columns: `${hub.name} XE`,
+  }));
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/60 z-50" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full mx-4" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Reference Exchange Rates</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {updatedAt && !isNaN(updatedAt.getTime())
+                ? `Last updated ${format(updatedAt, 'MMM dd, yyyy HH:mm')}`
+                : 'Last update time unknown'}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+          >
+            <i className="fas fa-times text-lg"></i>
+          </button>
+        </div>
+        <div className="p-6 space-y-4">
+          <table className="w-full">
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {pairs.map(pair => (
+                <tr key={pair.columns}>
+                  <td className="py-2 text-sm font-medium text-gray-800 dark:text-gray-100">{pair.label}</td>
+                  <td className="py-2 text-sm text-gray-500 dark:text-gray-400">{pair.columns}</td>
+                  <td className="py-2 text-sm text-right font-semibold text-gray-900 dark:text-white">
+                    {pair.rate ? pair.rate.toFixed(4) : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Empty XE cells are filled from this table as you enter prices. Rows whose rate differs by more
+            than {maxDeviationPercent}% are flagged.
+          </p>
+        </div>
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onFillEmpty}
+            disabled={emptyXeCount === 0}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Fill Empty XE ({emptyXeCount})
+          </button>
+          <button
+            type="button"
+            onClick={onResetFlagged}
+            disabled={flaggedCount === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-yellow-500 rounded-lg hover:bg-yellow-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Use Reference for Flagged ({flaggedCount})
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExchangeRatesModal;
@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import { GridValueContext } from '../../utils/productGridValues';
+import { findGridMatches, FindReplaceMatch, FindReplaceOptions } from '../../utils/gridFindReplace';
+
+interface FindReplaceModalProps {
+  rows: Array<Record<string, unknown>>;
+  // Writable grid columns, in display order
+  columns: Array<{ key: string; label: string }>;
+  valueContext: GridValueContext;
+  isCellWritable: (row: number, field: string) => boolean;
+  onJump: (row: number, field: string) => void;
+  onApply: (matches: FindReplaceMatch[]) => void;
+  onClose: () => void;
+}
+
+const FindReplaceModal: React.FC<FindReplaceModalProps> = ({
+  rows,
+  columns,
+  valueContext,
+  isCellWritable,
+  onJump,
+  onApply,
+  onClose,
+}) => {
+  const [options, setOptions] = useState<FindReplaceOptions>({
+    find: '',
+    replace: '',
+    field: null,
+    matchCase: false,
+    wholeCell: false,
+  });
+  // Matches the seller unticked in the preview, by `${row}-${field}`
+  const [excluded, setExcluded] = useState<string[]>([]);
+
+  const matches = useMemo(
+    () => findGridMatches(rows, columns.map(col => col.key), options, valueContext, isCellWritable),
+    [rows, columns, options, valueContext, isCellWritable]
+  );
+  const applicable = matches.filter(match => match.valid && !excluded.includes(`${match.row}-${match.field}`));
+  const invalidCount = matches.filter(match => !match.valid).length;
+
+  const updateOptions = (changes: Partial<FindReplaceOptions>) => {
+    setOptions(prev => ({ ...prev, ...changes }));
+    setExcluded([]);
+  };
+
+  const toggleMatch = (key: string) => {
+    setExcluded(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+  };
+
+  const labelFor = (field: string) => columns.find(col => col.key === field)?.label.replace('*', '') || field;
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/60 z-50" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Find and Replace</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Review the matches below before replacing. Dropdown columns only accept valid options.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+          >
+            <i className="fas fa-times text-lg"></i>
+          </button>
+        </div>
+        <div className="p-6 space-y-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Find</label>
+              <input
+                type="text"
+                value={options.find}
+                onChange={(e) => updateOptions({ find: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder={options.wholeCell ? 'Leave empty to find empty cells' : 'Text to find'}
+                autoFocus
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Replace with</label>
+              <input
+                type="text"
+                value={options.replace}
+                onChange={(e) => updateOptions({ replace: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Leave empty to clear"
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <select
+              value={options.field || ''}
+              onChange={(e) => updateOptions({ field: e.target.value || null })}
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All columns</option>
+              {columns.map(col => (
+                <option key={col.key} value={col.key}>{col.label.replace('*', '')}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={options.matchCase}
+                onChange={(e) => updateOptions({ matchCase: e.target.checked })}
+                className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+              />
+              Match case
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={options.wholeCell}
+                onChange={(e) => updateOptions({ wholeCell: e.target.checked })}
+                className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+              />
+              Match entire cell
+            </label>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto">
+          {matches.length === 0 ? (
+            <div className="p-12 text-center text-sm text-gray-500 dark:text-gray-400">
+              {options.find || options.wholeCell ? 'No matching cells.' : 'Enter text to find.'}
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-900 sticky top-0">
+                <tr>
+                  <th className="w-10 px-6 py-3"></th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase">Cell</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase">Current</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase">Replacement</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {matches.map(match => {
+                  const key = `${match.row}-${match.field}`;
+                  return (
+                    <tr key={key} className={match.valid ? '' : 'bg-red-50 dark:bg-red-900/20'}>
+                      <td className="px-6 py-2">
+                        <input
+                          type="checkbox"
+                          checked={match.valid && !excluded.includes(key)}
+                          disabled={!match.valid}
+                          onChange={() => toggleMatch(key)}
+                          className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500 disabled:opacity-50"
+                        />
+                      </td>
+                      <td className="px-4 py-2 text-sm whitespace-nowrap">
+                        <button
+                          type="button"
+                          onClick={() => onJump(match.row, match.field)}
+                          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                          title="Go to cell"
+                        >
+                          Row {match.row + 1} · {labelFor(match.field)}
+                        </button>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 max-w-[200px] truncate" title={match.before}>
+                        {match.before || <span className="italic text-gray-400">(empty)</span>}
+                      </td>
+                      <td className="px-4 py-2 text-sm max-w-[240px]">
+                        <div className="truncate text-gray-800 dark:text-gray-100" title={match.after}>
+                          {match.after || <span className="italic text-gray-400">(empty)</span>}
+                        </div>
+                        {!match.valid && (
+                          <div className="text-xs text-red-600 dark:text-red-400">{match.message}</div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between gap-3">
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {matches.length} {matches.length === 1 ? 'match' : 'matches'}
+            {invalidCount > 0 && `, ${invalidCount} not valid for their column`}
+          </span>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => onApply(applicable)}
+              disabled={applicable.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Replace {applicable.length > 0 ? applicable.length : ''}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FindReplaceModal;
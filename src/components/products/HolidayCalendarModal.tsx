@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import DatePicker from 'react-datepicker';
+import 'react-datepicker/dist/react-datepicker.css';
+import { HolidayCalendars } from '../../services/holidayCalendar/holidayCalendarStorage';
+import { formatDay } from '../../utils/productGridValues';
+
+interface HolidayCalendarModalProps {
+  locations: Array<{ code: string; name: string }>;
+  calendars: HolidayCalendars;
+  // Location to open on, e.g. the focused row's current location
+  initialLocation?: string;
+  onSave: (calendars: HolidayCalendars) => void;
+  onClose: () => void;
+}
+
+const HolidayCalendarModal: React.FC<HolidayCalendarModalProps> = ({
+  locations,
+  calendars,
+  initialLocation,
+  onSave,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<HolidayCalendars>(calendars);
+  const [location, setLocation] = useState(
+    locations.some(option => option.code === initialLocation) ? initialLocation || '' : locations[0]?.code || ''
+  );
+  const [date, setDate] = useState<Date | null>(null);
+  const [name, setName] = useState('');
+
+  const holidays = draft[location] || [];
+
+  const handleAdd = () => {
+    if (!date || !location) return;
+    const day = formatDay(date);
+    const others = holidays.filter(holiday => holiday.date !== day);
+    setDraft(prev => ({
+      ...prev,
+      [location]: [...others, { date: day, name: name.trim() }].sort((a, b) => a.date.localeCompare(b.date)),
+    }));
+    setDate(null);
+    setName('');
+  };
+
+  const handleRemove = (day: string) => {
+    setDraft(prev => ({ ...prev, [location]: holidays.filter(holiday => holiday.date !== day) }));
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/60 z-50" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Holiday Calendar</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Business-day shipping times skip weekends and these holidays of the row's current location.
+          </p>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {locations.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">No current locations are available.</p>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Current Location</label>
+                <select
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {locations.map(option => (
+                    <option key={option.code} value={option.code}>
+                      {option.name} ({(draft[option.code] || []).length})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-end gap-2">
+                <div className="w-36">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Date</label>
+                  <DatePicker
+                    selected={date}
+                    onChange={(picked) => setDate(picked)}
+                    dateFormat="yyyy-MM-dd"
+                    placeholderText="Select date"
+                    className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    wrapperClassName="w-full"
+                  />
+                </div>
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleAdd();
+                      }
+                    }}
+                    placeholder="e.g. Lunar New Year"
+                    className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={handleAdd}
+                  disabled={!date}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <i className="fas fa-plus mr-1"></i>Add
+                </button>
+              </div>
+              {holidays.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">No holidays for this location yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {holidays.map(holiday => (
+                    <li key={holiday.date} className="flex items-center justify-between py-2 text-sm">
+                      <span>
+                        <span className="font-medium text-gray-800 dark:text-gray-200">{holiday.date}</span>
+                        {holiday.name && <span className="ml-3 text-gray-600 dark:text-gray-400">{holiday.name}</span>}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(holiday.date)}
+                        className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                        title="Remove holiday"
+                      >
+                        <i className="fas fa-trash-alt"></i>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onSave(draft)}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HolidayCalendarModal;
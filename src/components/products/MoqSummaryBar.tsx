@@ -0,0 +1,64 @@
+import React from 'react';
+import { GridValidationError, MoqSummary } from '../../utils/productGridValidation';
+
+interface MoqSummaryBarProps {
+  summary: MoqSummary;
+  // MOQ rule violations, live whether or not validation is shown in the grid
+  issues: GridValidationError[];
+  onJump: (row: number, field: string) => void;
+}
+
+const MoqSummaryBar: React.FC<MoqSummaryBarProps> = ({ summary, issues, onJump }) => {
+  const stats = [
+    { label: 'Variants', value: summary.variantCount },
+    { label: 'Total qty', value: summary.totalQty },
+    { label: 'Smallest MOQ/variant', value: summary.minMoq ?? '—' },
+    { label: 'MOQ per cart', value: summary.totalMoq ?? '—' },
+    { label: 'Full / Partial', value: `${summary.fullCount} / ${summary.partialCount}` },
+  ];
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 px-6 py-2">
+      <div className="flex flex-wrap items-center gap-x-5 gap-y-1 text-xs">
+        <span className="flex items-center gap-2 font-semibold text-gray-700 dark:text-gray-300">
+          <i className="fas fa-boxes text-purple-500"></i>
+          MOQ
+        </span>
+        {stats.map(stat => (
+          <span key={stat.label} className="text-gray-600 dark:text-gray-400">
+            {stat.label}: <span className="font-semibold text-gray-800 dark:text-gray-200">{stat.value}</span>
+          </span>
+        ))}
+        {issues.length === 0 ? (
+          <span className="ml-auto flex items-center gap-1 font-semibold text-green-700 dark:text-green-300">
+            <i className="fas fa-check-circle"></i>
+            Buyers can fill a cart
+          </span>
+        ) : (
+          <span className="ml-auto flex items-center gap-1 font-semibold text-red-700 dark:text-red-300">
+            <i className="fas fa-exclamation-circle"></i>
+            {issues.length} MOQ {issues.length === 1 ? 'issue' : 'issues'}
+          </span>
+        )}
+      </div>
+      {issues.length > 0 && (
+        <ul className="mt-1 space-y-0.5 max-h-24 overflow-y-auto">
+          {issues.map((issue, index) => (
+            <li key={`${issue.row}-${issue.field}-${index}`}>
+              <button
+                type="button"
+                onClick={() => onJump(issue.row, issue.field)}
+                className="text-xs text-red-700 dark:text-red-300 hover:underline text-left"
+              >
+                <i className="fas fa-arrow-right mr-2 text-red-400"></i>
+                {issue.message}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MoqSummaryBar;
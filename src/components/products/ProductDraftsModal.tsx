@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Swal from 'sweetalert2';
+import { format } from 'date-fns';
+import toastHelper from '../../utils/toastHelper';
+import { ProductDraft, ProductDraftStorage } from '../../services/productDraft/productDraftStorage';
+import { ProductDraftService } from '../../services/productDraft/productDraft.services';
+
+interface ProductDraftsModalProps {
+  onClose: () => void;
+}
+
+const ProductDraftsModal: React.FC<ProductDraftsModalProps> = ({ onClose }) => {
+  const navigate = useNavigate();
+  const [drafts, setDrafts] = useState<ProductDraft[]>(() => ProductDraftStorage.list());
+  const [syncState, setSyncState] = useState<'syncing' | 'synced' | 'offline'>('syncing');
+
+  const refresh = () => setDrafts(ProductDraftStorage.list());
+
+  // Drafts follow the seller account: pull the server list, then push local changes
+  useEffect(() => {
+    let cancelled = false;
+    const syncDrafts = async () => {
+      try {
+        const res = await ProductDraftService.list();
+        if (cancelled) return;
+        const pending = ProductDraftStorage.mergeServerList(res.data || []);
+        setDrafts(ProductDraftStorage.list());
+        await Promise.all(pending.map(id => ProductDraftService.sync(id)));
+        if (cancelled) return;
+        setDrafts(ProductDraftStorage.list());
+        setSyncState('synced');
+      } catch {
+        if (!cancelled) setSyncState('offline');
+      }
+    };
+    syncDrafts();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleRestore = (draft: ProductDraft) => {
+    onClose();
+    navigate(`/products/create?type=${draft.variantType}&draftId=${encodeURIComponent(draft.id)}`);
+  };
+
+  const handleRename = async (draft: ProductDraft) => {
+    const result = await Swal.fire({
+      title: 'Rename Draft',
+      input: 'text',
+      inputValue: draft.name,
+      showCancelButton: true,
+      confirmButtonText: 'Save',
+      confirmButtonColor: '#0071E0',
+      inputValidator: (value) => (!value.trim() ? 'Name is required' : undefined),
+    });
+    if (!result.isConfirmed) return;
+    ProductDraftStorage.rename(draft.id, result.value);
+    refresh();
+    ProductDraftService.sync(draft.id);
+  };
+
+  const handleDuplicate = (draft: ProductDraft) => {
+    const copy = ProductDraftStorage.duplicate(draft.id);
+    if (copy) {
+      toastHelper.showTost(`Created "${copy.name}"`, 'success');
+      ProductDraftService.sync(copy.id);
+    }
+    refresh();
+  };
+
+  const handleDelete = async (draft: ProductDraft) => {
+    const confirmed = await Swal.fire({
+      title: 'Delete Draft?',
+      text: `"${draft.name}" will be permanently deleted.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Yes, delete it!',
+      cancelButtonText: 'No, cancel!',
+    });
+    if (!confirmed.isConfirmed) return;
+    ProductDraftStorage.remove(draft.id);
+    refresh();
+    ProductDraftService.delete(draft.id).catch(() => undefined);
+  };
+
+  const formatUpdatedAt = (value: string) => {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? '-' : format(date, 'MMM dd, yyyy HH:mm');
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/60 z-50" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Product Drafts</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {syncState === 'syncing' && (
+                <><i className="fas fa-spinner fa-spin mr-1"></i>Syncing with your account...</>
+              )}
+              {syncState === 'synced' && (
+                <><i className="fas fa-cloud mr-1 text-green-500"></i>Unsubmitted product grids, shared across your devices</>
+              )}
+              {syncState === 'offline' && (
+                <><i className="fas fa-exclamation-triangle mr-1 text-yellow-500"></i>Could not reach the server; showing drafts on this device only</>
+              )}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+          >
+            <i className="fas fa-times text-lg"></i>
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto">
+          {drafts.length === 0 ? (
+            <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+              <i className="fas fa-file-alt text-3xl mb-3 block"></i>
+              <p className="text-sm">No drafts yet. The product grid saves one automatically as you work.</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-900 sticky top-0">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase">Name</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase">Type</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase">Rows</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase">Last Modified</th>
+                  <th className="px-6 py-3 text-right text-xs font-semibold text-gray-600 dark:text-gray-300 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {drafts.map(draft => (
+                  <tr key={draft.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                    <td className="px-6 py-3 text-sm font-medium text-gray-800 dark:text-gray-100 max-w-xs truncate" title={draft.name}>
+                      {draft.name}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-300">
+                      {draft.variantType === 'multi' ? 'Multi-variant' : 'Single-variant'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-300">{draft.rows.length}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-300 whitespace-nowrap">
+                      {formatUpdatedAt(draft.updatedAt)}
+                    </td>
+                    <td className="px-6 py-3 text-right whitespace-nowrap">
+                      <div className="inline-flex items-center gap-3">
+                        <button
+                          type="button"
+                          onClick={() => handleRestore(draft)}
+                          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                          title="Open draft"
+                        >
+                          <i className="fas fa-folder-open"></i>
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleRename(draft)}
+                          className="text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
+                          title="Rename draft"
+                        >
+                          <i className="fas fa-pen"></i>
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDuplicate(draft)}
+                          className="text-purple-600 hover:text-purple-800 dark:text-purple-400 dark:hover:text-purple-300"
+                          title="Duplicate draft"
+                        >
+                          <i className="fas fa-copy"></i>
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(draft)}
+                          className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                          title="Delete draft"
+                        >
+                          <i className="fas fa-trash"></i>
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductDraftsModal;
@@ -0,0 +1,296 @@
+import React, { useState } from 'react';
+import Select from 'react-select';
+import DatePicker from 'react-datepicker';
+import 'react-datepicker/dist/react-datepicker.css';
+import { NumberRange, ProductListFilters, ProductListSort } from '../../services/products/products.services';
+import { LIST_FILTERS, ProductFilterOptions, SORT_FIELDS } from '../../utils/productListFilters';
+
+interface ProductFilterModalProps {
+  filters: ProductListFilters;
+  sort: ProductListSort[];
+  // Null while SKU families and grades are loading
+  options: ProductFilterOptions | null;
+  onApply: (filters: ProductListFilters, sort: ProductListSort[]) => void;
+  onClose: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+// Blank inputs leave the bound open
+const toBound = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const number = Number(value);
+  return isFinite(number) ? number : undefined;
+};
+
+const toFlag = (value: string): boolean | undefined => (value === '' ? undefined : value === 'yes');
+
+const fromFlag = (value: boolean | undefined): string => (value === undefined ? '' : value ? 'yes' : 'no');
+
+const ProductFilterModal: React.FC<ProductFilterModalProps> = ({ filters, sort, options, onApply, onClose }) => {
+  const [draft, setDraft] = useState<ProductListFilters>(filters);
+  const [sortDraft, setSortDraft] = useState<ProductListSort[]>(sort);
+
+  const update = (changes: Partial<ProductListFilters>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const prices = draft.prices || [];
+  const unusedCurrencies = (options?.currencies || []).filter(currency => !prices.some(price => price.currency === currency));
+  const updatePrice = (index: number, changes: Partial<NumberRange & { currency: string }>) =>
+    update({ prices: prices.map((price, i) => (i === index ? { ...price, ...changes } : price)) });
+
+  const unusedSortFields = SORT_FIELDS.filter(({ field }) => !sortDraft.some(level => level.field === field));
+
+  const renderRangeInputs = (range: NumberRange | undefined, onChange: (range: NumberRange) => void) => (
+    <div className="flex items-center gap-2">
+      <input
+        type="number"
+        value={range?.min ?? ''}
+        onChange={(e) => onChange({ ...range, min: toBound(e.target.value) })}
+        placeholder="Min"
+        className={inputClassName}
+      />
+      <span className="text-gray-400">–</span>
+      <input
+        type="number"
+        value={range?.max ?? ''}
+        onChange={(e) => onChange({ ...range, max: toBound(e.target.value) })}
+        placeholder="Max"
+        className={inputClassName}
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/60 z-50" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Filter &amp; Sort Products</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Each filter matches any of its values; products must match every filter.
+          </p>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {LIST_FILTERS.map(({ key, label }) => {
+              const keyOptions = options?.[key] || [];
+              return (
+                <div key={key}>
+                  <label className={labelClassName}>{label}</label>
+                  <Select
+                    isMulti
+                    isLoading={!options}
+                    options={keyOptions.map(option => ({ value: option.code, label: option.name }))}
+                    value={(draft[key] || []).map(value => ({
+                      value,
+                      label: keyOptions.find(option => option.code === value)?.name || value,
+                    }))}
+                    onChange={(selected) => update({ [key]: selected.map(option => option.value) })}
+                    placeholder={`Any ${label.toLowerCase()}`}
+                    className="text-sm"
+                    classNamePrefix="select"
+                    menuPortalTarget={document.body}
+                    styles={{ menuPortal: (provided) => ({ ...provided, zIndex: 9999 }) }}
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Price Range</label>
+              {unusedCurrencies.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => update({ prices: [...prices, { currency: unusedCurrencies[0] }] })}
+                  className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  <i className="fas fa-plus mr-1"></i>Add currency
+                </button>
+              )}
+            </div>
+            {prices.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Any price</p>
+            ) : (
+              <div className="space-y-2">
+                {prices.map((price, index) => (
+                  <div key={price.currency} className="flex items-center gap-2">
+                    <select
+                      value={price.currency}
+                      onChange={(e) => updatePrice(index, { currency: e.target.value })}
+                      className={`${inputClassName} w-28 shrink-0`}
+                    >
+                      {[price.currency, ...unusedCurrencies].map(currency => (
+                        <option key={currency} value={currency}>{currency}</option>
+                      ))}
+                    </select>
+                    <div className="flex-1">
+                      {renderRangeInputs(price, (range) => updatePrice(index, range))}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => update({ prices: prices.filter((_, i) => i !== index) })}
+                      className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                      title="Remove price range"
+                    >
+                      <i className="fas fa-trash-alt"></i>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClassName}>Stock</label>
+              {renderRangeInputs(draft.stock, (stock) => update({ stock }))}
+            </div>
+            <div>
+              <label className={labelClassName}>Flash Deal</label>
+              <select
+                value={fromFlag(draft.isFlashDeal)}
+                onChange={(e) => update({ isFlashDeal: toFlag(e.target.value) })}
+                className={inputClassName}
+              >
+                <option value="">Any</option>
+                <option value="yes">Yes</option>
+                <option value="no">No</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClassName}>Negotiable</label>
+              <select
+                value={fromFlag(draft.isNegotiable)}
+                onChange={(e) => update({ isNegotiable: toFlag(e.target.value) })}
+                className={inputClassName}
+              >
+                <option value="">Any</option>
+                <option value="yes">Yes</option>
+                <option value="no">No</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClassName}>Expires Between</label>
+            <div className="flex items-center gap-2">
+              <DatePicker
+                selected={draft.expiry?.from ? new Date(draft.expiry.from) : null}
+                onChange={(date) => {
+                  date?.setHours(0, 0, 0, 0);
+                  update({ expiry: { ...draft.expiry, from: date ? date.toISOString() : undefined } });
+                }}
+                dateFormat="yyyy-MM-dd"
+                placeholderText="From"
+                className={inputClassName}
+                wrapperClassName="w-full"
+              />
+              <span className="text-gray-400">–</span>
+              <DatePicker
+                selected={draft.expiry?.to ? new Date(draft.expiry.to) : null}
+                onChange={(date) => {
+                  // The window includes the whole last day
+                  date?.setHours(23, 59, 59, 999);
+                  update({ expiry: { ...draft.expiry, to: date ? date.toISOString() : undefined } });
+                }}
+                dateFormat="yyyy-MM-dd"
+                placeholderText="To"
+                className={inputClassName}
+                wrapperClassName="w-full"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Sort By</label>
+              {unusedSortFields.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setSortDraft(prev => [...prev, { field: unusedSortFields[0].field, direction: 'asc' }])}
+                  className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  <i className="fas fa-plus mr-1"></i>Add sort level
+                </button>
+              )}
+            </div>
+            {sortDraft.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Default order. Shift-click column headers to sort by several columns.</p>
+            ) : (
+              <div className="space-y-2">
+                {sortDraft.map((level, index) => (
+                  <div key={level.field} className="flex items-center gap-2">
+                    <span className="w-6 text-sm text-gray-500 dark:text-gray-400">{index + 1}.</span>
+                    <select
+                      value={level.field}
+                      onChange={(e) => setSortDraft(prev => prev.map((item, i) => (
+                        i === index ? { ...item, field: e.target.value as ProductListSort['field'] } : item
+                      )))}
+                      className={inputClassName}
+                    >
+                      {SORT_FIELDS.filter(({ field }) => field === level.field || unusedSortFields.some(unused => unused.field === field)).map(({ field, label }) => (
+                        <option key={field} value={field}>{label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={level.direction}
+                      onChange={(e) => setSortDraft(prev => prev.map((item, i) => (
+                        i === index ? { ...item, direction: e.target.value as ProductListSort['direction'] } : item
+                      )))}
+                      className={`${inputClassName} w-36 shrink-0`}
+                    >
+                      <option value="asc">Ascending</option>
+                      <option value="desc">Descending</option>
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => setSortDraft(prev => prev.filter((_, i) => i !== index))}
+                      className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                      title="Remove sort level"
+                    >
+                      <i className="fas fa-trash-alt"></i>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-between gap-3">
+          <button
+            type="button"
+            onClick={() => {
+              setDraft({});
+              setSortDraft([]);
+            }}
+            className="px-4 py-2 text-sm font-medium text-red-600 dark:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+          >
+            Clear all
+          </button>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => onApply(draft, sortDraft)}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductFilterModal;
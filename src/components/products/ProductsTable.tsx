@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import Swal from "sweetalert2";
 import { format } from "date-fns";
@@ -6,8 +6,37 @@ import toastHelper from "../../utils/toastHelper";
 import UploadExcelModal from "./UploadExcelModal";
 import ProductModal from "./ProductsModal";
 import VariantSelectionModal from "./VariantSelectionModal";
+import ProductDraftsModal from "./ProductDraftsModal";
 import ProductImageVideoModal from "./ProductImageVideoModal";
-import { ProductService } from "../../services/products/products.services";
+import SpreadsheetExportModal from "./SpreadsheetExportModal";
+import ProductFilterModal from "./ProductFilterModal";
+import {
+  ProductActiveStatus,
+  ProductListFilters,
+  ProductListSort,
+  ProductReviewStatus,
+  ProductService,
+  ProductSortField,
+} from "../../services/products/products.services";
+import { GradeService } from "../../services/grade/grade.services";
+import { SkuFamilyService } from "../../services/skuFamily/skuFamily.services";
+import { SellerProductPermissionService, SellerProductFieldPermission } from "../../services/sellerProductPermission/sellerProductPermission.services";
+import { useConstants } from "../../hooks/useConstants";
+import { getCountryName, getDeliveryHubs } from "../../utils/deliveryHubs";
+import { getProductGridColumns, ProductGridColumn } from "../../utils/productGridColumns";
+import { getProductCustomColumns, productToRowData, StoredProduct } from "../../utils/productRowData";
+import { SpreadsheetFormat, toSheetCells, writeSpreadsheet } from "../../utils/productSpreadsheet";
+import { CustomColumn } from "../../utils/customColumns";
+import {
+  cleanProductFilters,
+  getFilterChips,
+  getProductFilterOptions,
+  ProductFilterOptions,
+  ProductFilterSources,
+  removeFilterChip,
+  SORT_FIELDS,
+  toggleSort,
+} from "../../utils/productListFilters";
 import { STORAGE_KEYS, StorageService } from "../../constants/storage";
 import { AuthService } from "../../services/auth/auth.services";
 
@@ -28,11 +57,11 @@ interface Product {
     country: string;
     currency: string;
     usd?: number;
-    hkd?: number;
-    aed?: number;
     local?: number;
     basePrice?: number;
     calculatedPrice?: number;
+    // The hub's local price is also stored under its currency code (hkd, aed, ...)
+    [localKey: string]: string | number | undefined;
   }>;
   stock: number;
   country: string;
@@ -50,11 +79,32 @@ interface Product {
   videos?: string[]; // Product videos
 }
 
+// Products fetched per request when exporting every page
+const EXPORT_PAGE_SIZE = 100;
+
+const REVIEW_STATUS_OPTIONS: Array<{ value: ProductReviewStatus; label: string }> = [
+  { value: "pending_admin_details", label: "Pending Admin Details" },
+  { value: "under_verification", label: "Under Verification" },
+  { value: "under_approval", label: "Under Approval" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+];
+
+const ACTIVE_STATUS_OPTIONS: Array<{ value: ProductActiveStatus; label: string }> = [
+  { value: "active", label: "Active" },
+  { value: "nonactive", label: "Non Active" },
+];
+
+// Page buttons shown at once, centred on the current page where possible
+const PAGE_BUTTON_COUNT = 5;
+
 const ProductsTable: React.FC = () => {
   const navigate = useNavigate();
+  const constants = useConstants();
   const [productsData, setProductsData] = useState<Product[]>([]);
   const [searchTerm, setSearchTerm] = useState<string>("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [reviewStatus, setReviewStatus] = useState<ProductReviewStatus | "all">("all");
+  const [activeStatus, setActiveStatus] = useState<ProductActiveStatus | "all">("all");
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
   const [isUploadModalOpen, setIsUploadModalOpen] = useState<boolean>(false);
@@ -64,14 +114,31 @@ const ProductsTable: React.FC = () => {
   const [totalPages, setTotalPages] = useState<number>(1);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [showVariantSelectionModal, setShowVariantSelectionModal] = useState<boolean>(false);
+  const [showDraftsModal, setShowDraftsModal] = useState<boolean>(false);
   const [isImageVideoModalOpen, setIsImageVideoModalOpen] = useState<boolean>(false);
   const [selectedProductForImages, setSelectedProductForImages] = useState<Product | null>(null);
+  // Grid columns the seller may export; the export dialog is open while set
+  const [exportColumns, setExportColumns] = useState<ProductGridColumn[] | null>(null);
+  const [filters, setFilters] = useState<ProductListFilters>({});
+  const [sort, setSort] = useState<ProductListSort[]>([]);
+  const [showFilterModal, setShowFilterModal] = useState<boolean>(false);
+  // SKU families and grades for the filter builder, loaded the first time it is opened
+  const [filterSources, setFilterSources] = useState<ProductFilterSources | null>(null);
   const itemsPerPage = 10;
 
-  // Fetch products on component mount and when page/search changes
+  // Fetch products on component mount and when page/search/filters/sort change
   useEffect(() => {
     fetchProducts();
-  }, [currentPage, searchTerm, statusFilter]);
+  }, [currentPage, searchTerm, reviewStatus, activeStatus, filters, sort]);
+
+  // Search, status, filters and sort as sent to ProductService.list
+  const getListQuery = () => ({
+    search: searchTerm,
+    status: reviewStatus === "all" ? undefined : reviewStatus,
+    isStatus: activeStatus === "all" ? undefined : activeStatus,
+    filters: cleanProductFilters(filters),
+    sort: sort.length > 0 ? sort : undefined,
+  });
 
   const fetchProducts = async () => {
     try {
@@ -79,30 +146,23 @@ const ProductsTable: React.FC = () => {
       const response = await ProductService.list({
         page: currentPage,
         limit: itemsPerPage,
-        search: searchTerm,
+        ...getListQuery(),
       });
       const docs =
         response && response.data && Array.isArray(response.data.docs)
           ? response.data.docs
           : [];
-      
-      let filteredData = docs;
-      if (statusFilter !== "all") {
-        filteredData = docs.filter((product: Product) => {
-          if (statusFilter === "approved") {
-            return product.isApproved;
-          } else if (statusFilter === "pending") {
-            return product.isVerified && !product.isApproved;
-          } else if (statusFilter === "verification") {
-            return !product.isVerified;
-          }
-          return true;
-        });
+      const pages = Number(response?.data?.totalPages) || 0;
+
+      // A delete can empty the last page; step back to the new last page
+      if (docs.length === 0 && pages > 0 && currentPage > pages) {
+        setCurrentPage(pages);
+        return;
       }
-      
-      setProductsData(filteredData);
-      setTotalDocs(filteredData.length);
-      setTotalPages(Math.ceil(filteredData.length / itemsPerPage));
+
+      setProductsData(docs);
+      setTotalDocs(Number(response?.data?.totalDocs) || 0);
+      setTotalPages(Math.max(pages, 1));
     } catch (error) {
       toastHelper.error("Failed to fetch products");
     } finally {
@@ -110,6 +170,101 @@ const ProductsTable: React.FC = () => {
     }
   };
 
+  const handleOpenExport = async () => {
+    let permissions: SellerProductFieldPermission[] = [];
+    try {
+      permissions = (await SellerProductPermissionService.getCurrentSellerPermissions()) || [];
+    } catch (error) {
+      console.error("Error loading seller permissions:", error);
+    }
+    // Same columns as the product grid, so the file can be imported there again
+    const permitted = getProductGridColumns("single", getDeliveryHubs(constants), []).filter(col =>
+      permissions.some(permission => permission.fieldName === col.permissionField && permission.hasPermission)
+    );
+    if (permitted.length === 0) {
+      toastHelper.showTost("You do not have permission to view any product fields", "error");
+      return;
+    }
+    setExportColumns(permitted);
+  };
+
+  const handleOpenFilters = async () => {
+    setShowFilterModal(true);
+    if (filterSources) return;
+    const [skuFamilies, gradeResponse] = await Promise.all([
+      SkuFamilyService.getSkuFamilyListByName().catch(() => []),
+      GradeService.getGradeList(1, 1000).catch(() => null),
+    ]);
+    setFilterSources({ skuFamilies, grades: gradeResponse?.data?.docs || [] });
+  };
+
+  // Rebuilt when constants load, so countries, SIM types and hubs are not left empty
+  const filterOptions = useMemo<ProductFilterOptions | null>(
+    () => (filterSources ? getProductFilterOptions(constants, filterSources) : null),
+    [constants, filterSources]
+  );
+
+  const handleApplyFilters = (nextFilters: ProductListFilters, nextSort: ProductListSort[]) => {
+    setShowFilterModal(false);
+    setFilters(nextFilters);
+    setSort(nextSort);
+    setCurrentPage(1);
+  };
+
+  const handleSort = (field: ProductSortField, additive: boolean) => {
+    setSort(prev => toggleSort(prev, field, additive));
+    setCurrentPage(1);
+  };
+
+  const filterChips = getFilterChips(filters, filterOptions);
+
+  // Every page matching the current search, status filters and filters, one row per product
+  const handleExport = async (columnKeys: string[], fileFormat: SpreadsheetFormat) => {
+    try {
+      const products: StoredProduct[] = [];
+      for (let page = 1; ; page++) {
+        const response = await ProductService.list({ page, limit: EXPORT_PAGE_SIZE, ...getListQuery() });
+        const docs: StoredProduct[] = Array.isArray(response?.data?.docs) ? response.data.docs : [];
+        products.push(...docs);
+        if (docs.length < EXPORT_PAGE_SIZE || page >= (response.data.totalPages || page)) break;
+      }
+      if (products.length === 0) {
+        toastHelper.showTost("No products match the current filter", "warning");
+        return;
+      }
+
+      // Custom columns of every exported product, after the chosen grid columns
+      const customColumns: CustomColumn[] = [];
+      products.forEach(product => getProductCustomColumns([product]).forEach(column => {
+        if (!customColumns.some(existing => existing.key === column.key)) customColumns.push(column);
+      }));
+      const columns = [
+        ...columnKeys.flatMap(key => (exportColumns || []).filter(col => col.key === key)),
+        ...customColumns,
+      ];
+
+      // Names for the grade and SKU family IDs
+      const gradeResponse = await GradeService.getGradeList(1, 1000);
+      const grades = (gradeResponse.data.docs || []).flatMap(grade => (grade._id ? [{ ...grade, _id: grade._id }] : []));
+      const skuFamilies = products.flatMap(product =>
+        product.skuFamilyId && typeof product.skuFamilyId === "object" && product.skuFamilyId._id
+          ? [{ _id: product.skuFamilyId._id, name: product.skuFamilyId.name || "" }]
+          : []
+      );
+      const rows = products.map(product => productToRowData(product, constants, getDeliveryHubs(constants)));
+      await writeSpreadsheet(
+        `products-${format(new Date(), "yyyy-MM-dd")}`,
+        toSheetCells(rows, columns, { constants, grades, skuFamilies, customColumns }),
+        fileFormat
+      );
+      toastHelper.showTost(`Exported ${products.length} product(s)`, "success");
+      setExportColumns(null);
+    } catch (error) {
+      console.error("Failed to export products:", error);
+      toastHelper.showTost("Failed to export products", "error");
+    }
+  };
+
   const handleSave = async (productData: any) => {
     try {
       // Check if we're in edit mode - handle both _id and id fields
@@ -280,18 +435,8 @@ const ProductsTable: React.FC = () => {
     }
   };
 
-  // Helper function to format country code for display
-  const formatCountry = (country: string | null | undefined): string => {
-    if (!country) return "-";
-    const countryUpper = country.toUpperCase().trim();
-    if (countryUpper === 'HK') {
-      return 'Hong Kong';
-    } else if (countryUpper === 'USA') {
-      return 'Dubai';
-    }
-    // Return as-is if not HK or USA
-    return country;
-  };
+  // Helper function to format country code for display, using the spec country names
+  const formatCountry = (country: string | null | undefined): string => getCountryName(country, constants);
 
   const isMultiVariant = (product: Product): boolean => {
     return Boolean(product.groupCode);
@@ -319,6 +464,28 @@ const ProductsTable: React.FC = () => {
     }
   };
 
+  // Click sorts by the column alone, shift-click adds it as another sort level
+  const renderSortableHeader = (field: ProductSortField, label: string) => {
+    const level = sort.findIndex(item => item.field === field);
+    return (
+      <th
+        onClick={(e) => handleSort(field, e.shiftKey)}
+        className="px-6 py-4 text-left text-sm font-semibold text-gray-700 dark:text-gray-200 border-b border-gray-200 dark:border-gray-700 align-middle cursor-pointer select-none hover:bg-gray-200 dark:hover:bg-gray-800 transition-colors"
+        title="Click to sort, shift-click to add a sort level"
+      >
+        {label}
+        {level === -1 ? (
+          <i className="fas fa-sort ml-2 text-xs text-gray-400"></i>
+        ) : (
+          <span className="ml-2 text-xs text-blue-600 dark:text-blue-400">
+            <i className={`fas fa-sort-${sort[level].direction === "asc" ? "up" : "down"}`}></i>
+            {sort.length > 1 && <sup className="ml-0.5">{level + 1}</sup>}
+          </span>
+        )}
+      </th>
+    );
+  };
+
   const placeholderImage =
     "https://encrypted-tbn0.gstatic.com/images?q=tbn:ANd9GcTMmyTPv4M5fFPvYLrMzMQcPD_VO34ByNjouQ&s";
 
@@ -345,23 +512,55 @@ const ProductsTable: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center gap-3">
-            {/* Status Filter (UI only) */}
+            {/* Review and active status filters, applied by the API */}
             <div className="relative">
               <select
-                value={statusFilter}
+                value={reviewStatus}
                 onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
-                  setStatusFilter(e.target.value);
+                  setReviewStatus(e.target.value as ProductReviewStatus | "all");
                   setCurrentPage(1);
                 }}
                 className="pl-3 pr-8 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm appearance-none cursor-pointer"
               >
-                <option value="all">All Status</option>
-                <option value="approved">Approved</option>
-                <option value="pending">Pending Approval</option>
-                <option value="verification">Under Verification</option>
+                <option value="all">All Review Status</option>
+                {REVIEW_STATUS_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
               </select>
               <i className="fas fa-chevron-down absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 pointer-events-none text-xs"></i>
             </div>
+            <div className="relative">
+              <select
+                value={activeStatus}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                  setActiveStatus(e.target.value as ProductActiveStatus | "all");
+                  setCurrentPage(1);
+                }}
+                className="pl-3 pr-8 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm appearance-none cursor-pointer"
+              >
+                <option value="all">Active &amp; Non Active</option>
+                {ACTIVE_STATUS_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <i className="fas fa-chevron-down absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 pointer-events-none text-xs"></i>
+            </div>
+            <button
+              className="inline-flex items-center gap-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-4 py-2 text-sm font-medium hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+              onClick={handleOpenFilters}
+            >
+              <i className="fas fa-filter text-xs"></i>
+              Filters
+              {filterChips.length + sort.length > 0 && (
+                <span className="px-1.5 py-0.5 rounded-full text-xs font-bold bg-[#0071E0] text-white">
+                  {filterChips.length + sort.length}
+                </span>
+              )}
+            </button>
             {/* <button
               className="inline-flex items-center gap-2 rounded-lg bg-[#0071E0] text-white px-4 py-2 text-sm font-medium hover:bg-blue-600 dark:bg-blue-500 dark:hover:bg-blue-600 transition-colors"
               onClick={() => setIsUploadModalOpen(true)}
@@ -369,6 +568,20 @@ const ProductsTable: React.FC = () => {
               <i className="fas fa-upload text-xs"></i>
               Upload File
             </button> */}
+            <button
+              className="inline-flex items-center gap-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-4 py-2 text-sm font-medium hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+              onClick={() => setShowDraftsModal(true)}
+            >
+              <i className="fas fa-file-alt text-xs"></i>
+              Drafts
+            </button>
+            <button
+              className="inline-flex items-center gap-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-4 py-2 text-sm font-medium hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+              onClick={handleOpenExport}
+            >
+              <i className="fas fa-file-export text-xs"></i>
+              Export
+            </button>
             <button
               className="inline-flex items-center gap-2 rounded-lg bg-[#0071E0] text-white px-4 py-2 text-sm font-medium hover:bg-blue-600 dark:bg-blue-500 dark:hover:bg-blue-600 transition-colors"
               onClick={async () => {
@@ -412,6 +625,58 @@ const ProductsTable: React.FC = () => {
           </div>
         </div>
 
+        {/* Applied filters and sort levels */}
+        {(filterChips.length > 0 || sort.length > 0) && (
+          <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            {filterChips.map(chip => (
+              <span
+                key={chip.key}
+                className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-700 border border-blue-200 dark:bg-blue-900/30 dark:text-blue-300 dark:border-blue-800"
+              >
+                {chip.label}
+                <button
+                  type="button"
+                  onClick={() => {
+                    setFilters(prev => removeFilterChip(prev, chip.key));
+                    setCurrentPage(1);
+                  }}
+                  className="hover:text-blue-900 dark:hover:text-blue-100"
+                  title="Remove filter"
+                >
+                  <i className="fas fa-times"></i>
+                </button>
+              </span>
+            ))}
+            {sort.map((level, index) => (
+              <span
+                key={level.field}
+                className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium bg-purple-50 text-purple-700 border border-purple-200 dark:bg-purple-900/30 dark:text-purple-300 dark:border-purple-800"
+              >
+                {sort.length > 1 ? `Sort ${index + 1}` : "Sort"}: {SORT_FIELDS.find(item => item.field === level.field)?.label}
+                <i className={`fas fa-arrow-${level.direction === "asc" ? "up" : "down"}`}></i>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSort(prev => prev.filter(item => item.field !== level.field));
+                    setCurrentPage(1);
+                  }}
+                  className="hover:text-purple-900 dark:hover:text-purple-100"
+                  title="Remove sort level"
+                >
+                  <i className="fas fa-times"></i>
+                </button>
+              </span>
+            ))}
+            <button
+              type="button"
+              onClick={() => handleApplyFilters({}, [])}
+              className="text-xs font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              Clear all
+            </button>
+          </div>
+        )}
+
         {/* Table */}
         <div className="max-w-full overflow-x-auto">
           <table className="w-full table-auto">
@@ -420,30 +685,18 @@ const ProductsTable: React.FC = () => {
                 <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700 dark:text-gray-200 border-b border-gray-200 dark:border-gray-700 align-middle">
                   Image
                 </th>
-                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700 dark:text-gray-200 border-b border-gray-200 dark:border-gray-700 align-middle">
-                  Name
-                </th>
+                {renderSortableHeader("name", "Name")}
                 <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700 dark:text-gray-200 border-b border-gray-200 dark:border-gray-700 align-middle">
                   Sub SKU Name
                 </th>
-                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700 dark:text-gray-200 border-b border-gray-200 dark:border-gray-700 align-middle">
-                  SIM Type
-                </th>
-                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700 dark:text-gray-200 border-b border-gray-200 dark:border-gray-700 align-middle">
-                  Color
-                </th>
+                {renderSortableHeader("simType", "SIM Type")}
+                {renderSortableHeader("color", "Color")}
                 <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700 dark:text-gray-200 border-b border-gray-200 dark:border-gray-700 align-middle">
                   RAM
                 </th>
-                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700 dark:text-gray-200 border-b border-gray-200 dark:border-gray-700 align-middle">
-                  Storage
-                </th>
-                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700 dark:text-gray-200 border-b border-gray-200 dark:border-gray-700 align-middle">
-                  Price
-                </th>
-                <th className="px-6 py-4 text-left text-sm font-semibold text-gray-700 dark:text-gray-200 border-b border-gray-200 dark:border-gray-700 align-middle">
-                  Country
-                </th>
+                {renderSortableHeader("storage", "Storage")}
+                {renderSortableHeader("price", "Price")}
+                {renderSortableHeader("country", "Country")}
                 <th className="px-6 py-4 text-center text-sm font-semibold text-gray-700 dark:text-gray-200 border-b border-gray-200 dark:border-gray-700 align-middle">
                   Status
                 </th>
@@ -602,8 +855,9 @@ const ProductsTable: React.FC = () => {
             </button>
 
             <div className="flex space-x-1">
-              {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                const pageNum = i + 1;
+              {Array.from({ length: Math.min(PAGE_BUTTON_COUNT, totalPages) }, (_, i) => {
+                const firstPage = Math.max(1, Math.min(currentPage - Math.floor(PAGE_BUTTON_COUNT / 2), totalPages - PAGE_BUTTON_COUNT + 1));
+                const pageNum = firstPage + i;
                 return (
                   <button
                     key={pageNum}
@@ -624,7 +878,7 @@ const ProductsTable: React.FC = () => {
               onClick={() =>
                 setCurrentPage((prev) => Math.min(prev + 1, totalPages))
               }
-              disabled={currentPage === totalPages}
+              disabled={currentPage >= totalPages}
               className="px-4 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-600 disabled:cursor-not-allowed text-sm transition-colors"
             >
               Next
@@ -647,6 +901,26 @@ const ProductsTable: React.FC = () => {
         onClose={() => setIsUploadModalOpen(false)}
         onSuccess={fetchProducts}
       />
+      {exportColumns && (
+        <SpreadsheetExportModal
+          title="Export Products"
+          description="All pages matching the current search, status and filters. Codes are written as their names, custom columns are added at the end, and the file can be imported into the product grid."
+          columns={exportColumns}
+          initialSelected={exportColumns.map(col => col.key)}
+          onExport={handleExport}
+          onClose={() => setExportColumns(null)}
+        />
+      )}
+
+      {showFilterModal && (
+        <ProductFilterModal
+          filters={filters}
+          sort={sort}
+          options={filterOptions}
+          onApply={handleApplyFilters}
+          onClose={() => setShowFilterModal(false)}
+        />
+      )}
 
       {/* View-Only Product Modal with Scrollable Content */}
       {selectedProduct && (
@@ -863,6 +1137,11 @@ const ProductsTable: React.FC = () => {
         onClose={() => setShowVariantSelectionModal(false)}
       />
 
+      {/* Product Drafts Modal */}
+      {showDraftsModal && (
+        <ProductDraftsModal onClose={() => setShowDraftsModal(false)} />
+      )}
+
       {/* Product Image/Video Modal */}
       {selectedProductForImages && (
         <ProductImageVideoModal
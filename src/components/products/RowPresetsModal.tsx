@@ -0,0 +1,360 @@
+import React, { useState } from 'react';
+import Swal from 'sweetalert2';
+import type { ProductRowData } from './ExcelLikeProductForm';
+import { getColumnOptions, GridValueContext } from '../../utils/productGridValues';
+import { ROW_PRESET_FIELDS, RowPreset, RowPresetField, RowPresetStorage } from '../../services/rowPreset/rowPresetStorage';
+
+export type RowPresetTarget = 'new' | 'selected' | 'all';
+
+interface RowPresetsModalProps {
+  valueContext: GridValueContext;
+  // Row the "Fill from row" button copies values from
+  sourceRow: { index: number; row: ProductRowData } | null;
+  selectedRowCount: number;
+  newRowPresetId: string | null;
+  onApply: (preset: RowPreset, target: RowPresetTarget) => void;
+  onClose: () => void;
+}
+
+interface PresetForm {
+  name: string;
+  values: Partial<Record<RowPresetField, string>>;
+  shippingDays: string;
+}
+
+const FIELD_LABELS: Record<RowPresetField, string> = {
+  packing: 'Packing',
+  currentLocation: 'Current Location',
+  paymentTerm: 'Payment Term',
+  paymentMethod: 'Payment Method',
+  warranty: 'Warranty',
+  negotiableFixed: 'Negotiable/Fixed',
+};
+
+const MULTI_VALUE_FIELDS: RowPresetField[] = ['paymentTerm', 'paymentMethod'];
+
+const EMPTY_FORM: PresetForm = { name: '', values: {}, shippingDays: '' };
+
+const splitCodes = (value?: string) =>
+  (value || '').split(',').map(code => code.trim()).filter(Boolean);
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const RowPresetsModal: React.FC<RowPresetsModalProps> = ({
+  valueContext,
+  sourceRow,
+  selectedRowCount,
+  newRowPresetId,
+  onApply,
+  onClose,
+}) => {
+  const [presets, setPresets] = useState<RowPreset[]>(() => RowPresetStorage.list());
+  // null: list view, 'new': creating, otherwise the ID of the preset being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<PresetForm>(EMPTY_FORM);
+
+  const refresh = () => setPresets(RowPresetStorage.list());
+
+  const startEdit = (preset?: RowPreset) => {
+    setEditingId(preset ? preset.id : 'new');
+    setForm(preset
+      ? { name: preset.name, values: { ...preset.values }, shippingDays: preset.shippingDays === null ? '' : String(preset.shippingDays) }
+      : EMPTY_FORM);
+  };
+
+  const fillFromRow = () => {
+    if (!sourceRow) return;
+    const values: Partial<Record<RowPresetField, string>> = {};
+    ROW_PRESET_FIELDS.forEach(field => {
+      const value = sourceRow.row[field];
+      if (value !== undefined && value !== null && value !== '') values[field] = String(value);
+    });
+    let shippingDays = '';
+    if (sourceRow.row.shippingTime) {
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const [year, month, day] = String(sourceRow.row.shippingTime).split('-').map(Number);
+      const days = Math.round((new Date(year, month - 1, day).getTime() - today.getTime()) / 86400000);
+      if (!isNaN(days) && days >= 0) shippingDays = String(days);
+    }
+    setForm(prev => ({ ...prev, values, shippingDays }));
+  };
+
+  const setFieldValue = (field: RowPresetField, value: string) => {
+    setForm(prev => ({ ...prev, values: { ...prev.values, [field]: value } }));
+  };
+
+  const toggleCode = (field: RowPresetField, code: string) => {
+    const codes = splitCodes(form.values[field]);
+    const next = codes.includes(code) ? codes.filter(c => c !== code) : [...codes, code];
+    setFieldValue(field, next.join(', '));
+  };
+
+  const handleSave = () => {
+    const days = form.shippingDays.trim() === '' ? null : Math.max(0, Math.floor(Number(form.shippingDays)));
+    RowPresetStorage.save(
+      { name: form.name, values: form.values, shippingDays: days === null || isNaN(days) ? null : days },
+      editingId && editingId !== 'new' ? editingId : undefined
+    );
+    setEditingId(null);
+    refresh();
+  };
+
+  const handleDelete = async (preset: RowPreset) => {
+    const confirmed = await Swal.fire({
+      title: 'Delete Preset?',
+      text: `"${preset.name}" will be permanently deleted.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Yes, delete it!',
+      cancelButtonText: 'No, cancel!',
+    });
+    if (!confirmed.isConfirmed) return;
+    RowPresetStorage.remove(preset.id);
+    refresh();
+  };
+
+  const toggleDefault = (preset: RowPreset) => {
+    RowPresetStorage.setDefault(preset.isDefault ? null : preset.id);
+    refresh();
+  };
+
+  const describe = (preset: RowPreset) => {
+    const parts = ROW_PRESET_FIELDS
+      .filter(field => preset.values[field])
+      .map(field => {
+        const options = getColumnOptions(field, valueContext);
+        const names = splitCodes(preset.values[field]).map(code => options?.find(opt => String(opt.code) === code)?.name || code);
+        return `${FIELD_LABELS[field]}: ${names.join(', ')}`;
+      });
+    if (preset.shippingDays !== null) {
+      parts.push(`Ships in ${preset.shippingDays} ${preset.shippingDays === 1 ? 'day' : 'days'}`);
+    }
+    return parts.join(' · ') || 'No values';
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/60 z-50" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Row Presets</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Recurring listing defaults you can stamp onto rows
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+          >
+            <i className="fas fa-times text-lg"></i>
+          </button>
+        </div>
+
+        {editingId ? (
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            <div className="flex items-end gap-3">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Preset Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  className={inputClass}
+                  placeholder="e.g. HK stock, USD on delivery, 2-day ship"
+                  autoFocus
+                />
+              </div>
+              {sourceRow && (
+                <button
+                  type="button"
+                  onClick={fillFromRow}
+                  className="px-3 py-2 text-sm font-medium text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/50 transition-colors whitespace-nowrap"
+                >
+                  <i className="fas fa-file-import mr-2"></i>
+                  Fill from Row {sourceRow.index + 1}
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {ROW_PRESET_FIELDS.map(field => {
+                const options = getColumnOptions(field, valueContext);
+                return (
+                  <div key={field} className={MULTI_VALUE_FIELDS.includes(field) ? 'col-span-2' : ''}>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{FIELD_LABELS[field]}</label>
+                    {options && MULTI_VALUE_FIELDS.includes(field) ? (
+                      <div className="flex flex-wrap gap-2">
+                        {options.map(opt => {
+                          const checked = splitCodes(form.values[field]).includes(String(opt.code));
+                          return (
+                            <label
+                              key={opt.code}
+                              className={`px-3 py-1 text-xs rounded-full border cursor-pointer transition-colors ${checked ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                            >
+                              <input
+                                type="checkbox"
+                                checked={checked}
+                                onChange={() => toggleCode(field, String(opt.code))}
+                                className="hidden"
+                              />
+                              {opt.name}
+                            </label>
+                          );
+                        })}
+                      </div>
+                    ) : options ? (
+                      <select
+                        value={form.values[field] || ''}
+                        onChange={(e) => setFieldValue(field, e.target.value)}
+                        className={inputClass}
+                      >
+                        <option value="">(leave unchanged)</option>
+                        {options.map(opt => (
+                          <option key={opt.code} value={opt.code}>{opt.name}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type="text"
+                        value={form.values[field] || ''}
+                        onChange={(e) => setFieldValue(field, e.target.value)}
+                        className={inputClass}
+                        placeholder="Leave empty to keep unchanged"
+                      />
+                    )}
+                  </div>
+                );
+              })}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Shipping Time (days from today)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.shippingDays}
+                  onChange={(e) => setForm(prev => ({ ...prev, shippingDays: e.target.value }))}
+                  className={inputClass}
+                  placeholder="Leave empty to keep unchanged"
+                />
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto">
+            {presets.length === 0 ? (
+              <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+                <i className="fas fa-magic text-3xl mb-3 block"></i>
+                <p className="text-sm">No presets yet. Create one to stop retyping the same packing, location and payment details.</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {presets.map(preset => (
+                  <li key={preset.id} className="p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-semibold text-gray-800 dark:text-gray-100 truncate">{preset.name}</span>
+                          {preset.isDefault && (
+                            <span className="px-2 py-0.5 text-xs font-medium rounded bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300">Default</span>
+                          )}
+                          {preset.id === newRowPresetId && (
+                            <span className="px-2 py-0.5 text-xs font-medium rounded bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300">Used for new rows</span>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{describe(preset)}</p>
+                      </div>
+                      <div className="flex items-center gap-3 shrink-0">
+                        <button
+                          type="button"
+                          onClick={() => toggleDefault(preset)}
+                          className={preset.isDefault ? 'text-yellow-500 hover:text-yellow-600' : 'text-gray-400 hover:text-yellow-500'}
+                          title={preset.isDefault ? 'Unset default' : 'Make default for new grids'}
+                        >
+                          <i className="fas fa-star"></i>
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => startEdit(preset)}
+                          className="text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
+                          title="Edit preset"
+                        >
+                          <i className="fas fa-pen"></i>
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(preset)}
+                          className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                          title="Delete preset"
+                        >
+                          <i className="fas fa-trash"></i>
+                        </button>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 mt-3">
+                      <span className="text-xs text-gray-500 dark:text-gray-400">Apply to:</span>
+                      <button
+                        type="button"
+                        onClick={() => onApply(preset, 'new')}
+                        className="px-2.5 py-1 text-xs font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                        New Rows
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onApply(preset, 'selected')}
+                        disabled={selectedRowCount === 0}
+                        className="px-2.5 py-1 text-xs font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        Selected ({selectedRowCount})
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onApply(preset, 'all')}
+                        className="px-2.5 py-1 text-xs font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                        All Rows
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          {editingId ? (
+            <>
+              <button
+                type="button"
+                onClick={() => setEditingId(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={!form.name.trim()}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save Preset
+              </button>
+            </>
+          ) : (
+            <button
+              type="button"
+              onClick={() => startEdit()}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <i className="fas fa-plus mr-2"></i>
+              New Preset
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RowPresetsModal;
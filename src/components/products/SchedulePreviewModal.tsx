@@ -0,0 +1,148 @@
+import React from 'react';
+import { DeliveryHub } from '../../utils/deliveryHubs';
+import { FlashDealOverlap } from '../../utils/flashDealSchedule';
+import { formatInTimeZone, formatUtcOffset, getScheduleHub, getScheduleTimeZone, getSellerTimeZone } from '../../utils/hubTime';
+
+interface ScheduledRow {
+  scheduleHub?: string;
+  startTime?: string;
+  endTime?: string;
+  flashDeal?: string;
+}
+
+interface SchedulePreviewModalProps {
+  rows: ScheduledRow[];
+  hubs: DeliveryHub[];
+  // "iPhone 15 · 128GB · Black" style label of a row
+  getRowLabel: (index: number) => string;
+  // Null while existing flash deals are still being checked
+  overlaps: FlashDealOverlap[] | null;
+  onJump: (row: number, field: string) => void;
+  onClose: () => void;
+}
+
+const SchedulePreviewModal: React.FC<SchedulePreviewModalProps> = ({
+  rows,
+  hubs,
+  getRowLabel,
+  overlaps,
+  onJump,
+  onClose,
+}) => {
+  const sellerZone = getSellerTimeZone();
+  const now = new Date();
+  const scheduled = rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => row.startTime || row.endTime || row.flashDeal === '1');
+
+  const renderTime = (iso: string | undefined, hubZone: string, emptyText: string) => {
+    const date = iso ? new Date(iso) : null;
+    if (!date || isNaN(date.getTime())) {
+      return <span className="italic text-gray-400 dark:text-gray-500">{emptyText}</span>;
+    }
+    return (
+      <>
+        <div className="font-medium text-gray-800 dark:text-gray-200">
+          {formatInTimeZone(date, hubZone)} <span className="text-xs text-gray-500">{formatUtcOffset(date, hubZone)}</span>
+        </div>
+        {sellerZone !== hubZone && (
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {formatInTimeZone(date, sellerZone)} your time ({formatUtcOffset(date, sellerZone)})
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/60 z-50" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-5xl w-full mx-4 max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Schedule Preview</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Times are entered in each row's schedule hub zone. Your time zone is {sellerZone} ({formatUtcOffset(now, sellerZone)}).
+          </p>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {overlaps === null ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              <i className="fas fa-spinner fa-spin mr-2"></i>
+              Checking your existing flash deals...
+            </p>
+          ) : overlaps.length > 0 && (
+            <div className="rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-900/20 dark:border-amber-700 p-3 text-sm text-amber-800 dark:text-amber-300">
+              <i className="fas fa-exclamation-triangle mr-2"></i>
+              {overlaps.length} flash deal overlap(s) on the same SKU. Buyers would see two deals for one product at once.
+            </div>
+          )}
+          {scheduled.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">No row has a start time, end time or flash deal yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 pr-3 font-medium">Row</th>
+                  <th className="py-2 pr-3 font-medium">Product</th>
+                  <th className="py-2 pr-3 font-medium">Hub</th>
+                  <th className="py-2 pr-3 font-medium">Start</th>
+                  <th className="py-2 pr-3 font-medium">End</th>
+                </tr>
+              </thead>
+              <tbody>
+                {scheduled.map(({ row, index }) => {
+                  const hubZone = getScheduleTimeZone(hubs, row.scheduleHub);
+                  const hub = getScheduleHub(hubs, row.scheduleHub);
+                  const rowOverlaps = (overlaps || []).filter(overlap => overlap.row === index || overlap.otherRow === index);
+                  return (
+                    <tr key={index} className="border-b border-gray-100 dark:border-gray-700 align-top">
+                      <td className="py-2 pr-3">
+                        <button
+                          type="button"
+                          onClick={() => onJump(index, row.startTime ? 'startTime' : 'endTime')}
+                          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 font-medium"
+                        >
+                          {index + 1}
+                        </button>
+                      </td>
+                      <td className="py-2 pr-3 text-gray-800 dark:text-gray-200">
+                        {getRowLabel(index)}
+                        {row.flashDeal === '1' && (
+                          <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300">Flash deal</span>
+                        )}
+                        {rowOverlaps.map((overlap, overlapIndex) => (
+                          <div key={overlapIndex} className="text-xs text-amber-700 dark:text-amber-400 mt-1">
+                            <i className="fas fa-exclamation-triangle mr-1"></i>
+                            {overlap.listing
+                              ? `Overlaps your listed flash deal${overlap.listing.listingNo ? ` #${overlap.listing.listingNo}` : ''}`
+                              : `Overlaps the flash deal in row ${(overlap.row === index ? overlap.otherRow ?? 0 : overlap.row) + 1}`}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="py-2 pr-3 text-gray-700 dark:text-gray-300">
+                        {hub?.name || 'UTC'}
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{hubZone}</div>
+                      </td>
+                      <td className="py-2 pr-3">{renderTime(row.startTime, hubZone, 'When submitted')}</td>
+                      <td className="py-2 pr-3">{renderTime(row.endTime, hubZone, 'Not set')}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SchedulePreviewModal;
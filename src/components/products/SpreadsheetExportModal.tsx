@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import toastHelper from '../../utils/toastHelper';
+import { getSheetHeader, SheetColumn, SpreadsheetFormat } from '../../utils/productSpreadsheet';
+
+interface SpreadsheetExportModalProps {
+  title: string;
+  // What is exported, e.g. "12 rows" or "All products matching the current filter"
+  description: string;
+  columns: SheetColumn[];
+  // Keys checked when the dialog opens
+  initialSelected: string[];
+  onExport: (columnKeys: string[], format: SpreadsheetFormat) => Promise<void> | void;
+  onClose: () => void;
+}
+
+const FORMATS: Array<{ format: SpreadsheetFormat; label: string; icon: string }> = [
+  { format: 'xlsx', label: 'Excel (.xlsx)', icon: 'fa-file-excel' },
+  { format: 'csv', label: 'CSV (.csv)', icon: 'fa-file-csv' },
+];
+
+const SpreadsheetExportModal: React.FC<SpreadsheetExportModalProps> = ({
+  title,
+  description,
+  columns,
+  initialSelected,
+  onExport,
+  onClose,
+}) => {
+  const [selected, setSelected] = useState<string[]>(initialSelected);
+  const [format, setFormat] = useState<SpreadsheetFormat>('xlsx');
+  const [exporting, setExporting] = useState(false);
+
+  const toggleColumn = (key: string) =>
+    setSelected(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+
+  const handleExport = async () => {
+    if (selected.length === 0) {
+      toastHelper.showTost('Select at least one column to export', 'error');
+      return;
+    }
+    try {
+      setExporting(true);
+      // Columns keep the grid's order, whatever order they were ticked in
+      await onExport(columns.filter(col => selected.includes(col.key)).map(col => col.key), format);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/60 z-50" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{description}</p>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Format</label>
+            <div className="grid grid-cols-2 gap-2">
+              {FORMATS.map(option => (
+                <button
+                  key={option.format}
+                  type="button"
+                  onClick={() => setFormat(option.format)}
+                  className={`px-3 py-2 text-sm font-medium rounded-lg border transition-colors ${
+                    format === option.format
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <i className={`fas ${option.icon} mr-2`}></i>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Columns ({selected.length} of {columns.length})
+              </label>
+              <div className="flex items-center gap-3 text-xs">
+                <button
+                  type="button"
+                  onClick={() => setSelected(columns.map(col => col.key))}
+                  className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  Select all
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSelected([])}
+                  className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  Clear
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+              {columns.map(col => (
+                <label key={col.key} className="flex items-center gap-2 py-1 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(col.key)}
+                    onChange={() => toggleColumn(col.key)}
+                    className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                  />
+                  <span className="truncate">{getSheetHeader(col)}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={exporting}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {exporting ? (
+              <>
+                <i className="fas fa-spinner fa-spin mr-2"></i>
+                Exporting...
+              </>
+            ) : (
+              'Export'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpreadsheetExportModal;
@@ -1,6 +1,8 @@
 import React, { useState, useRef } from "react";
+import { useNavigate } from "react-router-dom";
 import toastHelper from "../../utils/toastHelper";
 import { ProductService } from "../../services/products/products.services";
+import { isSpreadsheetFile, readSpreadsheet, SPREADSHEET_ACCEPT } from "../../utils/productSpreadsheet";
 
 interface UploadExcelModalProps {
   isOpen: boolean;
@@ -11,7 +13,11 @@ interface UploadExcelModalProps {
 const UploadExcelModal: React.FC<UploadExcelModalProps> = ({ isOpen, onClose, onSuccess }) => {
   const [file, setFile] = useState<File | null>(null);
   const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [isReading, setIsReading] = useState<boolean>(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+  // The import endpoint only takes .xlsx; CSV can still be reviewed in the grid
+  const isXlsx = !!file && /\.xlsx$/i.test(file.name);
 
   const handleDownloadSample = () => {
     const sampleUrl = `${import.meta.env.BASE_URL}product_import_deals.xlsx`;
@@ -36,19 +42,19 @@ const UploadExcelModal: React.FC<UploadExcelModalProps> = ({ isOpen, onClose, on
     e.preventDefault();
     setIsDragging(false);
     const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile && droppedFile.type === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet") {
+    if (droppedFile && isSpreadsheetFile(droppedFile)) {
       setFile(droppedFile);
     } else {
-      toastHelper.showTost("Please upload a valid Excel (.xlsx) file", "error");
+      toastHelper.showTost("Please upload a valid Excel (.xlsx) or CSV file", "error");
     }
   };
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
-    if (selectedFile && selectedFile.type === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet") {
+    if (selectedFile && isSpreadsheetFile(selectedFile)) {
       setFile(selectedFile);
     } else {
-      toastHelper.showTost("Please upload a valid Excel (.xlsx) file", "error");
+      toastHelper.showTost("Please upload a valid Excel (.xlsx) or CSV file", "error");
     }
   };
 
@@ -71,6 +77,10 @@ const UploadExcelModal: React.FC<UploadExcelModalProps> = ({ isOpen, onClose, on
       toastHelper.showTost("Please select a file to upload", "error");
       return;
     }
+    if (!isXlsx) {
+      toastHelper.showTost("Only .xlsx files can be uploaded directly. Use Review in Grid for this file.", "error");
+      return;
+    }
     try {
       const formData = new FormData();
       formData.append("file", file);
@@ -88,6 +98,23 @@ const UploadExcelModal: React.FC<UploadExcelModalProps> = ({ isOpen, onClose, on
     }
   };
 
+  // Parse the file here and open it in the product grid, where unmatched values are
+  // highlighted and the rows go through the normal request flow
+  const handleReviewInGrid = async () => {
+    if (!file) return;
+    try {
+      setIsReading(true);
+      const cells = await readSpreadsheet(file);
+      onClose();
+      navigate("/products/create?type=single", { state: { importedSheet: { fileName: file.name, cells } } });
+    } catch (error) {
+      console.error("Failed to read file:", error);
+      toastHelper.showTost("Failed to read file", "error");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -137,7 +164,7 @@ const UploadExcelModal: React.FC<UploadExcelModalProps> = ({ isOpen, onClose, on
           >
             <input
               type="file"
-              accept=".xlsx"
+              accept={SPREADSHEET_ACCEPT}
               onChange={handleFileInputChange}
               className="hidden"
               ref={fileInputRef}
@@ -160,7 +187,7 @@ const UploadExcelModal: React.FC<UploadExcelModalProps> = ({ isOpen, onClose, on
                   Click or drag and drop your Excel file here
                 </p>
                 <p className="text-sm text-gray-500 dark:text-gray-600 mt-1">
-                  Only .xlsx files are supported
+                  .xlsx files can be uploaded directly; .xlsx and .csv can be reviewed in the grid
                 </p>
               </div>
             )}
@@ -173,10 +200,19 @@ const UploadExcelModal: React.FC<UploadExcelModalProps> = ({ isOpen, onClose, on
             >
               Cancel
             </button>
+            <button
+              type="button"
+              onClick={handleReviewInGrid}
+              className="px-6 py-2.5 bg-white dark:bg-gray-800 text-[#0071E0] dark:text-blue-400 border border-[#0071E0] dark:border-blue-400 rounded-lg hover:bg-blue-50 dark:hover:bg-gray-700 transition duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={!file || isReading}
+              title="Load the rows into the product grid to check and fix them before submitting"
+            >
+              {isReading ? "Reading..." : "Review in Grid"}
+            </button>
             <button
               type="submit"
               className="px-6 py-2.5 bg-[#0071E0] text-white rounded-lg hover:bg-blue-600 transition duration-200 transform hover:scale-105 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed"
-              disabled={!file}
+              disabled={!isXlsx}
             >
               Submit
             </button>
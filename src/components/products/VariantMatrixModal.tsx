@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import CascadingVariantSelector, { VariantOption } from './CascadingVariantSelector';
+import { MatrixAxis } from '../../utils/variantMatrix';
+
+interface VariantMatrixModalProps {
+  // Axes the seller may fill in
+  axes: MatrixAxis[];
+  onAdd: (variants: VariantOption[]) => void;
+  onClose: () => void;
+}
+
+const VariantMatrixModal: React.FC<VariantMatrixModalProps> = ({ axes, onAdd, onClose }) => {
+  const [variants, setVariants] = useState<VariantOption[]>([]);
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/60 z-50" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-5xl w-full mx-4 max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex-1 overflow-y-auto p-6">
+          <CascadingVariantSelector onVariantsSelected={setVariants} axes={axes} />
+        </div>
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onAdd(variants)}
+            disabled={variants.length === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add {variants.length} Row{variants.length !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VariantMatrixModal;
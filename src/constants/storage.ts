@@ -15,6 +15,17 @@ export const STORAGE_KEYS = {
   
   // Socket authentication (if different from main token)
   AUTH_TOKEN: 'bstock_seller_auth_token',
+
+  // Product grid drafts, keyed by seller ID inside the stored object
+  PRODUCT_DRAFTS: 'bstock_seller_product_drafts',
+  // Row presets for the product grid, keyed by seller ID inside the stored object
+  ROW_PRESETS: 'bstock_seller_row_presets',
+  // Product grid column layouts, keyed by seller ID and variant type
+  COLUMN_LAYOUTS: 'bstock_seller_column_layouts',
+  // Saved custom column definitions for the product grid, keyed by seller ID
+  CUSTOM_COLUMNS: 'bstock_seller_custom_columns',
+  // Holidays that shipping dates skip, keyed by seller ID and current location
+  HOLIDAY_CALENDARS: 'bstock_seller_holiday_calendars',
 } as const;
 
 /**
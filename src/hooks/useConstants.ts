@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import { Constants, ConstantsService } from "../services/constants/constants.services";
+
+// Constants rarely change; share one request across every page that needs them
+let cached: Promise<Constants> | null = null;
+
+const loadConstants = () => {
+  if (!cached) {
+    cached = ConstantsService.getConstants().catch((err) => {
+      cached = null;
+      throw err;
+    });
+  }
+  return cached;
+};
+
+/**
+ * Seller constants (countries, delivery hubs, ...). `null` until loaded or
+ * when the request fails, so callers must handle the fallback.
+ */
+export const useConstants = () => {
+  const [constants, setConstants] = useState<Constants | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    loadConstants()
+      .then((data) => {
+        if (active) setConstants(data);
+      })
+      .catch((err) => console.error("Failed to load constants:", err));
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return constants;
+};
@@ -0,0 +1,64 @@
+import { useState, useCallback, useRef } from "react";
+
+// Snapshots are plain objects of state values; two snapshots whose top-level
+// values are the same references describe the same state.
+const isSameSnapshot = <T extends object>(a: T, b: T) =>
+  (Object.keys(a) as (keyof T)[]).every((key) => Object.is(a[key], b[key]));
+
+/**
+ * Bounded undo/redo stack of state snapshots. Call `record` with the state as it
+ * is *before* a change; consecutive records sharing a `coalesceKey` (e.g. typing
+ * in one cell) collapse into a single undo step.
+ */
+export const useGridHistory = <T extends object>(limit: number = 100) => {
+  const undoStack = useRef<T[]>([]);
+  const redoStack = useRef<T[]>([]);
+  const lastCoalesceKey = useRef<string | null>(null);
+  const [counts, setCounts] = useState({ undo: 0, redo: 0 });
+
+  const syncCounts = useCallback(() => {
+    setCounts({ undo: undoStack.current.length, redo: redoStack.current.length });
+  }, []);
+
+  const record = useCallback((snapshot: T, coalesceKey?: string) => {
+    if (coalesceKey && coalesceKey === lastCoalesceKey.current) return;
+    lastCoalesceKey.current = coalesceKey || null;
+
+    const last = undoStack.current[undoStack.current.length - 1];
+    if (last && isSameSnapshot(last, snapshot)) return;
+
+    undoStack.current = [...undoStack.current, snapshot].slice(-limit);
+    redoStack.current = [];
+    syncCounts();
+  }, [limit, syncCounts]);
+
+  // Returns the snapshot to restore, or null when there is nothing to undo
+  const undo = useCallback((current: T): T | null => {
+    const previous = undoStack.current[undoStack.current.length - 1];
+    if (!previous) return null;
+    undoStack.current = undoStack.current.slice(0, -1);
+    redoStack.current = [...redoStack.current, current];
+    lastCoalesceKey.current = null;
+    syncCounts();
+    return previous;
+  }, [syncCounts]);
+
+  const redo = useCallback((current: T): T | null => {
+    const next = redoStack.current[redoStack.current.length - 1];
+    if (!next) return null;
+    redoStack.current = redoStack.current.slice(0, -1);
+    undoStack.current = [...undoStack.current, current].slice(-limit);
+    lastCoalesceKey.current = null;
+    syncCounts();
+    return next;
+  }, [limit, syncCounts]);
+
+  const clear = useCallback(() => {
+    undoStack.current = [];
+    redoStack.current = [];
+    lastCoalesceKey.current = null;
+    syncCounts();
+  }, [syncCounts]);
+
+  return { record, undo, redo, clear, canUndo: counts.undo > 0, canRedo: counts.redo > 0 };
+};
@@ -1,19 +1,33 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate, useSearchParams } from 'react-router-dom';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import CascadingVariantSelector, { VariantOption } from '../../components/products/CascadingVariantSelector';
 import ExcelLikeProductForm, { ProductRowData } from '../../components/products/ExcelLikeProductForm';
 import { ProductService } from '../../services/products/products.services';
 import { SellerProductPermissionService, SellerProductFieldPermission } from '../../services/sellerProductPermission/sellerProductPermission.services';
 import { STORAGE_KEYS, StorageService } from '../../constants/storage';
 import toastHelper from '../../utils/toastHelper';
+import { validateProductRows } from '../../utils/productGridValidation';
+import { buildCustomFields, CustomColumn, normalizeCustomColumn, toCustomColumnMetadata } from '../../utils/customColumns';
+import { ImportedSheet } from '../../utils/productSpreadsheet';
+import { MATRIX_AXES } from '../../utils/variantMatrix';
+import { ProductDraftStorage } from '../../services/productDraft/productDraftStorage';
+import { useConstants } from '../../hooks/useConstants';
+import { buildHubDeliverablePrices, DeliveryHub, findHubByCountry, getDeliveryHubs, hasHubPrice, normalizeCountryCode } from '../../utils/deliveryHubs';
+import { getScheduleTimeZone } from '../../utils/hubTime';
 
 type PageStep = 'variant-selection' | 'variant-config' | 'form';
 
 const ProductVariantForm: React.FC = () => {
   const navigate = useNavigate();
-  const [searchParams] = useSearchParams();
-  const typeParam = searchParams.get('type');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const draftId = searchParams.get('draftId');
+  // A draft link may omit the type; the draft knows its own variant type
+  const typeParam = searchParams.get('type') || (draftId ? ProductDraftStorage.get(draftId)?.variantType ?? null : null);
   const editId = searchParams.get('editId');
+  // Spreadsheet opened for review from the upload dialog. The state is dropped once the
+  // grid autosaves it into a draft (the draftId is added to the URL), so it loads only once.
+  const location = useLocation();
+  const importedSheet = (location.state as { importedSheet?: ImportedSheet } | null)?.importedSheet ?? null;
   const [editProduct, setEditProduct] = useState<any | null>(null);
   const [editProducts, setEditProducts] = useState<any[]>([]); // For multi-variant products
   const [loadingProduct, setLoadingProduct] = useState(false);
@@ -48,6 +62,9 @@ const ProductVariantForm: React.FC = () => {
   const [selectedVariants, setSelectedVariants] = useState<VariantOption[]>([]);
   const [loading, setLoading] = useState(false);
   const [permissions, setPermissions] = useState<SellerProductFieldPermission[]>([]);
+  const constants = useConstants();
+  // Price fields are read and written per delivery hub
+  const deliveryHubs = getDeliveryHubs(constants);
   
   // Get current seller ID from storage
   const getCurrentSellerId = (): string => {
@@ -162,13 +179,6 @@ const ProductVariantForm: React.FC = () => {
         }
         
         setStep('form');
-        
-        // Clear localStorage when editing to prevent conflicts
-        try {
-          localStorage.removeItem('variant-product-form-data');
-        } catch (error) {
-          console.error('Error clearing localStorage:', error);
-        }
       } catch (error: any) {
         console.error('Error loading product for edit:', error);
         toastHelper.showTost(error.message || 'Failed to load product', 'error');
@@ -219,12 +229,10 @@ const ProductVariantForm: React.FC = () => {
     }
   };
 
-  const handleVariantsSelected = (variants: VariantOption[]) => {
+  // The selector reports every change to the matrix; "Continue to Form" moves on
+  const handleVariantsSelected = useCallback((variants: VariantOption[]) => {
     setSelectedVariants(variants);
-    if (variants.length > 0) {
-      setStep('form');
-    }
-  };
+  }, []);
 
   // Helper function to validate ObjectId
   const isValidObjectId = (id: string | null | undefined): boolean => {
@@ -232,10 +240,27 @@ const ProductVariantForm: React.FC = () => {
     return /^[0-9a-fA-F]{24}$/.test(id);
   };
 
-  const handleFormSave = async (rows: ProductRowData[], totalMoq?: number | string, customColumns?: Array<{ key: string; label: string; width: number }>) => {
+  const handleFormSave = async (rows: ProductRowData[], totalMoq?: number | string, customColumns?: CustomColumn[]) => {
     try {
       setLoading(true);
       
+      // Same rules the grid enforces before calling onSave
+      const gridErrors = validateProductRows(rows, {
+        variantType: variantType || 'single',
+        hasPermission,
+        totalMoq,
+        isEditMode: true,
+        customColumns,
+      });
+      if (gridErrors.length > 0) {
+        toastHelper.showTost(
+          `Validation errors:\n${gridErrors.slice(0, 10).map(error => error.message).join('\n')}${gridErrors.length > 10 ? `\n... and ${gridErrors.length - 10} more` : ''}`,
+          'error'
+        );
+        setLoading(false);
+        return;
+      }
+
       // Validate all required IDs before processing
       const validationErrors: string[] = [];
       rows.forEach((row, index) => {
@@ -293,26 +318,8 @@ const ProductVariantForm: React.FC = () => {
         return matched || null;
       };
       
-      // Helper to normalize country - convert full names to codes (HK or USA)
-      // Map Hongkong -> HK, Dubai -> USA
-      const normalizeCountry = (country: string | null | undefined): string | null => {
-        if (!country) return null;
-        const countryTrimmed = country.trim();
-        const countryUpper = countryTrimmed.toUpperCase();
-        
-        // Map full names to codes
-        if (countryUpper === 'HONGKONG' || countryUpper === 'HONG KONG') {
-          return 'HK';
-        } else if (countryUpper === 'DUBAI' || countryUpper === 'UAE') {
-          return 'USA';
-        } else if (countryUpper === 'HK' || countryUpper === 'USA') {
-          // Already a code, use as-is
-          return countryTrimmed;
-        } else {
-          // Unknown value, return as-is (backend will validate)
-          return countryTrimmed;
-        }
-      };
+      // Helper to normalize country - convert full names to spec country codes
+      const normalizeCountry = (country: string | null | undefined): string | null => normalizeCountryCode(country, constants);
       
       const productsToCreate = rows.map((row, rowIndex) => {
         // Helper to convert empty strings to null
@@ -339,6 +346,22 @@ const ProductVariantForm: React.FC = () => {
         // In edit mode, preserve existing countryDeliverables and update prices
         let countryDeliverables: any[] = [];
         
+        // One USD entry per priced hub the seller may edit
+        const buildNewDeliverable = (hub: DeliveryHub) => {
+          if (!hasPermission(hub.usdField) && !hasPermission(hub.localField)) return null;
+          if (!hasHubPrice(hub, row)) return null;
+          return {
+            country: hub.country,
+            currency: 'USD',
+            ...buildHubDeliverablePrices(hub, row),
+            margins: [],
+            costs: [],
+            charges: [],
+            paymentTerm: hasPermission('paymentTerm') ? normalizePaymentTerm(row.paymentTerm) : null,
+            paymentMethod: hasPermission('paymentMethod') ? (cleanString(row.paymentMethod) || null) : null,
+          };
+        };
+        
         // Get existing product for edit mode
         // Match rowIndex with editProducts index for multi-variant, or use editProduct for single
         const existingProduct = editId 
@@ -348,35 +371,19 @@ const ProductVariantForm: React.FC = () => {
         if (editId && existingProduct && (existingProduct as any).countryDeliverables) {
           // Preserve existing countryDeliverables structure and update prices
           countryDeliverables = (existingProduct as any).countryDeliverables.map((cd: any) => {
-            if (cd.country === 'Hongkong' && (hasPermission('hkUsd') || hasPermission('hkHkd'))) {
-              return {
-                ...cd,
-                basePrice: parseFloat(String(row.hkUsd)) || cd.basePrice || cd.usd || 0,
-                calculatedPrice: cd.calculatedPrice || parseFloat(String(row.hkUsd)) || cd.usd || 0,
-                usd: parseFloat(String(row.hkUsd)) || cd.usd || 0,
-                xe: parseFloat(String(row.hkXe)) || cd.xe || 0,
-                local: parseFloat(String(row.hkHkd)) || cd.local || cd.hkd || 0,
-                hkd: parseFloat(String(row.hkHkd)) || cd.hkd || 0,
-                price: parseFloat(String(row.hkUsd)) || cd.price || cd.usd || 0,
-                exchangeRate: parseFloat(String(row.hkXe)) || cd.exchangeRate || cd.xe || null,
-                // Preserve margins and costs (sellers can't modify these)
-                margins: cd.margins || [],
-                costs: cd.costs || [],
-                charges: cd.charges || [],
-                paymentTerm: hasPermission('paymentTerm') ? (normalizePaymentTerm(row.paymentTerm) || normalizePaymentTerm(cd.paymentTerm) || null) : (normalizePaymentTerm(cd.paymentTerm) || null),
-                paymentMethod: hasPermission('paymentMethod') ? (cleanString(row.paymentMethod) || cd.paymentMethod || null) : (cd.paymentMethod || null),
-              };
-            } else if (cd.country === 'Dubai' && (hasPermission('dubaiUsd') || hasPermission('dubaiAed'))) {
+            const hub = findHubByCountry(deliveryHubs, cd.country);
+            if (hub && (hasPermission(hub.usdField) || hasPermission(hub.localField))) {
+              const prices = buildHubDeliverablePrices(hub, row);
               return {
                 ...cd,
-                basePrice: parseFloat(String(row.dubaiUsd)) || cd.basePrice || cd.usd || 0,
-                calculatedPrice: cd.calculatedPrice || parseFloat(String(row.dubaiUsd)) || cd.usd || 0,
-                usd: parseFloat(String(row.dubaiUsd)) || cd.usd || 0,
-                xe: parseFloat(String(row.dubaiXe)) || cd.xe || 0,
-                local: parseFloat(String(row.dubaiAed)) || cd.local || cd.aed || 0,
-                aed: parseFloat(String(row.dubaiAed)) || cd.aed || 0,
-                price: parseFloat(String(row.dubaiUsd)) || cd.price || cd.usd || 0,
-                exchangeRate: parseFloat(String(row.dubaiXe)) || cd.exchangeRate || cd.xe || null,
+                basePrice: prices.basePrice || cd.basePrice || cd.usd || 0,
+                calculatedPrice: cd.calculatedPrice || prices.usd || cd.usd || 0,
+                usd: prices.usd || cd.usd || 0,
+                xe: prices.xe || cd.xe || 0,
+                local: prices.local || cd.local || cd[hub.localKey] || 0,
+                [hub.localKey]: prices.local || cd[hub.localKey] || 0,
+                price: prices.usd || cd.price || cd.usd || 0,
+                exchangeRate: prices.xe || cd.exchangeRate || cd.xe || null,
                 // Preserve margins and costs (sellers can't modify these)
                 margins: cd.margins || [],
                 costs: cd.costs || [],
@@ -388,51 +395,19 @@ const ProductVariantForm: React.FC = () => {
             // Return unchanged for other countries
             return cd;
           });
+          // Hubs priced for the first time on this product get a new entry
+          deliveryHubs.forEach(hub => {
+            if (!countryDeliverables.some(cd => findHubByCountry([hub], cd.country))) {
+              const deliverable = buildNewDeliverable(hub);
+              if (deliverable) countryDeliverables.push(deliverable);
+            }
+          });
         } else {
           // Create new countryDeliverables for create mode or when none exist
-          if (hasPermission('hkUsd') || hasPermission('hkHkd')) {
-            if (row.hkUsd || row.hkHkd) {
-              countryDeliverables.push({
-                country: 'Hongkong',
-                currency: 'USD',
-                basePrice: parseFloat(String(row.hkUsd)) || 0,
-                calculatedPrice: parseFloat(String(row.hkUsd)) || 0,
-                exchangeRate: parseFloat(String(row.hkXe)) || null,
-                price: parseFloat(String(row.hkUsd)) || 0,
-                usd: parseFloat(String(row.hkUsd)) || 0,
-                xe: parseFloat(String(row.hkXe)) || 0,
-                local: parseFloat(String(row.hkHkd)) || 0,
-                hkd: parseFloat(String(row.hkHkd)) || 0,
-                margins: [],
-                costs: [],
-                charges: [],
-                paymentTerm: hasPermission('paymentTerm') ? normalizePaymentTerm(row.paymentTerm) : null,
-                paymentMethod: hasPermission('paymentMethod') ? (cleanString(row.paymentMethod) || null) : null,
-              });
-            }
-          }
-          
-          if (hasPermission('dubaiUsd') || hasPermission('dubaiAed')) {
-            if (row.dubaiUsd || row.dubaiAed) {
-              countryDeliverables.push({
-                country: 'Dubai',
-                currency: 'USD',
-                basePrice: parseFloat(String(row.dubaiUsd)) || 0,
-                calculatedPrice: parseFloat(String(row.dubaiUsd)) || 0,
-                exchangeRate: parseFloat(String(row.dubaiXe)) || null,
-                price: parseFloat(String(row.dubaiUsd)) || 0,
-                usd: parseFloat(String(row.dubaiUsd)) || 0,
-                xe: parseFloat(String(row.dubaiXe)) || 0,
-                local: parseFloat(String(row.dubaiAed)) || 0,
-                aed: parseFloat(String(row.dubaiAed)) || 0,
-                margins: [],
-                costs: [],
-                charges: [],
-                paymentTerm: hasPermission('paymentTerm') ? normalizePaymentTerm(row.paymentTerm) : null,
-                paymentMethod: hasPermission('paymentMethod') ? (cleanString(row.paymentMethod) || null) : null,
-              });
-            }
-          }
+          deliveryHubs.forEach(hub => {
+            const deliverable = buildNewDeliverable(hub);
+            if (deliverable) countryDeliverables.push(deliverable);
+          });
         }
 
         // Build product object - ONLY include fields with permission
@@ -572,6 +547,11 @@ const ProductVariantForm: React.FC = () => {
         if (hasPermission('endTime') && cleanString(row.endTime)) {
           product.expiryTime = new Date(row.endTime).toISOString();
         }
+
+        // Zone the schedule was entered in, so it can be shown the same way again
+        if (product.startTime || product.expiryTime) {
+          product.scheduleTimeZone = getScheduleTimeZone(deliveryHubs, row.scheduleHub);
+        }
         
         // Group code for multi-variant
         if (variantType === 'multi') {
@@ -785,30 +765,15 @@ const ProductVariantForm: React.FC = () => {
         }
         
         // Collect custom fields and send to backend
-        // Extract custom field keys from row that start with 'custom_'
-        const customFieldsMap: Record<string, string> = {};
-        const customColsMetadata: Array<{ key: string; label: string; width: number }> = [];
-        Object.keys(row).forEach(key => {
-          if (key.startsWith('custom_')) {
-            const value = row[key as keyof ProductRowData];
-            // Remove custom_ prefix when sending to backend
-            const backendKey = key.replace(/^custom_/, '');
-            // Include value even if empty (backend can handle empty strings)
-            const fieldValue = (value && typeof value === 'string') ? value.trim() : '';
-            customFieldsMap[backendKey] = fieldValue;
-            // Store column metadata
-            customColsMetadata.push({
-              key: backendKey,
-              label: backendKey.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
-              width: 150
-            });
-          }
-        });
+        // Use the grid's column definitions for types; fall back to the row's custom_ keys (text)
+        const rowCustomColumns = customColumns && customColumns.length > 0
+          ? customColumns
+          : Object.keys(row).filter(key => key.startsWith('custom_')).map(key => normalizeCustomColumn({ key }));
         // Always include customFields in payload if any custom columns exist (even if empty values)
-        if (Object.keys(customFieldsMap).length > 0) {
-          product.customFields = customFieldsMap;
+        if (rowCustomColumns.length > 0) {
+          product.customFields = buildCustomFields(rowCustomColumns, row);
           // Store custom column definitions (metadata) in payload for backend storage
-          product.customColumns = customColsMetadata;
+          product.customColumns = rowCustomColumns.map(toCustomColumnMetadata);
         }
         
         // Calculate price from countryDeliverables for legacy support
@@ -912,6 +877,9 @@ const ProductVariantForm: React.FC = () => {
           }
           addFieldIfPermitted('startTime', productData.startTime, true);
           addFieldIfPermitted('expiryTime', productData.expiryTime, true);
+          if (productData.scheduleTimeZone !== undefined) {
+            updatePayload.scheduleTimeZone = productData.scheduleTimeZone;
+          }
           addFieldIfPermitted('supplierListingNumber', productData.supplierListingNumber, true);
           addFieldIfPermitted('customerListingNumber', productData.customerListingNumber, true);
           addFieldIfPermitted('packing', productData.packing, true);
@@ -962,42 +930,13 @@ const ProductVariantForm: React.FC = () => {
           // Collect custom fields and send to backend
           // Always extract custom fields based on current customColumns state (from ExcelLikeProductForm)
           // This ensures deleted custom fields are not included and empty values are sent
-          const customFieldsMap: Record<string, string> = {};
-          const customColsMetadata: Array<{ key: string; label: string; width: number }> = [];
           const row = rows[0]; // Single variant - use first row
-          
-          // Use customColumns passed from ExcelLikeProductForm to know which fields to include
-          if (customColumns && customColumns.length > 0) {
-            customColumns.forEach(customCol => {
-              const value = row[customCol.key as keyof ProductRowData];
-              // Remove custom_ prefix when sending to backend
-              const backendKey = customCol.key.startsWith('custom_') 
-                ? customCol.key.replace(/^custom_/, '') 
-                : customCol.key;
-              // Include value even if empty (backend can handle empty strings)
-              const fieldValue = (value && typeof value === 'string') ? value.trim() : '';
-              customFieldsMap[backendKey] = fieldValue;
-              // Store column metadata
-              customColsMetadata.push({
-                key: backendKey,
-                label: customCol.label || backendKey.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase()),
-                width: customCol.width || 150
-              });
-            });
-          }
-          
-          // Always include customFields in update payload based on current customColumns
-          // If no custom columns exist, send empty object to clear all custom fields
-          updatePayload.customFields = customFieldsMap;
-          if (customColsMetadata.length > 0) {
-            updatePayload.customColumns = customColsMetadata;
-          } else {
-            // If no custom columns, send empty array to clear customColumns in backend
-            updatePayload.customColumns = [];
-          }
+          // If no custom columns exist, empty values clear all custom fields and columns in the backend
+          updatePayload.customFields = buildCustomFields(customColumns || [], row);
+          updatePayload.customColumns = (customColumns || []).map(toCustomColumnMetadata);
           
           // Include countryDeliverables if seller has permission for price fields
-          if ((hasPermission('hkUsd') || hasPermission('hkHkd') || hasPermission('dubaiUsd') || hasPermission('dubaiAed')) 
+          if (deliveryHubs.some(hub => hasPermission(hub.usdField) || hasPermission(hub.localField))
               && productData.countryDeliverables && productData.countryDeliverables.length > 0) {
             // Remove _id fields from countryDeliverables (not allowed by backend validator)
             // Also normalize paymentTerm values
@@ -1103,6 +1042,9 @@ const ProductVariantForm: React.FC = () => {
               }
               addFieldIfPermitted('startTime', productData.startTime, true);
               addFieldIfPermitted('expiryTime', productData.expiryTime, true);
+              if (productData.scheduleTimeZone !== undefined) {
+                updatePayload.scheduleTimeZone = productData.scheduleTimeZone;
+              }
               addFieldIfPermitted('supplierListingNumber', productData.supplierListingNumber, true);
               addFieldIfPermitted('customerListingNumber', productData.customerListingNumber, true);
               addFieldIfPermitted('packing', productData.packing, true);
@@ -1153,42 +1095,13 @@ const ProductVariantForm: React.FC = () => {
               // Collect custom fields and send to backend
               // Always extract custom fields based on current customColumns state (from ExcelLikeProductForm)
               // This ensures deleted custom fields are not included and empty values are sent
-              const customFieldsMap: Record<string, string> = {};
-              const customColsMetadata: Array<{ key: string; label: string; width: number }> = [];
               const row = rows[index]; // Multi variant - use row at current index
-              
-              // Use customColumns passed from ExcelLikeProductForm to know which fields to include
-              if (customColumns && customColumns.length > 0) {
-                customColumns.forEach(customCol => {
-                  const value = row[customCol.key as keyof ProductRowData];
-                  // Remove custom_ prefix when sending to backend
-                  const backendKey = customCol.key.startsWith('custom_') 
-                    ? customCol.key.replace(/^custom_/, '') 
-                    : customCol.key;
-                  // Include value even if empty (backend can handle empty strings)
-                  const fieldValue = (value && typeof value === 'string') ? value.trim() : '';
-                  customFieldsMap[backendKey] = fieldValue;
-                  // Store column metadata
-                  customColsMetadata.push({
-                    key: backendKey,
-                    label: customCol.label || backendKey.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase()),
-                    width: customCol.width || 150
-                  });
-                });
-              }
-              
-              // Always include customFields in update payload based on current customColumns
-              // If no custom columns exist, send empty object to clear all custom fields
-              updatePayload.customFields = customFieldsMap;
-              if (customColsMetadata.length > 0) {
-                updatePayload.customColumns = customColsMetadata;
-              } else {
-                // If no custom columns, send empty array to clear customColumns in backend
-                updatePayload.customColumns = [];
-              }
+              // If no custom columns exist, empty values clear all custom fields and columns in the backend
+              updatePayload.customFields = buildCustomFields(customColumns || [], row);
+              updatePayload.customColumns = (customColumns || []).map(toCustomColumnMetadata);
               
               // Include countryDeliverables if seller has permission for price fields
-              if ((hasPermission('hkUsd') || hasPermission('hkHkd') || hasPermission('dubaiUsd') || hasPermission('dubaiAed')) 
+              if (deliveryHubs.some(hub => hasPermission(hub.usdField) || hasPermission(hub.localField))
                   && productData.countryDeliverables && productData.countryDeliverables.length > 0) {
                 // Remove _id fields from countryDeliverables (not allowed by backend validator)
                 // Also normalize paymentTerm values
@@ -1223,13 +1136,6 @@ const ProductVariantForm: React.FC = () => {
         // Products are already created by ExcelLikeProductForm, so we just navigate
         navigate('/products');
       }
-      
-      // Clear localStorage on successful save
-      try {
-        localStorage.removeItem('variant-product-form-data');
-      } catch (error) {
-        console.error('Error clearing localStorage:', error);
-      }
     } catch (error: any) {
       console.error('Error creating product requests:', error);
       toastHelper.showTost(error.message || 'Failed to create product requests', 'error');
@@ -1238,6 +1144,15 @@ const ProductVariantForm: React.FC = () => {
     }
   };
 
+  // Keep the draft in the URL so a reload reopens it
+  const handleDraftChange = useCallback((newDraftId: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.set('draftId', newDraftId);
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
   const handleBack = () => {
     if (step === 'form') {
       // Both single and multi go back to products list when coming from type param
@@ -1393,7 +1308,10 @@ const ProductVariantForm: React.FC = () => {
                 </div>
               </div>
               <div className="p-6">
-                <CascadingVariantSelector onVariantsSelected={handleVariantsSelected} />
+                <CascadingVariantSelector
+                  onVariantsSelected={handleVariantsSelected}
+                  axes={MATRIX_AXES.filter(({ field }) => hasPermission(field)).map(({ axis }) => axis)}
+                />
                 {selectedVariants.length > 0 && (
                   <div className="mt-6 flex justify-end gap-3">
                     <button
@@ -1471,6 +1389,9 @@ const ProductVariantForm: React.FC = () => {
                 onSave={handleFormSave}
                 onCancel={handleCancel}
                 editProducts={editProducts}
+                draftId={editId ? null : draftId}
+                onDraftChange={handleDraftChange}
+                importedSheet={editId ? null : importedSheet}
               />
             )}
           </div>
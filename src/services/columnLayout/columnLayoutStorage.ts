@@ -0,0 +1,85 @@
+import { STORAGE_KEYS, StorageService } from '../../constants/storage';
+
+export interface ColumnLayout {
+  // Column keys in display order; columns not listed keep their default position at the end
+  order: string[];
+  hidden: string[];
+  widths: Record<string, number>;
+  // Frozen on the left, in this order
+  pinned: string[];
+}
+
+type VariantType = 'single' | 'multi';
+
+// Layouts of every seller that used this browser, by seller ID and variant type
+type LayoutStore = Record<string, Partial<Record<VariantType, ColumnLayout>>>;
+
+export const MIN_COLUMN_WIDTH = 60;
+export const MAX_COLUMN_WIDTH = 600;
+
+export const DEFAULT_COLUMN_LAYOUT: ColumnLayout = {
+  order: [],
+  hidden: [],
+  widths: {},
+  pinned: ['skuFamilyId', 'subModelName'],
+};
+
+const getSellerId = (): string => {
+  const user = StorageService.getItem<{ _id?: string; id?: string }>(STORAGE_KEYS.USER);
+  return user?._id || user?.id || 'anonymous';
+};
+
+const readAll = (): LayoutStore => StorageService.getItem<LayoutStore>(STORAGE_KEYS.COLUMN_LAYOUTS) || {};
+
+/**
+ * Product grid column layout (order, visibility, widths, pinning) saved per
+ * seller and per variant type.
+ */
+export class ColumnLayoutStorage {
+  static get(variantType: VariantType): ColumnLayout {
+    const saved = readAll()[getSellerId()]?.[variantType];
+    return saved ? { ...DEFAULT_COLUMN_LAYOUT, ...saved } : DEFAULT_COLUMN_LAYOUT;
+  }
+
+  static save(variantType: VariantType, layout: ColumnLayout): boolean {
+    const store = readAll();
+    store[getSellerId()] = { ...store[getSellerId()], [variantType]: layout };
+    return StorageService.setItem(STORAGE_KEYS.COLUMN_LAYOUTS, store);
+  }
+
+  static reset(variantType: VariantType): ColumnLayout {
+    const store = readAll();
+    const own = { ...store[getSellerId()] };
+    delete own[variantType];
+    store[getSellerId()] = own;
+    StorageService.setItem(STORAGE_KEYS.COLUMN_LAYOUTS, store);
+    return DEFAULT_COLUMN_LAYOUT;
+  }
+}
+
+export const clampColumnWidth = (width: number): number =>
+  Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, Math.round(width)));
+
+/**
+ * Columns in layout order with saved widths applied, pinned columns first.
+ * Hidden columns are included only when `includeHidden` is set (for the column manager).
+ */
+export const applyColumnLayout = <T extends { key: string; width: number }>(
+  columns: T[],
+  layout: ColumnLayout,
+  includeHidden: boolean = false
+): T[] => {
+  const rank = (key: string) => {
+    const index = layout.order.indexOf(key);
+    return index === -1 ? layout.order.length + columns.findIndex(col => col.key === key) : index;
+  };
+  const pinRank = (key: string) => {
+    const index = layout.pinned.indexOf(key);
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+  };
+
+  return columns
+    .filter(col => includeHidden || !layout.hidden.includes(col.key))
+    .map(col => (layout.widths[col.key] ? { ...col, width: layout.widths[col.key] } : col))
+    .sort((a, b) => pinRank(a.key) - pinRank(b.key) || rank(a.key) - rank(b.key));
+};
@@ -32,6 +32,12 @@ export interface Constants {
   deliveryLocation: Array<{
     code: string;
     name: string;
+    // Local currency the hub prices in, e.g. HKD
+    currency?: string;
+    // Country name stored on the hub's countryDeliverables entry
+    country?: string;
+    // IANA time zone of the hub, e.g. Asia/Hong_Kong
+    timeZone?: string;
   }>;
   tags: Array<{
     code: number;
@@ -0,0 +1,40 @@
+import { STORAGE_KEYS, StorageService } from '../../constants/storage';
+import { CustomColumn, normalizeCustomColumn } from '../../utils/customColumns';
+
+// Column libraries of every seller that used this browser, by seller ID
+type LibraryStore = Record<string, CustomColumn[]>;
+
+const getSellerId = (): string => {
+  const user = StorageService.getItem<{ _id?: string; id?: string }>(STORAGE_KEYS.USER);
+  return user?._id || user?.id || 'anonymous';
+};
+
+const readAll = (): LibraryStore => StorageService.getItem<LibraryStore>(STORAGE_KEYS.CUSTOM_COLUMNS) || {};
+
+const readOwn = (): CustomColumn[] => (readAll()[getSellerId()] || []).map(normalizeCustomColumn);
+
+const writeOwn = (columns: CustomColumn[]): boolean => {
+  const store = readAll();
+  store[getSellerId()] = columns;
+  return StorageService.setItem(STORAGE_KEYS.CUSTOM_COLUMNS, store);
+};
+
+/**
+ * Custom column definitions a seller has saved, so the same typed column can
+ * be added to any listing instead of being defined again for each batch.
+ */
+export class CustomColumnStorage {
+  static list(): CustomColumn[] {
+    return [...readOwn()].sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  // Adds the column, or replaces the saved one with the same key
+  static save(column: CustomColumn): boolean {
+    const columns = readOwn().filter(saved => saved.key !== column.key);
+    return writeOwn([...columns, column]);
+  }
+
+  static remove(key: string): void {
+    writeOwn(readOwn().filter(column => column.key !== key));
+  }
+}
@@ -0,0 +1,86 @@
+import axios from 'axios';
+import api from '../api/api';
+import { env } from '../../utils/env';
+import toastHelper from '../../utils/toastHelper';
+
+export interface ExchangeRates {
+  base: 'USD';
+  // Units of each currency per 1 USD, keyed by currency code
+  rates: Record<string, number>;
+  updatedAt: string | null;
+}
+
+interface ExchangeRatesPayload {
+  base?: string;
+  rates?: Partial<Record<string, number | string>>;
+  updatedAt?: string;
+}
+
+const toRate = (value: number | string | undefined): number => {
+  const rate = Number(value);
+  return rate > 0 ? rate : 0;
+};
+
+const fetchRates = async (): Promise<ExchangeRates> => {
+  const url = env.exchangeRatesUrl;
+  const isBackend = url.startsWith('/api/');
+
+  try {
+    const res = isBackend ? await api.get(`${env.baseUrl}${url}`) : await axios.get(url);
+    // Backend responses wrap the table in { status, data }; the JSON file is the table itself
+    if (isBackend && res.data?.status !== 200) {
+      throw new Error(res.data?.message || 'Failed to fetch exchange rates');
+    }
+    const payload: ExchangeRatesPayload = (isBackend ? res.data.data : res.data) || {};
+    const rates: Record<string, number> = {};
+    Object.entries(payload.rates || {}).forEach(([currency, value]) => {
+      const rate = toRate(value);
+      if (rate) rates[currency.toUpperCase()] = rate;
+    });
+    if (Object.keys(rates).length === 0) {
+      throw new Error('Exchange rate table has no rates');
+    }
+    return { base: 'USD', rates, updatedAt: payload.updatedAt || null };
+  } catch (error) {
+    const errorMessage = (axios.isAxiosError(error) && error.response?.data?.message)
+      || (error instanceof Error && error.message)
+      || 'Failed to fetch exchange rates';
+    toastHelper.showTost(errorMessage, 'error');
+    throw new Error(errorMessage);
+  }
+};
+
+// Rates change rarely; share one request across every grid opened in this session
+let cached: Promise<ExchangeRates> | null = null;
+
+export class ExchangeRateService {
+  static getRates = async (): Promise<ExchangeRates> => {
+    if (!cached) {
+      cached = fetchRates().catch(err => {
+        cached = null;
+        throw err;
+      });
+    }
+    return cached;
+  };
+}
+
+/**
+ * How far (in percent) a row's rate is from the reference rate. The rate is
+ * taken from the XE column, or implied by the USD and local prices when XE is
+ * empty. Returns null when there is nothing to compare.
+ */
+export const getRateDeviation = (
+  usd: unknown,
+  local: unknown,
+  xe: unknown,
+  referenceRate: number
+): { rate: number; percent: number } | null => {
+  if (!referenceRate) return null;
+  const usdValue = parseFloat(String(usd ?? '')) || 0;
+  const localValue = parseFloat(String(local ?? '')) || 0;
+  const xeValue = parseFloat(String(xe ?? '')) || 0;
+  const rate = xeValue > 0 ? xeValue : usdValue > 0 && localValue > 0 ? localValue / usdValue : 0;
+  if (!rate) return null;
+  return { rate, percent: (Math.abs(rate - referenceRate) / referenceRate) * 100 };
+};
@@ -0,0 +1,48 @@
+import { STORAGE_KEYS, StorageService } from '../../constants/storage';
+
+export interface Holiday {
+  // yyyy-MM-dd
+  date: string;
+  name: string;
+}
+
+// Holidays by current location code
+export type HolidayCalendars = Record<string, Holiday[]>;
+
+// Calendars of every seller that used this browser, by seller ID
+type CalendarStore = Record<string, HolidayCalendars>;
+
+const getSellerId = (): string => {
+  const user = StorageService.getItem<{ _id?: string; id?: string }>(STORAGE_KEYS.USER);
+  return user?._id || user?.id || 'anonymous';
+};
+
+const readAll = (): CalendarStore => StorageService.getItem<CalendarStore>(STORAGE_KEYS.HOLIDAY_CALENDARS) || {};
+
+const readOwn = (): HolidayCalendars => readAll()[getSellerId()] || {};
+
+const writeOwn = (calendars: HolidayCalendars): boolean => {
+  const store = readAll();
+  store[getSellerId()] = calendars;
+  return StorageService.setItem(STORAGE_KEYS.HOLIDAY_CALENDARS, store);
+};
+
+/**
+ * Public holidays a seller keeps for each current location, skipped when a
+ * shipping time is counted in business days.
+ */
+export class HolidayCalendarStorage {
+  static getAll(): HolidayCalendars {
+    return readOwn();
+  }
+
+  // Replaces every location's holidays, kept sorted by date; empty locations are dropped
+  static save(calendars: HolidayCalendars): HolidayCalendars {
+    const sorted: HolidayCalendars = {};
+    Object.entries(calendars).forEach(([location, holidays]) => {
+      if (holidays.length > 0) sorted[location] = [...holidays].sort((a, b) => a.date.localeCompare(b.date));
+    });
+    writeOwn(sorted);
+    return sorted;
+  }
+}
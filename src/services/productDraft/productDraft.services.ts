@@ -0,0 +1,125 @@
+import { AxiosError } from "axios";
+import api from "../api/api";
+import { env } from "../../utils/env";
+import toastHelper from "../../utils/toastHelper";
+import { ApiResponse } from "../products/products.services";
+import { ProductDraft, ProductDraftStorage } from "./productDraftStorage";
+
+export interface SaveProductDraftRequest {
+  id: string;
+  name: string;
+  variantType: 'single' | 'multi';
+  rows: ProductDraft['rows'];
+  customColumns: ProductDraft['customColumns'];
+  totalMoq?: number | string;
+  submitResults?: ProductDraft['submitResults'];
+  // Server `updatedAt` the client last saw; the server answers 409 if its copy is newer
+  baseUpdatedAt?: string | null;
+  // Overwrite the server copy regardless of baseUpdatedAt (last writer wins)
+  force?: boolean;
+}
+
+export type ProductDraftSyncResult =
+  | { status: 'synced'; draft: ProductDraft }
+  | { status: 'conflict'; remote: ProductDraft }
+  | { status: 'missing' }
+  | { status: 'error'; message: string };
+
+export class ProductDraftService {
+  // Returns the 409 response (with the server's copy as data) instead of throwing
+  static save = async (payload: SaveProductDraftRequest): Promise<ApiResponse<ProductDraft>> => {
+    const url = `${env.baseUrl}/api/seller/product-draft/save`;
+    try {
+      const res = await api.post(url, payload);
+      return res.data;
+    } catch (error) {
+      const err = error as AxiosError<ApiResponse>;
+      if (err.response?.status === 409) {
+        return { status: 409, message: err.response.data?.message || 'Draft was changed elsewhere', data: err.response.data?.data };
+      }
+      const errorMessage = err.response?.data?.message || 'Failed to save draft';
+      console.error(errorMessage);
+      throw new Error(errorMessage);
+    }
+  };
+
+  static list = async (): Promise<ApiResponse<ProductDraft[]>> => {
+    const url = `${env.baseUrl}/api/seller/product-draft/list`;
+    try {
+      const res = await api.post(url, {});
+      return res.data;
+    } catch (error) {
+      const err = error as AxiosError<ApiResponse>;
+      const errorMessage = err.response?.data?.message || 'Failed to list drafts';
+      console.error(errorMessage);
+      throw new Error(errorMessage);
+    }
+  };
+
+  static get = async (id: string): Promise<ApiResponse<ProductDraft>> => {
+    const url = `${env.baseUrl}/api/seller/product-draft/get`;
+    try {
+      const res = await api.post(url, { id });
+      return res.data;
+    } catch (error) {
+      const err = error as AxiosError<ApiResponse>;
+      // A draft that was never synced does not exist on the server yet
+      if (err.response?.status === 404) {
+        return { status: 404, message: err.response.data?.message || 'Draft not found' };
+      }
+      const errorMessage = err.response?.data?.message || 'Failed to get draft';
+      console.error(errorMessage);
+      throw new Error(errorMessage);
+    }
+  };
+
+  static delete = async (id: string, showToast: boolean = true): Promise<ApiResponse> => {
+    const url = `${env.baseUrl}/api/seller/product-draft/delete`;
+    try {
+      const res = await api.post(url, { id });
+      return res.data;
+    } catch (error) {
+      const err = error as AxiosError<ApiResponse>;
+      if (err.response?.status === 404) {
+        return { status: 404, message: 'Draft not found' };
+      }
+      const errorMessage = err.response?.data?.message || 'Failed to delete draft';
+      if (showToast) {
+        toastHelper.showTost(errorMessage, 'error');
+      }
+      throw new Error(errorMessage);
+    }
+  };
+
+  /**
+   * Pushes the local copy of a draft to the server. Without `force` the push
+   * fails with a conflict when someone else saved the draft since our last sync.
+   */
+  static sync = async (id: string, force: boolean = false): Promise<ProductDraftSyncResult> => {
+    const local = ProductDraftStorage.get(id);
+    if (!local) return { status: 'missing' };
+    try {
+      const res = await ProductDraftService.save({
+        id: local.id,
+        name: local.name,
+        variantType: local.variantType,
+        rows: local.rows,
+        customColumns: local.customColumns,
+        totalMoq: local.totalMoq,
+        submitResults: local.submitResults,
+        baseUpdatedAt: local.syncedAt || null,
+        force,
+      });
+      if (res.status === 409 && res.data) {
+        return { status: 'conflict', remote: res.data };
+      }
+      if (res.status !== 200 || !res.data) {
+        return { status: 'error', message: res.message || 'Failed to save draft' };
+      }
+      ProductDraftStorage.markSynced(id, res.data.updatedAt, local.updatedAt);
+      return { status: 'synced', draft: res.data };
+    } catch (error) {
+      return { status: 'error', message: (error as Error).message };
+    }
+  };
+}
@@ -0,0 +1,204 @@
+import { STORAGE_KEYS, StorageService } from '../../constants/storage';
+import type { ProductRowData, RowSubmitResult } from '../../components/products/ExcelLikeProductForm';
+import type { CustomColumn } from '../../utils/customColumns';
+
+export interface ProductDraft {
+  id: string;
+  name: string;
+  variantType: 'single' | 'multi';
+  rows: ProductRowData[];
+  // Drafts saved before typed columns only have key, label and width; the grid normalizes them
+  customColumns: CustomColumn[];
+  totalMoq?: number | string;
+  // Rows already sent, by row ID, so created rows stay locked when the draft is reopened
+  submitResults?: Record<string, RowSubmitResult>;
+  createdAt: string;
+  updatedAt: string;
+  // Server `updatedAt` of the copy this one was last synced with
+  syncedAt?: string;
+  // Local changes not yet pushed to the server
+  dirty?: boolean;
+}
+
+export type ProductDraftContent = Pick<ProductDraft, 'variantType' | 'rows' | 'customColumns' | 'totalMoq' | 'submitResults'>;
+
+// Drafts of every seller that used this browser, by seller ID
+type DraftStore = Record<string, ProductDraft[]>;
+
+// Single autosave slot used before named drafts existed
+const LEGACY_DRAFT_KEY = 'variant-product-form-data';
+
+interface LegacyDraft {
+  variantType?: string;
+  rows?: ProductRowData[];
+  customColumns?: ProductDraft['customColumns'];
+  totalMoq?: number | string;
+  timestamp?: string;
+}
+
+const getSellerId = (): string => {
+  const user = StorageService.getItem<{ _id?: string; id?: string }>(STORAGE_KEYS.USER);
+  return user?._id || user?.id || 'anonymous';
+};
+
+const readAll = (): DraftStore => StorageService.getItem<DraftStore>(STORAGE_KEYS.PRODUCT_DRAFTS) || {};
+
+const readOwn = (): ProductDraft[] => readAll()[getSellerId()] || [];
+
+const writeOwn = (drafts: ProductDraft[]): boolean => {
+  const store = readAll();
+  store[getSellerId()] = drafts;
+  return StorageService.setItem(STORAGE_KEYS.PRODUCT_DRAFTS, store);
+};
+
+const generateId = (): string =>
+  `draft_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Named, locally stored drafts of the product grid for the signed-in seller.
+ */
+export class ProductDraftStorage {
+  static defaultName(variantType: 'single' | 'multi', date: Date = new Date()): string {
+    const label = variantType === 'multi' ? 'Multi-variant' : 'Single-variant';
+    return `${label} draft ${date.toLocaleString()}`;
+  }
+
+  // Newest first
+  static list(): ProductDraft[] {
+    this.migrateLegacyDraft();
+    return [...readOwn()].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  static get(id: string): ProductDraft | null {
+    return readOwn().find(draft => draft.id === id) || null;
+  }
+
+  static create(content: ProductDraftContent, name?: string): ProductDraft {
+    const now = new Date().toISOString();
+    const draft: ProductDraft = {
+      ...content,
+      id: generateId(),
+      name: name?.trim() || this.defaultName(content.variantType),
+      createdAt: now,
+      updatedAt: now,
+      dirty: true,
+    };
+    writeOwn([...readOwn(), draft]);
+    return draft;
+  }
+
+  // Overwrites the content of an existing draft; returns null if it was deleted meanwhile
+  static update(id: string, content: ProductDraftContent): ProductDraft | null {
+    const drafts = readOwn();
+    const index = drafts.findIndex(draft => draft.id === id);
+    if (index === -1) return null;
+    const updated: ProductDraft = { ...drafts[index], ...content, updatedAt: new Date().toISOString(), dirty: true };
+    drafts[index] = updated;
+    writeOwn(drafts);
+    return updated;
+  }
+
+  static rename(id: string, name: string): ProductDraft | null {
+    const trimmed = name.trim();
+    const drafts = readOwn();
+    const index = drafts.findIndex(draft => draft.id === id);
+    if (index === -1 || !trimmed) return null;
+    drafts[index] = { ...drafts[index], name: trimmed, updatedAt: new Date().toISOString(), dirty: true };
+    writeOwn(drafts);
+    return drafts[index];
+  }
+
+  // The copy starts unsubmitted, so rows created from the original can be edited and sent again
+  static duplicate(id: string): ProductDraft | null {
+    const source = this.get(id);
+    if (!source) return null;
+    return this.create(
+      {
+        variantType: source.variantType,
+        rows: source.rows,
+        customColumns: source.customColumns,
+        totalMoq: source.totalMoq,
+      },
+      `${source.name} (copy)`
+    );
+  }
+
+  static remove(id: string): void {
+    writeOwn(readOwn().filter(draft => draft.id !== id));
+  }
+
+  /**
+   * Records a successful push. `pushedUpdatedAt` is the local `updatedAt` that was
+   * sent, so edits made while the request was in flight stay dirty.
+   */
+  static markSynced(id: string, serverUpdatedAt: string, pushedUpdatedAt: string): void {
+    const drafts = readOwn();
+    const index = drafts.findIndex(draft => draft.id === id);
+    if (index === -1) return;
+    drafts[index] = {
+      ...drafts[index],
+      syncedAt: serverUpdatedAt,
+      dirty: drafts[index].updatedAt === pushedUpdatedAt ? false : drafts[index].dirty,
+    };
+    writeOwn(drafts);
+  }
+
+  // Replaces (or adds) the local copy with the server's version
+  static replaceFromServer(remote: ProductDraft): ProductDraft {
+    const draft: ProductDraft = {
+      ...remote,
+      rows: remote.rows || [],
+      customColumns: remote.customColumns || [],
+      syncedAt: remote.updatedAt,
+      dirty: false,
+    };
+    writeOwn([...readOwn().filter(d => d.id !== remote.id), draft]);
+    return draft;
+  }
+
+  /**
+   * Brings the local cache in line with the server's draft list. Drafts with
+   * unsynced local changes are left alone; their IDs are returned so the
+   * caller can push them.
+   */
+  static mergeServerList(remotes: ProductDraft[]): string[] {
+    remotes.forEach(remote => {
+      const local = this.get(remote.id);
+      if (!local || (!local.dirty && local.syncedAt !== remote.updatedAt)) {
+        this.replaceFromServer(remote);
+      }
+    });
+    const remoteIds = new Set(remotes.map(remote => remote.id));
+    const drafts = readOwn();
+    // A synced draft missing from the server was deleted on another device
+    writeOwn(drafts.filter(draft => remoteIds.has(draft.id) || draft.dirty || !draft.syncedAt));
+    return drafts.filter(draft => draft.dirty).map(draft => draft.id);
+  }
+
+  /**
+   * Moves the old single-slot autosave into a named draft so it is not lost.
+   */
+  static migrateLegacyDraft(): void {
+    const legacy = StorageService.getItem<LegacyDraft>(LEGACY_DRAFT_KEY);
+    if (!legacy) return;
+    if ((legacy.variantType === 'single' || legacy.variantType === 'multi') && Array.isArray(legacy.rows) && legacy.rows.length > 0) {
+      const parsed = legacy.timestamp ? new Date(legacy.timestamp) : null;
+      const savedAt = parsed && !isNaN(parsed.getTime()) ? parsed : new Date();
+      writeOwn([
+        ...readOwn(),
+        {
+          id: generateId(),
+          name: this.defaultName(legacy.variantType, savedAt),
+          variantType: legacy.variantType,
+          rows: legacy.rows,
+          customColumns: Array.isArray(legacy.customColumns) ? legacy.customColumns : [],
+          totalMoq: legacy.totalMoq,
+          createdAt: savedAt.toISOString(),
+          updatedAt: savedAt.toISOString(),
+          dirty: true,
+        },
+      ]);
+    }
+    StorageService.removeItem(LEGACY_DRAFT_KEY);
+  }
+}
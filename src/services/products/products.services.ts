@@ -1,6 +1,7 @@
 import api from "../api/api";
 import { env } from "../../utils/env";
 import toastHelper from "../../utils/toastHelper";
+import type { SellerDashboardStats } from "../dashboard/dashboard.services";
 
 export interface CreateProductRequest {
   specification: string;
@@ -21,6 +22,25 @@ export interface CreateProductRequest {
   purchaseType: string;
 }
 
+export type CustomColumnType = 'text' | 'number' | 'date' | 'boolean' | 'select' | 'multiselect';
+
+// Custom field values keep their column's type: numbers, booleans and
+// multi-select lists are not sent as strings
+export type CustomFieldValue = string | number | boolean | string[] | null;
+
+// Custom column definition stored with the product; the key has no custom_ prefix
+export interface CustomColumnMetadata {
+  key: string;
+  label: string;
+  width: number;
+  // Columns saved before typed columns existed have no type and are text
+  type?: CustomColumnType;
+  options?: string[];
+  required?: boolean;
+  min?: string;
+  max?: string;
+}
+
 export interface GetProductRequest {
   id: string;
 }
@@ -65,17 +85,65 @@ export interface UpdateProductRequest {
   batteryHealth?: string;
   lockUnlock?: boolean;
   startTime?: string;
+  // IANA zone the seller entered startTime / expiryTime in
+  scheduleTimeZone?: string;
   isStatus?: string;
-  customFields?: Record<string, string>;
-  customColumns?: Array<{ key: string; label: string; width: number }>;
+  customFields?: Record<string, CustomFieldValue>;
+  customColumns?: CustomColumnMetadata[];
   adminCustomMessage?: string | null;
 }
 
+// Review status of a product, keyed like the dashboard's statusBreakdown
+export type ProductReviewStatus = keyof SellerDashboardStats['statusBreakdown'];
+
+// Whether a product is listed (isStatus), keyed like the dashboard's isStatusBreakdown
+export type ProductActiveStatus = keyof SellerDashboardStats['isStatusBreakdown'];
+
+// Inclusive range; a missing bound is open
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+// Structured product list filters. Lists match any of their values; filters
+// that are left out do not restrict the list.
+export interface ProductListFilters {
+  skuFamilyIds?: string[];
+  storages?: string[];
+  colors?: string[];
+  // Grade IDs
+  grades?: string[];
+  // Country spec codes
+  countries?: string[];
+  sims?: string[];
+  // Delivery hub codes the product is priced for
+  hubs?: string[];
+  // Price ranges by currency code (USD, HKD, AED, ...)
+  prices?: Array<NumberRange & { currency: string }>;
+  stock?: NumberRange;
+  isFlashDeal?: boolean;
+  isNegotiable?: boolean;
+  // Expiry time window as ISO instants
+  expiry?: { from?: string; to?: string };
+}
+
+export type ProductSortField = 'name' | 'simType' | 'color' | 'storage' | 'price' | 'country' | 'stock' | 'expiryTime' | 'createdAt';
+
+// Sort levels are applied in order, the first one first
+export interface ProductListSort {
+  field: ProductSortField;
+  direction: 'asc' | 'desc';
+}
+
 export interface ListProductsRequest {
   page: number;
   limit: number;
   search?: string;
   includeExpired?: boolean;
+  status?: ProductReviewStatus;
+  isStatus?: ProductActiveStatus;
+  filters?: ProductListFilters;
+  sort?: ProductListSort[];
 }
 
 export interface ApiResponse<T = any> {
@@ -160,8 +228,10 @@ export class ProductService {
     }
   };
 
+  // Pass showToast = false when updating as part of a batch; the caller reports the results
   static update = async (
-    payload: UpdateProductRequest
+    payload: UpdateProductRequest,
+    showToast: boolean = true
   ): Promise<ApiResponse> => {
     const url = `${env.baseUrl}/api/seller/product/update`;
     try {
@@ -286,6 +356,9 @@ export class ProductService {
       if (payload.startTime !== undefined) {
         processedPayload.startTime = payload.startTime;
       }
+      if (payload.scheduleTimeZone !== undefined) {
+        processedPayload.scheduleTimeZone = payload.scheduleTimeZone;
+      }
       if (payload.isStatus !== undefined) {
         processedPayload.isStatus = payload.isStatus;
       }
@@ -316,10 +389,12 @@ export class ProductService {
       
       const res = await api.post(url, processedPayload);
       const data: ApiResponse = res.data;
-      toastHelper.showTost(
-        data.message || "Product updated successfully",
-        "success"
-      );
+      if (showToast) {
+        toastHelper.showTost(
+          data.message || "Product updated successfully",
+          "success"
+        );
+      }
       return data;
     } catch (err: any) {
       const errorMessage =
@@ -327,7 +402,9 @@ export class ProductService {
         err?.response?.data?.error ||
         err?.message ||
         "Failed to update product";
-      toastHelper.showTost(errorMessage, "error");
+      if (showToast) {
+        toastHelper.showTost(errorMessage, "error");
+      }
       throw new Error(errorMessage);
     }
   };
@@ -459,14 +536,17 @@ export class ProductService {
   };
 
   // Create seller product request (for new product request system)
-  static createSellerProductRequest = async (productData: any): Promise<ApiResponse> => {
+  // Pass showToast = false when submitting a batch; the caller reports per-row results instead
+  static createSellerProductRequest = async (productData: any, showToast: boolean = true): Promise<ApiResponse> => {
     const url = `${env.baseUrl}/api/seller/product/create-request`;
     try {
       const res = await api.post(url, productData);
       if (res.data?.status !== 200) {
         throw new Error(res.data?.message || 'Failed to create product request');
       }
-      toastHelper.showTost(res.data.message || 'Product request submitted successfully!', 'success');
+      if (showToast) {
+        toastHelper.showTost(res.data.message || 'Product request submitted successfully!', 'success');
+      }
       return res.data;
     } catch (err: any) {
       const errorCode = err.response?.data?.code || err.response?.data?.data?.code;
@@ -478,7 +558,9 @@ export class ProductService {
         throw new Error(errorMessage);
       }
       
-      toastHelper.showTost(errorMessage, 'error');
+      if (showToast) {
+        toastHelper.showTost(errorMessage, 'error');
+      }
       throw new Error(errorMessage);
     }
   };
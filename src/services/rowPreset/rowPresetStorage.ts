@@ -0,0 +1,116 @@
+import { STORAGE_KEYS, StorageService } from '../../constants/storage';
+import { formatDay } from '../../utils/productGridValues';
+
+// Grid columns a preset can fill. Shipping time is stored as a day offset
+// (`shippingDays`) since a fixed date would go stale.
+export const ROW_PRESET_FIELDS = [
+  'packing',
+  'currentLocation',
+  'paymentTerm',
+  'paymentMethod',
+  'warranty',
+  'negotiableFixed',
+] as const;
+
+export type RowPresetField = typeof ROW_PRESET_FIELDS[number];
+
+export interface RowPreset {
+  id: string;
+  name: string;
+  values: Partial<Record<RowPresetField, string>>;
+  // Ship this many days after the day the preset is applied; null leaves shipping time alone
+  shippingDays: number | null;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RowPresetInput = Pick<RowPreset, 'name' | 'values' | 'shippingDays'>;
+
+// Presets of every seller that used this browser, by seller ID
+type PresetStore = Record<string, RowPreset[]>;
+
+const getSellerId = (): string => {
+  const user = StorageService.getItem<{ _id?: string; id?: string }>(STORAGE_KEYS.USER);
+  return user?._id || user?.id || 'anonymous';
+};
+
+const readAll = (): PresetStore => StorageService.getItem<PresetStore>(STORAGE_KEYS.ROW_PRESETS) || {};
+
+const readOwn = (): RowPreset[] => readAll()[getSellerId()] || [];
+
+const writeOwn = (presets: RowPreset[]): boolean => {
+  const store = readAll();
+  store[getSellerId()] = presets;
+  return StorageService.setItem(STORAGE_KEYS.ROW_PRESETS, store);
+};
+
+/**
+ * Named sets of recurring listing defaults (packing, location, payment, ...)
+ * saved per seller.
+ */
+export class RowPresetStorage {
+  static list(): RowPreset[] {
+    return [...readOwn()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  static get(id: string): RowPreset | null {
+    return readOwn().find(preset => preset.id === id) || null;
+  }
+
+  static getDefault(): RowPreset | null {
+    return readOwn().find(preset => preset.isDefault) || null;
+  }
+
+  // Creates a preset, or updates the one with `id`
+  static save(input: RowPresetInput, id?: string): RowPreset {
+    const presets = readOwn();
+    const now = new Date().toISOString();
+    const index = id ? presets.findIndex(preset => preset.id === id) : -1;
+    const preset: RowPreset = index === -1
+      ? {
+          ...input,
+          name: input.name.trim(),
+          id: `preset_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+          isDefault: presets.length === 0,
+          createdAt: now,
+          updatedAt: now,
+        }
+      : { ...presets[index], ...input, name: input.name.trim(), updatedAt: now };
+    if (index === -1) {
+      presets.push(preset);
+    } else {
+      presets[index] = preset;
+    }
+    writeOwn(presets);
+    return preset;
+  }
+
+  static remove(id: string): void {
+    writeOwn(readOwn().filter(preset => preset.id !== id));
+  }
+
+  // Pass null to have no default preset
+  static setDefault(id: string | null): void {
+    writeOwn(readOwn().map(preset => ({ ...preset, isDefault: preset.id === id })));
+  }
+}
+
+/**
+ * Cell values a preset writes, with shipping time resolved against `today`.
+ * Empty preset fields are left out so they do not blank existing cells.
+ */
+export const resolveRowPreset = (preset: RowPreset, today: Date = new Date()): Record<string, string> => {
+  const values: Record<string, string> = {};
+  ROW_PRESET_FIELDS.forEach(field => {
+    const value = preset.values[field];
+    if (value !== undefined && value !== '') values[field] = value;
+  });
+  if (preset.shippingDays !== null && preset.shippingDays >= 0) {
+    const date = new Date(today);
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() + preset.shippingDays);
+    values.shippingTime = formatDay(date);
+  }
+  return values;
+};
@@ -0,0 +1,107 @@
+/**
+ * Helpers for moving rectangular cell ranges between the product grid and
+ * spreadsheet applications (Excel, Google Sheets, Numbers).
+ */
+
+// Parse tab-separated text the way spreadsheets write it to the clipboard:
+// cells containing tabs, newlines or quotes are wrapped in double quotes and
+// inner quotes are doubled.
+const parseTsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === '\t') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// Google Sheets and Excel Online put an HTML <table> on the clipboard which
+// survives cells with embedded newlines better than the plain text version.
+const parseHtmlTable = (html: string): string[][] | null => {
+  if (!html || !/<table/i.test(html) || typeof DOMParser === 'undefined') return null;
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const table = doc.querySelector('table');
+  if (!table) return null;
+
+  const rows: string[][] = [];
+  table.querySelectorAll('tr').forEach((tr) => {
+    const cells: string[] = [];
+    tr.querySelectorAll('td, th').forEach((td) => {
+      const text = (td.textContent || '').replace(/\u00a0/g, ' ').trim();
+      const span = Number(td.getAttribute('colspan')) || 1;
+      cells.push(text);
+      for (let i = 1; i < span; i++) cells.push('');
+    });
+    rows.push(cells);
+  });
+
+  return rows.length > 0 ? rows : null;
+};
+
+/**
+ * Read a clipboard payload as a matrix of cell strings. HTML tables are
+ * preferred over plain text; trailing empty rows are dropped.
+ */
+export const parseClipboardGrid = (data: DataTransfer | null): string[][] => {
+  if (!data) return [];
+
+  const matrix = parseHtmlTable(data.getData('text/html')) || parseTsv(data.getData('text/plain'));
+
+  while (matrix.length > 0 && matrix[matrix.length - 1].every((cell) => cell.trim() === '')) {
+    matrix.pop();
+  }
+
+  return matrix;
+};
+
+/**
+ * Serialize a matrix of cell strings as tab-separated text that Excel and
+ * Google Sheets paste back as a range.
+ */
+export const serializeGridToTsv = (matrix: string[][]): string =>
+  matrix
+    .map((cells) =>
+      cells
+        .map((cell) => (/[\t\n\r"]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell))
+        .join('\t')
+    )
+    .join('\n');
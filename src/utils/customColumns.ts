@@ -0,0 +1,148 @@
+import { CustomColumnMetadata, CustomColumnType, CustomFieldValue } from '../services/products/products.services';
+
+/**
+ * Seller-defined product grid columns. Cells hold text like every other grid
+ * column ("12.5", "2025-03-01", "true", "Red, Blue"); values are converted to
+ * their column's type only when a product is saved.
+ */
+export interface CustomColumn {
+  // Grid key, always prefixed with custom_
+  key: string;
+  label: string;
+  width: number;
+  type: CustomColumnType;
+  // Choices of a select or multi-select column
+  options: string[];
+  required: boolean;
+  // Bounds, '' for none: the value of a number, the day of a date (yyyy-MM-dd),
+  // the length of text and the number of choices of a multi-select
+  min: string;
+  max: string;
+}
+
+export const CUSTOM_COLUMN_TYPES: Array<{ type: CustomColumnType; label: string; icon: string }> = [
+  { type: 'text', label: 'Text', icon: 'fa-font' },
+  { type: 'number', label: 'Number', icon: 'fa-hashtag' },
+  { type: 'date', label: 'Date', icon: 'fa-calendar-alt' },
+  { type: 'boolean', label: 'Yes / No', icon: 'fa-toggle-on' },
+  { type: 'select', label: 'Single Select', icon: 'fa-list' },
+  { type: 'multiselect', label: 'Multi Select', icon: 'fa-tasks' },
+];
+
+export const BOOLEAN_OPTIONS = [
+  { code: 'true', name: 'Yes' },
+  { code: 'false', name: 'No' },
+];
+
+const CUSTOM_PREFIX = 'custom_';
+
+export const toCustomColumnKey = (label: string): string =>
+  `${CUSTOM_PREFIX}${label.trim().toLowerCase().replace(/\s+/g, '_')}`;
+
+// The backend stores custom fields and columns without the prefix
+export const toBackendKey = (key: string): string => key.replace(/^custom_/, '');
+
+const labelFromKey = (key: string): string =>
+  toBackendKey(key).replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+
+/**
+ * Complete definition from a draft, the backend or the column library.
+ * Columns saved before typed columns existed become optional text columns.
+ */
+export const normalizeCustomColumn = (raw: Partial<CustomColumnMetadata> & { key: string }): CustomColumn => {
+  const key = raw.key.startsWith(CUSTOM_PREFIX) ? raw.key : `${CUSTOM_PREFIX}${raw.key}`;
+  return {
+    key,
+    label: raw.label || labelFromKey(key),
+    width: raw.width || 150,
+    type: CUSTOM_COLUMN_TYPES.find(option => option.type === raw.type)?.type || 'text',
+    options: Array.isArray(raw.options) ? raw.options.map(String) : [],
+    required: Boolean(raw.required),
+    min: raw.min === undefined || raw.min === null ? '' : String(raw.min),
+    max: raw.max === undefined || raw.max === null ? '' : String(raw.max),
+  };
+};
+
+export const toCustomColumnMetadata = (column: CustomColumn): CustomColumnMetadata => ({
+  key: toBackendKey(column.key),
+  label: column.label,
+  width: column.width,
+  type: column.type,
+  options: column.options,
+  required: column.required,
+  min: column.min,
+  max: column.max,
+});
+
+// Multi-select cells are stored as "Red, Blue", like payment terms
+export const splitMultiValue = (value: unknown): string[] =>
+  String(value ?? '').split(',').map(part => part.trim()).filter(Boolean);
+
+/** Grid text for a stored custom field value of any type. */
+export const toCustomCellValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+/** The first rule the value breaks, or null when it is valid. */
+export const validateCustomValue = (column: CustomColumn, value: unknown): string | null => {
+  const text = String(value ?? '').trim();
+  const { label, min, max } = column;
+  if (text === '') return column.required ? `${label} is required` : null;
+
+  switch (column.type) {
+    case 'number': {
+      const number = Number(text);
+      if (isNaN(number)) return `${label} must be a number`;
+      if (min !== '' && number < Number(min)) return `${label} must be at least ${min}`;
+      if (max !== '' && number > Number(max)) return `${label} must be at most ${max}`;
+      return null;
+    }
+    case 'date':
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || isNaN(new Date(text).getTime())) return `${label} is not a valid date`;
+      // yyyy-MM-dd strings sort in date order
+      if (min !== '' && text < min) return `${label} cannot be before ${min}`;
+      if (max !== '' && text > max) return `${label} cannot be after ${max}`;
+      return null;
+    case 'boolean':
+      return text === 'true' || text === 'false' ? null : `${label} must be Yes or No`;
+    case 'select':
+      return column.options.includes(text) ? null : `"${text}" is not an option of ${label}`;
+    case 'multiselect': {
+      const values = splitMultiValue(text);
+      const unknown = values.filter(option => !column.options.includes(option));
+      if (unknown.length > 0) return `Unknown ${label} option(s): ${unknown.join(', ')}`;
+      if (min !== '' && values.length < Number(min)) return `Choose at least ${min} ${label} option(s)`;
+      if (max !== '' && values.length > Number(max)) return `Choose at most ${max} ${label} option(s)`;
+      return null;
+    }
+    default:
+      if (min !== '' && text.length < Number(min)) return `${label} must be at least ${min} characters`;
+      if (max !== '' && text.length > Number(max)) return `${label} must be at most ${max} characters`;
+      return null;
+  }
+};
+
+export const serializeCustomValue = (column: CustomColumn, value: unknown): CustomFieldValue => {
+  const text = String(value ?? '').trim();
+  switch (column.type) {
+    case 'number':
+      return text === '' || isNaN(Number(text)) ? null : Number(text);
+    case 'boolean':
+      return text === '' ? null : text === 'true';
+    case 'multiselect':
+      return splitMultiValue(text);
+    default:
+      return text;
+  }
+};
+
+/** `customFields` payload for a grid row, keyed without the custom_ prefix. */
+export const buildCustomFields = (columns: CustomColumn[], row: Record<string, unknown>): Record<string, CustomFieldValue> => {
+  const fields: Record<string, CustomFieldValue> = {};
+  columns.forEach(column => {
+    fields[toBackendKey(column.key)] = serializeCustomValue(column, row[column.key]);
+  });
+  return fields;
+};
@@ -0,0 +1,162 @@
+import { Constants } from '../services/constants/constants.services';
+import { isValidTimeZone } from './hubTime';
+
+/**
+ * Delivery hubs a product can be priced for. Each hub prices in USD and its
+ * local currency, linked by an XE rate, and becomes one `countryDeliverables`
+ * entry on save.
+ */
+export interface DeliveryHub {
+  // Delivery location code (HK, D, ...)
+  code: string;
+  name: string;
+  // Country name stored on the hub's countryDeliverables entry
+  country: string;
+  currency: string;
+  // Grid columns (also the seller permission field names)
+  usdField: string;
+  xeField: string;
+  localField: string;
+  // Local price key on the countryDeliverables entry (hkd, aed, ...)
+  localKey: string;
+  // IANA zone flash deal schedules for the hub are entered in
+  timeZone: string;
+}
+
+interface StoredDeliverable {
+  basePrice?: number;
+  usd?: number;
+  exchangeRate?: number | null;
+  xe?: number;
+}
+
+interface HubDefaults {
+  name: string;
+  fieldPrefix: string;
+  country: string;
+  currency: string;
+  timeZone: string;
+}
+
+// Hubs that existed before delivery locations carried a currency. Their field
+// prefixes and country names are already stored on products and permissions.
+const KNOWN_HUBS: Record<string, HubDefaults> = {
+  HK: { name: 'Hong Kong', fieldPrefix: 'hk', country: 'Hongkong', currency: 'HKD', timeZone: 'Asia/Hong_Kong' },
+  D: { name: 'Dubai', fieldPrefix: 'dubai', country: 'Dubai', currency: 'AED', timeZone: 'Asia/Dubai' },
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const normalize = (value: string) => value.toUpperCase().replace(/[\s_\-.]+/g, '');
+
+const createHub = (
+  code: string,
+  name: string | undefined,
+  country: string | undefined,
+  currency: string | undefined,
+  timeZone: string | undefined
+): DeliveryHub | null => {
+  const known = KNOWN_HUBS[code];
+  const hubCurrency = (currency || known?.currency || '').toUpperCase();
+  // A hub without a currency cannot be priced
+  if (!hubCurrency) return null;
+  const prefix = known?.fieldPrefix || code.toLowerCase();
+  return {
+    code,
+    name: name || known?.name || code,
+    country: country || known?.country || name || code,
+    currency: hubCurrency,
+    usdField: `${prefix}Usd`,
+    xeField: `${prefix}Xe`,
+    localField: `${prefix}${capitalize(hubCurrency.toLowerCase())}`,
+    localKey: hubCurrency.toLowerCase(),
+    // Hubs without a (valid) zone schedule in UTC rather than the seller's own zone
+    timeZone: [timeZone, known?.timeZone].find(zone => zone && isValidTimeZone(zone)) || 'UTC',
+  };
+};
+
+/**
+ * Hubs from the seller constants' delivery locations, in their configured
+ * order. Falls back to the known hubs until constants have loaded.
+ */
+export const getDeliveryHubs = (constants: Constants | null | undefined): DeliveryHub[] => {
+  const locations = constants?.deliveryLocation?.length
+    ? constants.deliveryLocation
+    : Object.entries(KNOWN_HUBS).map(([code, hub]) => ({ code, name: hub.name, currency: hub.currency, country: hub.country, timeZone: hub.timeZone }));
+
+  return locations
+    .map(location => createHub(String(location.code), location.name, location.country, location.currency, location.timeZone))
+    .filter((hub): hub is DeliveryHub => hub !== null);
+};
+
+export const getHubPriceFields = (hub: DeliveryHub): string[] => [hub.usdField, hub.xeField, hub.localField];
+
+export const getHubFieldLabel = (hub: DeliveryHub, field: string): string => {
+  if (field === hub.usdField) return `${hub.name} USD`;
+  if (field === hub.xeField) return `${hub.name} XE`;
+  return `${hub.name} ${hub.currency}`;
+};
+
+export const findHubByField = (hubs: DeliveryHub[], field: string): DeliveryHub | undefined =>
+  hubs.find(hub => field === hub.usdField || field === hub.xeField || field === hub.localField);
+
+// Deliverables are stored by country name; older products may use the hub name or code
+export const findHubByCountry = (hubs: DeliveryHub[], country: string | null | undefined): DeliveryHub | undefined => {
+  if (!country) return undefined;
+  const needle = normalize(country);
+  return hubs.find(hub => [hub.country, hub.name, hub.code].some(value => normalize(value) === needle));
+};
+
+/**
+ * Grid prices for a hub from its stored USD deliverable. The local price is
+ * derived from the base price and rate, as the admin panel does.
+ */
+export const getHubPrices = (hub: DeliveryHub, deliverable: StoredDeliverable | null | undefined): Record<string, number> => {
+  const usd = deliverable?.basePrice || deliverable?.usd || 0;
+  const xe = deliverable?.exchangeRate || deliverable?.xe || 0;
+  return {
+    [hub.usdField]: usd,
+    [hub.xeField]: xe,
+    [hub.localField]: usd && xe ? usd * xe : 0,
+  };
+};
+
+export const hasHubPrice = (hub: DeliveryHub, row: Record<string, unknown>): boolean =>
+  Boolean(row[hub.usdField] || row[hub.localField]);
+
+// Price values of a countryDeliverables entry for the hub's grid fields
+export const buildHubDeliverablePrices = (hub: DeliveryHub, row: Record<string, unknown>) => {
+  const usd = parseFloat(String(row[hub.usdField])) || 0;
+  const xe = parseFloat(String(row[hub.xeField])) || 0;
+  const local = parseFloat(String(row[hub.localField])) || 0;
+  return {
+    basePrice: usd,
+    calculatedPrice: usd,
+    exchangeRate: xe || null,
+    price: usd,
+    usd,
+    xe,
+    local,
+    [hub.localKey]: local,
+  };
+};
+
+/**
+ * Map a spec country name or code to its code in `constants.spec.COUNTRY`.
+ * Unknown values are returned trimmed so the backend can validate them.
+ */
+export const normalizeCountryCode = (value: string | null | undefined, constants: Constants | null | undefined): string | null => {
+  if (!value || !value.trim()) return null;
+  const trimmed = value.trim();
+  const needle = normalize(trimmed);
+  const match = constants?.spec?.COUNTRY?.find(country => normalize(String(country.code)) === needle)
+    || constants?.spec?.COUNTRY?.find(country => normalize(String(country.name)) === needle);
+  return match ? match.code : trimmed;
+};
+
+export const getCountryName = (code: string | null | undefined, constants: Constants | null | undefined): string => {
+  if (!code) return '-';
+  const needle = normalize(code);
+  const match = constants?.spec?.COUNTRY?.find(country => normalize(String(country.code)) === needle);
+  return match?.name || code;
+};
@@ -0,0 +1,151 @@
+import { Constants } from '../services/constants/constants.services';
+import { normalizeCountryCode } from './deliveryHubs';
+
+/**
+ * Duplicate listing detection for the product grid: rows repeated within the
+ * batch, and rows that (nearly) match a product the seller already lists.
+ */
+
+// Attributes that together identify a listing
+export const DUPLICATE_FIELDS = [
+  { key: 'skuFamilyId', label: 'SKU Family' },
+  { key: 'subModelName', label: 'Sub Model' },
+  { key: 'storage', label: 'Storage' },
+  { key: 'colour', label: 'Colour' },
+  { key: 'country', label: 'Country' },
+  { key: 'sim', label: 'SIM' },
+  { key: 'grade', label: 'Grade' },
+];
+
+// Stored as IDs, so only an exact match counts
+const ID_FIELDS = ['skuFamilyId', 'grade'];
+
+export type DuplicateAction = 'merge' | 'skip' | 'update' | 'keep';
+
+export interface BatchDuplicate {
+  // Grid rows with identical attributes; the first one is kept on merge or skip
+  rows: number[];
+}
+
+export interface ExistingListing {
+  id: string;
+  listingNo: string;
+  stock: number;
+  // Attributes in the grid's own format, keyed like DUPLICATE_FIELDS
+  values: Record<string, string>;
+}
+
+export interface ExistingDuplicate {
+  row: number;
+  listing: ExistingListing;
+  // Fields that only match approximately (typos, spacing); empty for an exact match
+  similarFields: string[];
+}
+
+// Product as returned by ProductService.list
+export interface ListedProduct {
+  _id?: string;
+  skuFamilyId?: { _id?: string } | string | null;
+  gradeId?: { _id?: string } | string | null;
+  specification?: string;
+  storage?: string;
+  color?: string;
+  country?: string;
+  simType?: string;
+  stock?: number;
+  customerListingNumber?: string | number;
+  uniqueListingNo?: string;
+  isFlashDeal?: boolean | string;
+  startTime?: string;
+  expiryTime?: string;
+}
+
+const normalize = (value: unknown) => String(value ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const refId = (value: ListedProduct['skuFamilyId']) =>
+  (value && typeof value === 'object' ? value._id : value) || '';
+
+// Edit distance, stopping early once it is known to exceed `max`
+const isWithinEdits = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return false;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    if (Math.min(...current) > max) return false;
+    previous = current;
+  }
+  return previous[b.length] <= max;
+};
+
+/** 'exact' when the values are the same ignoring case and punctuation, 'similar' for a likely typo. */
+const compareValues = (field: string, a: unknown, b: unknown): 'exact' | 'similar' | null => {
+  const left = normalize(a);
+  const right = normalize(b);
+  if (left === right) return 'exact';
+  if (!left || !right) return null;
+  if (ID_FIELDS.includes(field) || Math.min(left.length, right.length) < 4) return null;
+  return left.includes(right) || right.includes(left) || isWithinEdits(left, right, 1) ? 'similar' : null;
+};
+
+// Rows and listings with the same key are the same SKU
+export const listingKey = (row: Record<string, unknown>) => DUPLICATE_FIELDS.map(field => normalize(row[field.key])).join('|');
+
+export const toExistingListing = (product: ListedProduct, constants: Constants | null): ExistingListing => ({
+  id: product._id || '',
+  listingNo: String(product.customerListingNumber || product.uniqueListingNo || ''),
+  stock: Number(product.stock) || 0,
+  values: {
+    skuFamilyId: refId(product.skuFamilyId),
+    subModelName: product.specification || '',
+    storage: product.storage || '',
+    colour: product.color || '',
+    country: normalizeCountryCode(product.country, constants) || '',
+    sim: product.simType || '',
+    grade: refId(product.gradeId),
+  },
+});
+
+/** Groups of target rows whose identifying attributes are all the same. */
+export const findBatchDuplicates = (rows: Array<Record<string, unknown>>, targets: number[]): BatchDuplicate[] => {
+  const groups = new Map<string, number[]>();
+  targets.forEach(index => {
+    // Rows missing the SKU family are caught by validation, not here
+    if (!rows[index].skuFamilyId) return;
+    const key = listingKey(rows[index]);
+    groups.set(key, [...(groups.get(key) || []), index]);
+  });
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => ({ rows: group }));
+};
+
+/**
+ * The closest existing listing for each target row, if any. Every attribute must
+ * match, but text attributes may differ by a typo; exact matches win.
+ */
+export const findExistingDuplicates = (
+  rows: Array<Record<string, unknown>>,
+  targets: number[],
+  listings: ExistingListing[]
+): ExistingDuplicate[] => {
+  const duplicates: ExistingDuplicate[] = [];
+  targets.forEach(index => {
+    let best: ExistingDuplicate | null = null;
+    for (const listing of listings) {
+      const similarFields: string[] = [];
+      const matches = DUPLICATE_FIELDS.every(field => {
+        const result = compareValues(field.key, rows[index][field.key], listing.values[field.key]);
+        if (result === 'similar') similarFields.push(field.key);
+        return result !== null;
+      });
+      if (matches && (!best || similarFields.length < best.similarFields.length)) {
+        best = { row: index, listing, similarFields };
+      }
+    }
+    if (best) duplicates.push(best);
+  });
+  return duplicates;
+};
@@ -12,6 +12,12 @@ export const env = {
     .split(',')
     .map((p: string) => p.trim())
     .filter((p: string) => !!p),
+  // Reference USD exchange rates for the product grid. A path under /api/ is requested
+  // from the backend; anything else is fetched as a JSON file (default: public/exchange-rates.json)
+  // VITE_EXCHANGE_RATES_URL="/api/seller/exchange-rate/get"
+  exchangeRatesUrl: import.meta.env.VITE_EXCHANGE_RATES_URL || `${import.meta.env.BASE_URL}exchange-rates.json`,
+  // Warn when a row's XE differs from the reference rate by more than this many percent
+  xeDeviationPercent: Number(import.meta.env.VITE_XE_DEVIATION_PERCENT) || 5,
 };
 
 
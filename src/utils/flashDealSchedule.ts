@@ -0,0 +1,69 @@
+import { Constants } from '../services/constants/constants.services';
+import { ExistingListing, listingKey, ListedProduct, toExistingListing } from './duplicateListings';
+
+/**
+ * Overlapping flash deals on the same SKU: two rows of the batch, or a row
+ * and a flash deal the seller already lists, running at the same time.
+ */
+
+export interface ExistingFlashDeal {
+  listing: ExistingListing;
+  start: number | null;
+  end: number;
+}
+
+export interface FlashDealOverlap {
+  row: number;
+  // The other row of the batch, or the existing listing
+  otherRow?: number;
+  listing?: ExistingListing;
+}
+
+const isFlashDeal = (value: unknown) => value === true || ['1', 'true', 'yes'].includes(String(value ?? '').toLowerCase());
+
+const toTime = (iso: unknown): number | null => {
+  const time = iso ? new Date(String(iso)).getTime() : NaN;
+  return isNaN(time) ? null : time;
+};
+
+// Deals without a start time start when submitted (rows) or are already running (listings)
+const overlaps = (a: { start: number | null; end: number }, b: { start: number | null; end: number }, now: number) =>
+  (a.start ?? now) < b.end && (b.start ?? now) < a.end;
+
+export const toExistingFlashDeal = (product: ListedProduct, constants: Constants | null): ExistingFlashDeal | null => {
+  const end = toTime(product.expiryTime);
+  if (!isFlashDeal(product.isFlashDeal) || end === null) return null;
+  return { listing: toExistingListing(product, constants), start: toTime(product.startTime), end };
+};
+
+/**
+ * Target rows whose flash deal overlaps another target row or an existing deal
+ * on the same SKU. A batch pair is reported once, on its later row; deals that
+ * have already ended are ignored.
+ */
+export const findFlashDealOverlaps = (
+  rows: Array<Record<string, unknown>>,
+  targets: number[],
+  existing: ExistingFlashDeal[],
+  now: number = Date.now()
+): FlashDealOverlap[] => {
+  const deals = targets.flatMap(index => {
+    const end = toTime(rows[index].endTime);
+    if (!isFlashDeal(rows[index].flashDeal) || !rows[index].skuFamilyId || end === null || end <= now) return [];
+    return [{ row: index, key: listingKey(rows[index]), start: toTime(rows[index].startTime), end }];
+  });
+  const liveExisting = existing
+    .filter(deal => deal.end > now)
+    .map(deal => ({ ...deal, key: listingKey(deal.listing.values) }));
+
+  const found: FlashDealOverlap[] = [];
+  deals.forEach((deal, position) => {
+    deals.slice(0, position).forEach(other => {
+      if (other.key === deal.key && overlaps(deal, other, now)) found.push({ row: deal.row, otherRow: other.row });
+    });
+    liveExisting.forEach(other => {
+      if (other.key === deal.key && overlaps(deal, other, now)) found.push({ row: deal.row, listing: other.listing });
+    });
+  });
+  return found;
+};
@@ -0,0 +1,73 @@
+import { coerceCellValue, formatCellValue, GridValueContext } from './productGridValues';
+
+/**
+ * Find/replace over the product grid. Cells are matched on the text the seller
+ * sees (option names rather than codes), and every replacement is run back
+ * through `coerceCellValue` so select-type columns only receive valid codes.
+ */
+
+export interface FindReplaceOptions {
+  find: string;
+  replace: string;
+  // Restrict the search to one column; null searches every column
+  field: string | null;
+  matchCase: boolean;
+  // Match the whole cell text instead of any occurrence inside it
+  wholeCell: boolean;
+}
+
+export interface FindReplaceMatch {
+  row: number;
+  field: string;
+  before: string;
+  after: string;
+  // False when the replaced text is not a valid value for the column
+  valid: boolean;
+  message?: string;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Cells in `fields` that match `options.find`, with the text they would have
+ * after the replacement. Cells the replacement would not change are left out.
+ */
+export const findGridMatches = (
+  rows: Array<Record<string, unknown>>,
+  fields: string[],
+  options: FindReplaceOptions,
+  ctx: GridValueContext,
+  isWritable: (row: number, field: string) => boolean = () => true
+): FindReplaceMatch[] => {
+  // An empty search only makes sense as "find empty cells"
+  if (options.find === '' && !options.wholeCell) return [];
+
+  const pattern = new RegExp(escapeRegExp(options.find), options.matchCase ? 'g' : 'gi');
+  const searchFields = options.field ? fields.filter(field => field === options.field) : fields;
+  const matches: FindReplaceMatch[] = [];
+
+  rows.forEach((row, rowIndex) => {
+    searchFields.forEach(field => {
+      if (!isWritable(rowIndex, field)) return;
+      const before = formatCellValue(field, row[field], ctx, row);
+
+      let after: string;
+      if (options.wholeCell) {
+        const isMatch = options.matchCase
+          ? before.trim() === options.find.trim()
+          : before.trim().toLowerCase() === options.find.trim().toLowerCase();
+        if (!isMatch) return;
+        after = options.replace;
+      } else {
+        if (!before.match(pattern)) return;
+        after = before.replace(pattern, () => options.replace);
+      }
+
+      const result = coerceCellValue(field, after, ctx, row);
+      if (result.ok && result.value === String(row[field] ?? '')) return;
+      matches.push({ row: rowIndex, field, before, after, valid: result.ok, message: result.message });
+    });
+  });
+
+  return matches;
+};
@@ -0,0 +1,146 @@
+import type { DeliveryHub } from './deliveryHubs';
+
+/**
+ * Wall-clock times in a delivery hub's time zone. Schedules are stored as UTC
+ * instants (ISO strings) and entered, shown and pasted as the time in the hub
+ * the deal is for, so a seller in another country schedules in buyers' time.
+ * Conversions go through Intl, which knows each zone's daylight saving rules.
+ */
+
+export interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatWallTime = (wall: WallTime): string =>
+  `${wall.year}-${pad(wall.month)}-${pad(wall.day)} ${pad(wall.hour)}:${pad(wall.minute)}`;
+
+export const getSellerTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Formatters are costly to create and the grid formats every visible time cell
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Wall-clock time of an instant in a zone. */
+export const toWallTime = (instant: Date, timeZone: string): WallTime => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(instant).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+};
+
+/** Minutes the zone is ahead of UTC at an instant (e.g. 480 for Hong Kong). */
+export const getTimeZoneOffset = (instant: Date, timeZone: string): number => {
+  const wall = toWallTime(instant, timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 60000) * 60000) / 60000);
+};
+
+/**
+ * Instant of a wall-clock time in a zone. Around a DST change the zone has two
+ * offsets: a time that occurs twice resolves to the first occurrence, and a
+ * time skipped by the change moves forward by the skipped amount.
+ */
+export const fromWallTime = (wall: WallTime, timeZone: string): Date => {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  // Zones change offset at most once a day, so these are the offsets on either side
+  const day = 24 * 60 * 60000;
+  const before = asUtc - getTimeZoneOffset(new Date(asUtc - day), timeZone) * 60000;
+  const after = asUtc - getTimeZoneOffset(new Date(asUtc + day), timeZone) * 60000;
+  const matches = [before, after]
+    .filter(time => formatInTimeZone(new Date(time), timeZone) === formatWallTime(wall))
+    .sort((a, b) => a - b);
+  return new Date(matches.length > 0 ? matches[0] : before);
+};
+
+/** "UTC+08:00" for the zone at an instant. */
+export const formatUtcOffset = (instant: Date, timeZone: string): string => {
+  const offset = getTimeZoneOffset(instant, timeZone);
+  const sign = offset < 0 ? '-' : '+';
+  return `UTC${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+};
+
+/** "2025-03-01 10:00" in the zone. */
+export const formatInTimeZone = (instant: Date, timeZone: string): string => formatWallTime(toWallTime(instant, timeZone));
+
+/**
+ * Date pickers work in the browser's zone, so they are given a Date whose
+ * local fields read as the wall-clock time in the hub's zone, and the picked
+ * Date is read back the same way.
+ */
+export const toZonedPickerDate = (iso: string, timeZone: string): Date | null => {
+  const instant = new Date(iso);
+  if (isNaN(instant.getTime())) return null;
+  const wall = toWallTime(instant, timeZone);
+  return new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+};
+
+export const fromZonedPickerDate = (date: Date, timeZone: string): string =>
+  fromWallTime({
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: date.getHours(),
+    minute: date.getMinutes(),
+  }, timeZone).toISOString();
+
+/** Wall time typed or pasted as "2025-03-01 10:00" (or "2025-03-01T10:00"), without a zone. */
+export const parseWallTime = (text: string): WallTime | null => {
+  const match = text.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?$/);
+  if (!match) return null;
+  const wall = {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: Number(match[4] || 0),
+    minute: Number(match[5] || 0),
+  };
+  const check = new Date(Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute));
+  return check.getUTCMonth() === wall.month - 1 && check.getUTCDate() === wall.day && wall.hour < 24 ? wall : null;
+};
+
+/** Same wall-clock time in another zone, e.g. when a schedule's hub is changed. */
+export const rezoneInstant = (iso: string, fromTimeZone: string, toTimeZone: string): string => {
+  const instant = new Date(iso);
+  if (isNaN(instant.getTime()) || fromTimeZone === toTimeZone) return iso;
+  return fromWallTime(toWallTime(instant, fromTimeZone), toTimeZone).toISOString();
+};
+
+/** Hub of a row's schedule; rows saved before schedules had a hub use the first hub. */
+export const getScheduleHub = (hubs: DeliveryHub[], hubCode: unknown): DeliveryHub | undefined =>
+  hubs.find(hub => hub.code === hubCode) || hubs[0];
+
+export const getScheduleTimeZone = (hubs: DeliveryHub[], hubCode: unknown): string =>
+  getScheduleHub(hubs, hubCode)?.timeZone || 'UTC';
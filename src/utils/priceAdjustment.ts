@@ -0,0 +1,35 @@
+/**
+ * Bulk repricing for the product grid: percentage or fixed changes to the
+ * delivery hub prices, rounded to a step.
+ */
+
+export const ROUNDING_STEPS = [0.01, 0.05, 0.1, 0.5, 1, 5, 10];
+
+export interface PriceAdjustment {
+  // Hub USD and local price columns
+  fields: string[];
+  mode: 'percent' | 'fixed';
+  // Signed: -5 lowers prices by 5% (or by 5 in the field's currency)
+  amount: number;
+  roundTo: number;
+}
+
+/**
+ * New price for `value`, or null when the cell is empty or the change would
+ * take the price to zero or below.
+ */
+export const adjustPrice = (value: unknown, adjustment: PriceAdjustment): string | null => {
+  const current = parseFloat(String(value ?? ''));
+  if (isNaN(current) || current <= 0) return null;
+
+  const raw = adjustment.mode === 'percent'
+    ? current * (1 + adjustment.amount / 100)
+    : current + adjustment.amount;
+  const step = adjustment.roundTo > 0 ? adjustment.roundTo : 0.01;
+  const rounded = Math.round(raw / step) * step;
+  return rounded > 0 ? rounded.toFixed(2) : null;
+};
+
+// A set price that adjustPrice leaves unchanged because it would fall to zero or below
+export const isPriceZeroedOut = (value: unknown, adjustment: PriceAdjustment): boolean =>
+  parseFloat(String(value ?? '')) > 0 && adjustPrice(value, adjustment) === null;
@@ -0,0 +1,71 @@
+import type { CustomColumn } from './customColumns';
+import { DeliveryHub } from './deliveryHubs';
+
+/**
+ * Columns of the product grid, in their default order. Spreadsheet export and
+ * import use the same keys and labels, so exported files load back in.
+ */
+
+export type ProductGridColumn =
+  | (CustomColumn & { group?: undefined; subgroup?: undefined; permissionField?: undefined })
+  | { key: string; label: string; width: number; group: string; permissionField: string; subgroup?: undefined }
+  | { key: string; label: string; width: number; group: string; subgroup: string; permissionField: string };
+
+// Each delivery hub's price columns share a banner
+export const hubSubgroup = (hub: DeliveryHub) => `HUB_${hub.code}`;
+
+/** Every column before permissions and the seller's layout are applied. */
+export const getProductGridColumns = (
+  variantType: 'single' | 'multi',
+  deliveryHubs: DeliveryHub[],
+  customColumns: CustomColumn[]
+): ProductGridColumn[] => [
+  { key: 'supplierId', label: 'SUPPLIER ID*', width: 180, group: 'Supplier Info', permissionField: 'supplierId' },
+  { key: 'supplierListingNumber', label: 'SUPPLIER LISTING NO*', width: 180, group: 'Supplier Info', permissionField: 'supplierListingNumber' },
+  { key: 'customerListingNumber', label: 'CUSTOMER LISTING NO*', width: 180, group: 'Supplier Info', permissionField: 'customerListingNumber' },
+  { key: 'skuFamilyId', label: 'SKU FAMILY*', width: 200, group: 'Product Detail', permissionField: 'skuFamilyId' },
+  { key: 'subModelName', label: 'SUB MODEL NAME*', width: 150, group: 'Product Detail', permissionField: 'subModelName' },
+  { key: 'storage', label: 'STORAGE*', width: 100, group: 'Product Detail', permissionField: 'storage' },
+  { key: 'colour', label: 'COLOUR*', width: 100, group: 'Product Detail', permissionField: 'colour' },
+  { key: 'country', label: 'COUNTRY*', width: 120, group: 'Product Detail', permissionField: 'country' },
+  { key: 'sim', label: 'SIM*', width: 120, group: 'Product Detail', permissionField: 'sim' },
+  { key: 'version', label: 'VERSION', width: 120, group: 'Product Detail', permissionField: 'version' },
+  { key: 'grade', label: 'GRADE*', width: 120, group: 'Product Detail', permissionField: 'grade' },
+  { key: 'status', label: 'STATUS*', width: 100, group: 'Product Detail', permissionField: 'status' },
+  { key: 'condition', label: 'CONDITION', width: 120, group: 'Product Detail', permissionField: 'condition' },
+  { key: 'lockUnlock', label: 'LOCK/UNLOCK*', width: 120, group: 'Product Detail', permissionField: 'lockUnlock' },
+  { key: 'warranty', label: 'WARRANTY', width: 120, group: 'Product Detail', permissionField: 'warranty' },
+  { key: 'batteryHealth', label: 'BATTERY HEALTH', width: 130, group: 'Product Detail', permissionField: 'batteryHealth' },
+  { key: 'packing', label: 'PACKING*', width: 120, group: 'Pricing/Delivery', permissionField: 'packing' },
+  { key: 'currentLocation', label: 'CURRENT LOCATION*', width: 150, group: 'Pricing/Delivery', permissionField: 'currentLocation' },
+  ...deliveryHubs.flatMap(hub => [
+    { key: hub.usdField, label: 'USD', width: 110, group: `${hub.name.toUpperCase()} DELIVERY`, subgroup: hubSubgroup(hub), permissionField: hub.usdField },
+    { key: hub.xeField, label: 'XE', width: 110, group: `${hub.name.toUpperCase()} DELIVERY`, subgroup: hubSubgroup(hub), permissionField: hub.xeField },
+    { key: hub.localField, label: hub.currency, width: 110, group: `${hub.name.toUpperCase()} DELIVERY`, subgroup: hubSubgroup(hub), permissionField: hub.localField },
+  ]),
+  { key: 'deliveryLocation', label: 'DELIVERY LOCATION', width: 150, group: 'Pricing/Delivery', permissionField: 'deliveryLocation' },
+  { key: 'customMessage', label: 'CUSTOM MESSAGE', width: 150, group: 'Pricing/Delivery', permissionField: 'customMessage' },
+  { key: 'totalQty', label: 'TOTAL QTY*', width: 100, group: 'Pricing/Delivery', permissionField: 'totalQty' },
+  { key: 'moqPerVariant', label: 'MOQ/VARIANT*', width: 120, group: 'Pricing/Delivery', permissionField: 'moqPerVariant' },
+  { key: 'weight', label: 'WEIGHT', width: 100, group: 'Pricing/Delivery', permissionField: 'weight' },
+  { key: 'purchaseType', label: 'PURCHASE TYPE*', width: 130, group: 'Pricing/Delivery', permissionField: 'purchaseType' },
+  ...(variantType === 'multi' ? [{ key: 'totalMoq', label: 'MOQ PER CART*', width: 150, group: 'Pricing/Delivery', permissionField: 'totalMoq' }] : []),
+  { key: 'paymentTerm', label: 'PAYMENT TERM*', width: 200, group: 'Payment', permissionField: 'paymentTerm' },
+  { key: 'paymentMethod', label: 'PAYMENT METHOD*', width: 200, group: 'Payment', permissionField: 'paymentMethod' },
+  { key: 'negotiableFixed', label: 'NEGOTIABLE/FIXED', width: 150, group: 'Other Info', permissionField: 'negotiableFixed' },
+  { key: 'flashDeal', label: 'FLASH DEAL', width: 130, group: 'Other Info', permissionField: 'flashDeal' },
+  { key: 'shippingTime', label: 'SHIPPING TIME', width: 130, group: 'Other Info', permissionField: 'shippingTime' },
+  { key: 'vendor', label: 'VENDOR', width: 100, group: 'Other Info', permissionField: 'vendor' },
+  { key: 'vendorListingNo', label: 'VENDOR LISTING NO', width: 150, group: 'Other Info', permissionField: 'vendorListingNo' },
+  { key: 'carrier', label: 'CARRIER', width: 100, group: 'Other Info', permissionField: 'carrier' },
+  { key: 'carrierListingNo', label: 'CARRIER LISTING NO', width: 150, group: 'Other Info', permissionField: 'carrierListingNo' },
+  { key: 'uniqueListingNo', label: 'UNIQUE LISTING NO', width: 150, group: 'Other Info', permissionField: 'uniqueListingNo' },
+  { key: 'tags', label: 'TAGS', width: 150, group: 'Other Info', permissionField: 'tags' },
+  { key: 'adminCustomMessage', label: 'ADMIN CUSTOM MESSAGE', width: 180, group: 'Other Info', permissionField: 'adminCustomMessage' },
+  // Hub whose time zone START and END TIME are entered in
+  { key: 'scheduleHub', label: 'SCHEDULE TZ', width: 130, group: 'Other Info', permissionField: 'endTime' },
+  { key: 'startTime', label: 'START TIME', width: 150, group: 'Other Info', permissionField: 'startTime' },
+  { key: 'endTime', label: 'END TIME *', width: 150, group: 'Other Info', permissionField: 'endTime' },
+  { key: 'remark', label: 'REMARK', width: 150, group: 'Other Info', permissionField: 'remark' },
+  ...customColumns, // Add dynamic custom columns at the end
+];
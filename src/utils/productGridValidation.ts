@@ -0,0 +1,207 @@
+import type { ProductRowData } from '../components/products/ExcelLikeProductForm';
+import { GROUP_LEVEL_FIELDS } from './productGridValues';
+import { CustomColumn, validateCustomValue } from './customColumns';
+
+/**
+ * Row validation shared by the product grid (live cell errors, submit) and the
+ * edit save path in ProductVariantForm.
+ */
+
+export interface GridValidationError {
+  row: number;
+  field: string;
+  message: string;
+}
+
+export interface GridValidationOptions {
+  variantType: 'single' | 'multi';
+  hasPermission: (fieldName: string) => boolean;
+  totalMoq?: number | string;
+  // Existing listings keep their original start time, so it may be in the past
+  isEditMode?: boolean;
+  now?: Date;
+  // Typed custom columns, checked against their own required/min/max rules
+  customColumns?: CustomColumn[];
+}
+
+// Required fields, checked only when the seller has permission for them
+const REQUIRED_FIELDS: Array<{ field: keyof ProductRowData; label: string }> = [
+  { field: 'supplierId', label: 'SUPPLIER ID' },
+  { field: 'skuFamilyId', label: 'SKU Family' },
+  { field: 'subModelName', label: 'SubModelName' },
+  { field: 'storage', label: 'Storage' },
+  { field: 'colour', label: 'Colour' },
+  { field: 'country', label: 'Country' },
+  { field: 'sim', label: 'SIM' },
+  { field: 'grade', label: 'GRADE' },
+  { field: 'status', label: 'STATUS' },
+  { field: 'lockUnlock', label: 'LOCK/UNLOCK' },
+  { field: 'packing', label: 'PACKING' },
+  { field: 'currentLocation', label: 'CURRENT LOCATION' },
+  { field: 'totalQty', label: 'TOTAL QTY' },
+  { field: 'moqPerVariant', label: 'MOQ/VARIANT' },
+  { field: 'supplierListingNumber', label: 'SUPPLIER LISTING NO' },
+  { field: 'customerListingNumber', label: 'CUSTOMER LISTING NO' },
+  { field: 'paymentTerm', label: 'PAYMENT TERM' },
+  { field: 'paymentMethod', label: 'PAYMENT METHOD' },
+  { field: 'endTime', label: 'END TIME' },
+];
+
+const isBlank = (value: unknown): boolean =>
+  value === null || value === undefined || String(value).trim() === '';
+
+const toDate = (value: unknown): Date | null => {
+  if (isBlank(value)) return null;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const toNumber = (value: unknown): number | null => {
+  if (isBlank(value)) return null;
+  const number = Number(value);
+  return isFinite(number) ? number : null;
+};
+
+export interface MoqSummary {
+  variantCount: number;
+  // Sum of TOTAL QTY over the variants that have one
+  totalQty: number;
+  // Smallest MOQ/VARIANT, null when no variant has one yet
+  minMoq: number | null;
+  totalMoq: number | null;
+  fullCount: number;
+  partialCount: number;
+}
+
+export const getMoqSummary = (rows: ProductRowData[], totalMoq?: number | string): MoqSummary => {
+  const moqs = rows.map(row => toNumber(row.moqPerVariant)).filter((moq): moq is number => moq !== null);
+  const fullCount = rows.filter(row => row.purchaseType === 'full').length;
+  return {
+    variantCount: rows.length,
+    totalQty: rows.reduce((sum, row) => sum + (toNumber(row.totalQty) ?? 0), 0),
+    minMoq: moqs.length > 0 ? Math.min(...moqs) : null,
+    totalMoq: toNumber(totalMoq),
+    fullCount,
+    partialCount: rows.length - fullCount,
+  };
+};
+
+/**
+ * MOQ rules buyers rely on to be able to fill a cart: a variant's MOQ fits in
+ * its quantity (and equals it for a full purchase), and a multi-variant
+ * group's MOQ PER CART lies between the smallest variant MOQ and the combined
+ * quantity of the group.
+ */
+export const validateMoqRules = (
+  rows: ProductRowData[],
+  options: Pick<GridValidationOptions, 'variantType' | 'hasPermission' | 'totalMoq'>
+): GridValidationError[] => {
+  const { hasPermission, variantType, totalMoq } = options;
+  const errors: GridValidationError[] = [];
+  if (!hasPermission('moqPerVariant')) return errors;
+
+  rows.forEach((row, index) => {
+    const moq = toNumber(row.moqPerVariant);
+    const qty = hasPermission('totalQty') ? toNumber(row.totalQty) : null;
+    const push = (message: string) =>
+      errors.push({ row: index, field: 'moqPerVariant', message: `Row ${index + 1}: ${message}` });
+
+    if (moq === null) return;
+    if (moq <= 0) {
+      push('MOQ/VARIANT must be greater than 0');
+    } else if (qty !== null && moq > qty) {
+      push(`MOQ/VARIANT (${moq}) cannot exceed TOTAL QTY (${qty})`);
+    } else if (qty !== null && hasPermission('purchaseType') && row.purchaseType === 'full' && moq !== qty) {
+      push(`A full purchase sells the whole stock, so MOQ/VARIANT must equal TOTAL QTY (${qty})`);
+    }
+  });
+
+  const summary = getMoqSummary(rows, totalMoq);
+  if (variantType === 'multi' && hasPermission('totalMoq') && summary.totalMoq !== null && summary.totalMoq > 0) {
+    if (summary.minMoq !== null && summary.totalMoq < summary.minMoq) {
+      errors.push({
+        row: 0,
+        field: 'totalMoq',
+        message: `MOQ PER CART (${summary.totalMoq}) is below the smallest MOQ/VARIANT (${summary.minMoq})`,
+      });
+    }
+    if (hasPermission('totalQty') && summary.totalMoq > summary.totalQty) {
+      errors.push({
+        row: 0,
+        field: 'totalMoq',
+        message: `MOQ PER CART (${summary.totalMoq}) exceeds the combined TOTAL QTY of all variants (${summary.totalQty})`,
+      });
+    }
+  }
+
+  return errors;
+};
+
+export const validateProductRows = (
+  rows: ProductRowData[],
+  options: GridValidationOptions
+): GridValidationError[] => {
+  const { hasPermission, variantType, totalMoq, isEditMode = false, customColumns = [] } = options;
+  const now = options.now || new Date();
+  const errors: GridValidationError[] = [];
+
+  rows.forEach((row, index) => {
+    const push = (field: string, message: string) =>
+      errors.push({ row: index, field, message: `Row ${index + 1}: ${message}` });
+
+    // Group-level fields of a multi-variant group are reported once, on the master row
+    const isGroupField = (field: string) =>
+      variantType === 'multi' && index > 0 && GROUP_LEVEL_FIELDS.includes(field);
+
+    REQUIRED_FIELDS.forEach(({ field, label }) => {
+      if (isGroupField(field as string)) return;
+      if (hasPermission(field as string) && isBlank(row[field])) {
+        push(field as string, `${label} is required`);
+      }
+    });
+
+    customColumns.forEach(column => {
+      const message = validateCustomValue(column, row[column.key]);
+      if (message) push(column.key, message);
+    });
+
+    if (isGroupField('startTime')) return;
+
+    const startTime = toDate(row.startTime);
+    const endTime = toDate(row.endTime);
+
+    if (hasPermission('startTime') && !isBlank(row.startTime) && !startTime) {
+      push('startTime', 'START TIME is not a valid date');
+    }
+    if (hasPermission('endTime') && !isBlank(row.endTime) && !endTime) {
+      push('endTime', 'END TIME is not a valid date');
+    }
+
+    // End time must be greater than start time
+    if (hasPermission('startTime') && hasPermission('endTime') && startTime && endTime && endTime <= startTime) {
+      push('endTime', 'END TIME must be greater than START TIME');
+    }
+
+    // No past dates for start time (an empty start time starts when submitted)
+    if (!isEditMode && hasPermission('startTime') && startTime && startTime < now) {
+      push('startTime', 'START TIME cannot be in the past');
+    }
+
+    // No past dates for end time
+    if (hasPermission('endTime') && endTime && endTime < now) {
+      push('endTime', 'END TIME cannot be in the past');
+    }
+  });
+
+  // MOQ PER CART is required for multi-variant products; reported on the master row
+  if (variantType === 'multi' && hasPermission('totalMoq') && rows.length > 0) {
+    const value = typeof totalMoq === 'string' ? totalMoq.trim() : totalMoq;
+    if (!value || Number(value) <= 0) {
+      errors.push({ row: 0, field: 'totalMoq', message: 'MOQ PER CART is required for multi-variant products' });
+    }
+  }
+
+  errors.push(...validateMoqRules(rows, options));
+
+  return errors;
+};
@@ -0,0 +1,339 @@
+import { Constants } from '../services/constants/constants.services';
+import { BOOLEAN_OPTIONS, CustomColumn } from './customColumns';
+import { findHubByField, getDeliveryHubs } from './deliveryHubs';
+import { formatInTimeZone, fromWallTime, getScheduleTimeZone, parseWallTime } from './hubTime';
+
+/**
+ * Conversion between the raw text a seller types or pastes into the product
+ * grid and the codes/IDs the grid actually stores for each column.
+ */
+
+export interface GridValueContext {
+  constants: Constants | null;
+  grades: Array<{ _id: string; title: string; code?: string }>;
+  skuFamilies: Array<{ _id: string; name: string }>;
+  // Typed custom columns of the grid; without them custom cells are free text
+  customColumns?: CustomColumn[];
+}
+
+export interface CoercedCellValue {
+  ok: boolean;
+  value: string;
+  message?: string;
+}
+
+interface CodeOption {
+  code: string;
+  name: string;
+}
+
+// Columns that are generated by the form and never written from outside
+export const READ_ONLY_GRID_FIELDS = [
+  'supplierId',
+  'supplierListingNumber',
+  'customerListingNumber',
+  'uniqueListingNo',
+  'deliveryLocation',
+  'totalMoq',
+];
+
+// Fields that must be shared across all variants in a multi-variant group.
+// These are editable only on the first (master) row and read-only on others.
+export const GROUP_LEVEL_FIELDS = [
+  'currentLocation',
+  'paymentTerm',
+  'paymentMethod',
+  'negotiableFixed',
+  'flashDeal',
+  'shippingTime',
+  'shippingPreset',
+  'scheduleHub',
+  'startTime',
+  'endTime',
+];
+
+// Delivery hub price columns are numeric too; they depend on the constants
+export const NUMERIC_GRID_FIELDS = [
+  'totalQty',
+  'moqPerVariant',
+  'weight',
+];
+
+export const STATUS_OPTIONS: CodeOption[] = [
+  { code: 'active', name: 'Active' },
+  { code: 'nonactive', name: 'Non Active' },
+];
+
+export const CONDITION_OPTIONS = ['AAA', 'A+', 'Mixed'];
+
+export const PURCHASE_TYPE_OPTIONS: CodeOption[] = [
+  { code: 'partial', name: 'Partial' },
+  { code: 'full', name: 'Full' },
+];
+
+const normalize = (value: string): string =>
+  value.toLowerCase().replace(/[\s_\-./]+/g, '');
+
+const matchOption = (options: CodeOption[], raw: string): string | null => {
+  const needle = normalize(raw);
+  const match = options.find(opt => normalize(String(opt.code)) === needle)
+    || options.find(opt => normalize(String(opt.name)) === needle);
+  return match ? String(match.code) : null;
+};
+
+// Multi-value cells (payment terms, methods, tags) accept comma, semicolon or
+// newline separated lists and are stored as "CODE1, CODE2".
+const matchMany = (options: CodeOption[], raw: string): CoercedCellValue => {
+  const parts = raw.split(/[,;\n]/).map(p => p.trim()).filter(Boolean);
+  const codes: string[] = [];
+  const unmatched: string[] = [];
+  parts.forEach(part => {
+    const code = matchOption(options, part);
+    if (code) {
+      if (!codes.includes(code)) codes.push(code);
+    } else {
+      unmatched.push(part);
+    }
+  });
+  if (unmatched.length > 0) {
+    return { ok: false, value: raw, message: `Unknown value(s): ${unmatched.join(', ')}` };
+  }
+  return { ok: true, value: codes.join(', ') };
+};
+
+export const formatDay = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const parseDate = (raw: string): Date | null => {
+  const lower = raw.trim().toLowerCase();
+  if (lower === 'today' || lower === 'tomorrow') {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+    if (lower === 'tomorrow') date.setDate(date.getDate() + 1);
+    return date;
+  }
+  // A bare "2025-03-01" is a calendar day here, not UTC midnight
+  const dayMatch = raw.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dayMatch) {
+    const date = new Date(Number(dayMatch[1]), Number(dayMatch[2]) - 1, Number(dayMatch[3]));
+    return isNaN(date.getTime()) ? null : date;
+  }
+  // "2025-03-01 10:00" is not ISO, but is how spreadsheets usually print it
+  const date = new Date(/^\d{4}-\d{2}-\d{2} \d/.test(raw) ? raw.replace(' ', 'T') : raw);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const getCountryOptions = (ctx: GridValueContext): CodeOption[] =>
+  ctx.constants?.spec?.COUNTRY || [];
+
+export const getSimOptions = (ctx: GridValueContext, countryCode: string): string[] =>
+  ctx.constants?.spec?.COUNTRY?.find(c => c.code === countryCode)?.SIM || [];
+
+/**
+ * Options for a select-style column as `{ code, name }` pairs, or null when the
+ * column accepts free text / numbers.
+ */
+export const getColumnOptions = (field: string, ctx: GridValueContext, row?: Record<string, unknown>): CodeOption[] | null => {
+  const constants = ctx.constants;
+  const customColumn = ctx.customColumns?.find(col => col.key === field);
+  if (customColumn) {
+    if (customColumn.type === 'boolean') return BOOLEAN_OPTIONS;
+    if (customColumn.type === 'select' || customColumn.type === 'multiselect') {
+      return customColumn.options.map(option => ({ code: option, name: option }));
+    }
+    return null;
+  }
+  switch (field) {
+    case 'country':
+      return getCountryOptions(ctx);
+    case 'sim':
+      return getSimOptions(ctx, String(row?.country || '')).map(sim => ({ code: sim, name: sim }));
+    case 'grade':
+      return ctx.grades.map(g => ({ code: g._id, name: g.title }));
+    case 'scheduleHub':
+      return getDeliveryHubs(constants).map(hub => ({ code: hub.code, name: hub.name }));
+    case 'skuFamilyId':
+      return ctx.skuFamilies.map(s => ({ code: s._id, name: s.name }));
+    case 'status':
+      return STATUS_OPTIONS;
+    case 'condition':
+      return CONDITION_OPTIONS.map(c => ({ code: c, name: c }));
+    case 'purchaseType':
+      return PURCHASE_TYPE_OPTIONS;
+    case 'lockUnlock':
+      return constants?.lockStatus || [];
+    case 'negotiableFixed':
+      return constants?.negotiableStatus || [];
+    case 'packing':
+      return constants?.packing || [];
+    case 'currentLocation':
+      return constants?.currentLocation || [];
+    case 'vendor':
+      return constants?.vendor || [];
+    case 'carrier':
+      return constants?.carrier || [];
+    case 'flashDeal':
+      return constants?.flashDeal || [];
+    case 'paymentTerm':
+      return constants?.paymentTerm || [];
+    case 'paymentMethod':
+      return constants?.paymentMethod || [];
+    case 'tags':
+      return (constants?.tags || []).map(t => ({ code: String(t.code), name: t.tag }));
+    default:
+      return null;
+  }
+};
+
+/**
+ * Convert a pasted/typed string into the value stored for `field`. Returns
+ * `ok: false` with the original text when it cannot be matched so the caller
+ * can flag the cell instead of silently dropping input.
+ */
+export const coerceCellValue = (
+  field: string,
+  raw: string,
+  ctx: GridValueContext,
+  row?: Record<string, unknown>
+): CoercedCellValue => {
+  const text = raw.trim();
+  if (text === '') return { ok: true, value: '' };
+
+  const customType = ctx.customColumns?.find(col => col.key === field)?.type;
+  if (NUMERIC_GRID_FIELDS.includes(field) || findHubByField(getDeliveryHubs(ctx.constants), field) || customType === 'number') {
+    // Strip currency symbols and thousands separators ("$1,299.00")
+    const cleaned = text.replace(/[^0-9.-]/g, '');
+    if (cleaned === '' || isNaN(Number(cleaned))) {
+      return { ok: false, value: text, message: `"${text}" is not a number` };
+    }
+    return { ok: true, value: cleaned };
+  }
+
+  switch (customType) {
+    case 'date': {
+      const date = parseDate(text);
+      return date
+        ? { ok: true, value: formatDay(date) }
+        : { ok: false, value: text, message: `"${text}" is not a valid date` };
+    }
+    case 'boolean': {
+      const lower = text.toLowerCase();
+      if (['yes', 'y', 'true', '1'].includes(lower)) return { ok: true, value: 'true' };
+      if (['no', 'n', 'false', '0'].includes(lower)) return { ok: true, value: 'false' };
+      return { ok: false, value: text, message: `"${text}" is not Yes or No` };
+    }
+    case 'multiselect':
+      return matchMany(getColumnOptions(field, ctx, row) || [], text);
+  }
+
+  switch (field) {
+    case 'startTime':
+    case 'endTime': {
+      // Times without a zone are in the zone of the row's schedule hub
+      const wall = parseWallTime(text);
+      const date = wall
+        ? fromWallTime(wall, getScheduleTimeZone(getDeliveryHubs(ctx.constants), row?.scheduleHub))
+        : parseDate(text);
+      return date
+        ? { ok: true, value: date.toISOString() }
+        : { ok: false, value: text, message: `"${text}" is not a valid date` };
+    }
+    case 'shippingTime': {
+      const date = parseDate(text);
+      return date
+        ? { ok: true, value: formatDay(date) }
+        : { ok: false, value: text, message: `"${text}" is not a valid date` };
+    }
+    case 'sim': {
+      if (!row?.country) {
+        return { ok: false, value: text, message: 'Select a country before setting SIM' };
+      }
+      break;
+    }
+    case 'scheduleHub': {
+      // A hub's time zone (Asia/Dubai) names the hub too
+      const hub = getDeliveryHubs(ctx.constants).find(h => h.timeZone.toLowerCase() === text.toLowerCase());
+      if (hub) return { ok: true, value: hub.code };
+      break;
+    }
+    case 'status': {
+      const lower = text.toLowerCase();
+      if (lower === 'inactive' || lower === 'non-active') return { ok: true, value: 'nonactive' };
+      break;
+    }
+    case 'lockUnlock':
+    case 'negotiableFixed':
+    case 'flashDeal': {
+      // Accept the usual spreadsheet booleans on yes/no style columns
+      const lower = text.toLowerCase();
+      const options = getColumnOptions(field, ctx, row) || [];
+      const direct = matchOption(options, text);
+      if (direct) return { ok: true, value: direct };
+      if (['yes', 'y', 'true', 'unlocked', 'unlock', 'negotiable'].includes(lower)) return { ok: true, value: '1' };
+      if (['no', 'n', 'false', 'locked', 'lock', 'fixed'].includes(lower)) return { ok: true, value: '0' };
+      return { ok: false, value: text, message: `"${text}" is not a valid option` };
+    }
+    case 'grade': {
+      const grade = ctx.grades.find(g => g._id === text)
+        || ctx.grades.find(g => normalize(g.title) === normalize(text))
+        || ctx.grades.find(g => g.code && normalize(g.code) === normalize(text));
+      if (grade) return { ok: true, value: grade._id };
+      // Fall back to the grade code list in constants and match on its name
+      const constantGrade = (ctx.constants?.grade || []).find(g => normalize(g.code) === normalize(text));
+      const byName = constantGrade && ctx.grades.find(g => normalize(g.title) === normalize(constantGrade.name));
+      return byName
+        ? { ok: true, value: byName._id }
+        : { ok: false, value: text, message: `Unknown grade "${text}"` };
+    }
+    case 'paymentTerm':
+    case 'paymentMethod':
+    case 'tags':
+      return matchMany(getColumnOptions(field, ctx, row) || [], text);
+  }
+
+  const options = getColumnOptions(field, ctx, row);
+  if (!options) return { ok: true, value: raw };
+
+  const code = matchOption(options, text);
+  return code
+    ? { ok: true, value: code }
+    : { ok: false, value: text, message: `"${text}" is not a valid option` };
+};
+
+/**
+ * Human readable text for a stored cell value (option names instead of codes).
+ * The output round-trips through `coerceCellValue`.
+ */
+export const formatCellValue = (
+  field: string,
+  value: unknown,
+  ctx: GridValueContext,
+  row?: Record<string, unknown>
+): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join(', ');
+
+  const text = String(value);
+  if (text === '') return '';
+
+  if (field === 'startTime' || field === 'endTime') {
+    const date = new Date(text);
+    return isNaN(date.getTime())
+      ? text
+      : formatInTimeZone(date, getScheduleTimeZone(getDeliveryHubs(ctx.constants), row?.scheduleHub));
+  }
+
+  const options = getColumnOptions(field, ctx, row);
+  if (!options) return text;
+
+  const nameFor = (code: string) => options.find(opt => String(opt.code) === code)?.name || code;
+  const isMultiValue = ctx.customColumns?.some(col => col.key === field && col.type === 'multiselect');
+  if (field === 'paymentTerm' || field === 'paymentMethod' || field === 'tags' || isMultiValue) {
+    return text.split(',').map(part => part.trim()).filter(Boolean).map(nameFor).join(', ');
+  }
+  return nameFor(text);
+};
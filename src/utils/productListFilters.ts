@@ -0,0 +1,172 @@
+import { format } from 'date-fns';
+import { Constants } from '../services/constants/constants.services';
+import { NumberRange, ProductListFilters, ProductListSort, ProductSortField } from '../services/products/products.services';
+import { getDeliveryHubs } from './deliveryHubs';
+
+/**
+ * Product list filter builder: the values each filter offers, the chips that
+ * show what is applied, and header-click multi-column sorting.
+ */
+
+export interface FilterOption {
+  code: string;
+  name: string;
+}
+
+// SKU family as returned by SkuFamilyService.getSkuFamilyListByName
+interface SkuFamilySource {
+  _id?: string;
+  name: string;
+  subSkuFamilies?: Array<{
+    storageId?: { title: string } | null;
+    colorId?: { title: string } | null;
+  }>;
+}
+
+// SKU families and grades the options are built from, loaded when the filters are first opened
+export interface ProductFilterSources {
+  skuFamilies: SkuFamilySource[];
+  grades: Array<{ _id?: string; title: string }>;
+}
+
+export type ListFilterKey = 'skuFamilyIds' | 'storages' | 'colors' | 'grades' | 'countries' | 'sims' | 'hubs';
+
+export const LIST_FILTERS: Array<{ key: ListFilterKey; label: string }> = [
+  { key: 'skuFamilyIds', label: 'SKU Family' },
+  { key: 'storages', label: 'Storage' },
+  { key: 'colors', label: 'Color' },
+  { key: 'grades', label: 'Grade' },
+  { key: 'countries', label: 'Country' },
+  { key: 'sims', label: 'SIM Type' },
+  { key: 'hubs', label: 'Hub' },
+];
+
+export type ProductFilterOptions = Record<ListFilterKey, FilterOption[]> & {
+  // Currencies a price range can be set in, USD first
+  currencies: string[];
+};
+
+export const SORT_FIELDS: Array<{ field: ProductSortField; label: string }> = [
+  { field: 'name', label: 'Name' },
+  { field: 'simType', label: 'SIM Type' },
+  { field: 'color', label: 'Color' },
+  { field: 'storage', label: 'Storage' },
+  { field: 'price', label: 'Price (USD)' },
+  { field: 'country', label: 'Country' },
+  { field: 'stock', label: 'Stock' },
+  { field: 'expiryTime', label: 'Expiry' },
+  { field: 'createdAt', label: 'Created' },
+];
+
+const toOptions = (values: string[]): FilterOption[] =>
+  Array.from(new Set(values.filter(Boolean)))
+    .sort((a, b) => a.localeCompare(b))
+    .map(value => ({ code: value, name: value }));
+
+export const getProductFilterOptions = (
+  constants: Constants | null,
+  { skuFamilies, grades }: ProductFilterSources
+): ProductFilterOptions => {
+  const hubs = getDeliveryHubs(constants);
+  const countries = constants?.spec?.COUNTRY || [];
+  const subSkuFamilies = skuFamilies.flatMap(family => family.subSkuFamilies || []);
+  return {
+    skuFamilyIds: skuFamilies.flatMap(family => (family._id ? [{ code: family._id, name: family.name }] : [])),
+    storages: toOptions(subSkuFamilies.map(sub => sub.storageId?.title || '')),
+    colors: toOptions(subSkuFamilies.map(sub => sub.colorId?.title || '')),
+    grades: grades.flatMap(grade => (grade._id ? [{ code: grade._id, name: grade.title }] : [])),
+    countries: countries.map(country => ({ code: country.code, name: country.name })),
+    sims: toOptions(countries.flatMap(country => country.SIM || [])),
+    hubs: hubs.map(hub => ({ code: hub.code, name: hub.name })),
+    currencies: Array.from(new Set(['USD', ...hubs.map(hub => hub.currency).filter(Boolean)])),
+  };
+};
+
+const hasBound = (range: NumberRange | undefined): range is NumberRange =>
+  !!range && (range.min !== undefined || range.max !== undefined);
+
+/** The filters without empty lists and open ranges; undefined when nothing is left to send. */
+export const cleanProductFilters = (filters: ProductListFilters): ProductListFilters | undefined => {
+  const cleaned: ProductListFilters = {};
+  LIST_FILTERS.forEach(({ key }) => {
+    const values = filters[key];
+    if (values && values.length > 0) cleaned[key] = values;
+  });
+  const prices = (filters.prices || []).filter(price => price.currency && hasBound(price));
+  if (prices.length > 0) cleaned.prices = prices;
+  if (hasBound(filters.stock)) cleaned.stock = filters.stock;
+  if (filters.isFlashDeal !== undefined) cleaned.isFlashDeal = filters.isFlashDeal;
+  if (filters.isNegotiable !== undefined) cleaned.isNegotiable = filters.isNegotiable;
+  if (filters.expiry?.from || filters.expiry?.to) cleaned.expiry = filters.expiry;
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+};
+
+export interface FilterChip {
+  // Passed back to removeFilterChip
+  key: string;
+  label: string;
+}
+
+const formatRange = (range: NumberRange): string => {
+  if (range.min !== undefined && range.max !== undefined) return `${range.min} – ${range.max}`;
+  return range.min !== undefined ? `≥ ${range.min}` : `≤ ${range.max}`;
+};
+
+const formatExpiryDay = (iso: string | undefined): string => (iso ? format(new Date(iso), 'yyyy-MM-dd') : '…');
+
+/** One chip per list value and per range or flag, labelled with option names where known. */
+export const getFilterChips = (filters: ProductListFilters, options: ProductFilterOptions | null): FilterChip[] => {
+  const chips: FilterChip[] = [];
+  LIST_FILTERS.forEach(({ key, label }) => {
+    (filters[key] || []).forEach(value => {
+      const name = options?.[key].find(option => option.code === value)?.name || value;
+      chips.push({ key: `${key}:${value}`, label: `${label}: ${name}` });
+    });
+  });
+  (filters.prices || []).filter(hasBound).forEach(price => {
+    chips.push({ key: `prices:${price.currency}`, label: `Price ${price.currency}: ${formatRange(price)}` });
+  });
+  if (hasBound(filters.stock)) chips.push({ key: 'stock', label: `Stock: ${formatRange(filters.stock)}` });
+  if (filters.isFlashDeal !== undefined) chips.push({ key: 'isFlashDeal', label: `Flash deal: ${filters.isFlashDeal ? 'Yes' : 'No'}` });
+  if (filters.isNegotiable !== undefined) chips.push({ key: 'isNegotiable', label: `Negotiable: ${filters.isNegotiable ? 'Yes' : 'No'}` });
+  if (filters.expiry?.from || filters.expiry?.to) {
+    chips.push({ key: 'expiry', label: `Expires: ${formatExpiryDay(filters.expiry.from)} to ${formatExpiryDay(filters.expiry.to)}` });
+  }
+  return chips;
+};
+
+export const removeFilterChip = (filters: ProductListFilters, chipKey: string): ProductListFilters => {
+  const separator = chipKey.indexOf(':');
+  const name = separator === -1 ? chipKey : chipKey.slice(0, separator);
+  const value = chipKey.slice(separator + 1);
+  const next = { ...filters };
+  const listFilter = LIST_FILTERS.find(({ key }) => key === name);
+  if (listFilter) {
+    next[listFilter.key] = (filters[listFilter.key] || []).filter(item => item !== value);
+  } else if (name === 'prices') {
+    next.prices = (filters.prices || []).filter(price => price.currency !== value);
+  } else {
+    delete next[name as keyof ProductListFilters];
+  }
+  return next;
+};
+
+/**
+ * Sort after a header click. A plain click sorts by the field alone, cycling
+ * ascending, descending and unsorted; with `additive` (shift-click) the field
+ * is added as the next level or cycled in place.
+ */
+export const toggleSort = (sort: ProductListSort[], field: ProductSortField, additive: boolean): ProductListSort[] => {
+  const nextDirection = (direction?: ProductListSort['direction']) =>
+    direction === undefined ? 'asc' : direction === 'asc' ? 'desc' : null;
+  const current = sort.find(level => level.field === field);
+  if (!additive) {
+    const direction = nextDirection(sort.length === 1 ? current?.direction : undefined);
+    return direction ? [{ field, direction }] : [];
+  }
+  if (!current) return [...sort, { field, direction: 'asc' }];
+  const direction = nextDirection(current.direction);
+  return direction
+    ? sort.map(level => (level.field === field ? { ...level, direction } : level))
+    : sort.filter(level => level.field !== field);
+};
@@ -0,0 +1,236 @@
+import { Constants } from '../services/constants/constants.services';
+import type { ProductRowData } from '../components/products/ExcelLikeProductForm';
+import { CustomColumn, normalizeCustomColumn, toCustomCellValue } from './customColumns';
+import { DeliveryHub, findHubByCountry, getHubPrices, normalizeCountryCode } from './deliveryHubs';
+
+/**
+ * Conversion of stored products into product grid rows, used to edit
+ * products in the grid and to export them in the grid's format.
+ */
+
+// A populated reference or just its ID
+type StoredRef<T extends object = object> = (T & { _id?: string }) | string | null;
+
+interface StoredDeliverable {
+  country?: string;
+  currency?: string;
+  basePrice?: number;
+  usd?: number;
+  exchangeRate?: number | null;
+  xe?: number;
+  paymentTerm?: unknown;
+  paymentMethod?: unknown;
+}
+
+// Product as returned by ProductService.get / list
+export interface StoredProduct {
+  _id?: string;
+  skuFamilyId?: StoredRef<{ name?: string; subSkuFamilies?: Array<{ subName?: string }>; images?: string[] }>;
+  subSkuFamilyId?: StoredRef;
+  gradeId?: StoredRef;
+  sellerId?: StoredRef;
+  groupCode?: string;
+  specification?: string;
+  storage?: string;
+  color?: string;
+  country?: string;
+  simType?: string;
+  ram?: string;
+  isStatus?: string;
+  status?: string;
+  condition?: string;
+  lockUnlock?: boolean | string;
+  warranty?: string;
+  batteryHealth?: string;
+  packing?: string;
+  currentLocation?: string;
+  countryDeliverables?: StoredDeliverable[];
+  deliveryLocation?: string[];
+  customMessage?: string;
+  stock?: number;
+  moq?: number;
+  weight?: number | string;
+  purchaseType?: string;
+  paymentTerm?: unknown;
+  paymentMethod?: unknown;
+  isNegotiable?: boolean;
+  tags?: string;
+  isFlashDeal?: boolean | string;
+  shippingTime?: string;
+  vendor?: string;
+  vendorListingNo?: string;
+  carrier?: string;
+  carrierListingNo?: string;
+  uniqueListingNo?: string;
+  adminCustomMessage?: string;
+  startTime?: string;
+  expiryTime?: string;
+  // IANA zone the schedule was entered in
+  scheduleTimeZone?: string;
+  remark?: string;
+  supplierListingNumber?: string;
+  customerListingNumber?: string;
+  sequence?: number;
+  customFields?: Record<string, unknown> | Map<string, unknown> | null;
+  customColumns?: unknown;
+}
+
+const refId = (value: StoredRef | undefined): string | null =>
+  (value && typeof value === 'object' ? value._id : value) || null;
+
+// Backend stores custom fields without the custom_ prefix (e.g., "notes")
+const toCustomKey = (key: string) => (key.startsWith('custom_') ? key : `custom_${key}`);
+
+const getCustomFieldEntries = (product: StoredProduct): Array<[string, unknown]> => {
+  const customFields = product.customFields;
+  if (customFields instanceof Map) return Array.from(customFields.entries());
+  return typeof customFields === 'object' && customFields !== null ? Object.entries(customFields) : [];
+};
+
+// Map stored option names (or codes) to codes, e.g. payment terms stored as full text
+const toOptionCodes = (
+  value: unknown,
+  options: Array<{ code: string; name: string }>,
+  textToCode: Record<string, string> = {}
+): string => {
+  if (!value) return '';
+  const values = Array.isArray(value) ? value : [value];
+  const codes: string[] = [];
+  values.forEach(item => {
+    const text = String(item ?? '').trim();
+    if (!text) return;
+    const match = options.find(opt => opt.name?.toLowerCase() === text.toLowerCase())
+      || options.find(opt => opt.code === text)
+      || options.find(opt => opt.code === textToCode[text.toLowerCase()]);
+    // If no match found, use as is (might already be a code)
+    codes.push(match ? match.code : text);
+  });
+  return codes.join(', ');
+};
+
+// Older products store payment terms as text instead of codes
+const PAYMENT_TERM_TEXT: Record<string, string> = {
+  'on order': 'USD_O',
+  'on delivery': 'USD_D',
+  'as in conformation': 'USD_CONF',
+};
+
+// Status is active/nonactive; older products use `status`, and anything unknown counts as active
+const toStatusCode = (product: StoredProduct): string => {
+  const value = String(product.isStatus || product.status || '').trim().toLowerCase();
+  if (value === 'non active') return 'nonactive';
+  return value === 'active' || value === 'nonactive' ? value : 'active';
+};
+
+// SIM types are matched to the country's options, exactly and then loosely
+const toSimValue = (simType: string | undefined, countryCode: string, constants: Constants | null): string => {
+  const simTypeValue = String(simType || '').trim();
+  if (!simTypeValue) return '';
+  const availableSimOptions = constants?.spec?.COUNTRY?.find(c => c.code === countryCode)?.SIM || [];
+  const simUpper = simTypeValue.toUpperCase();
+  return availableSimOptions.find(opt => String(opt).toUpperCase().trim() === simUpper)
+    || availableSimOptions.find(opt => {
+      const optUpper = String(opt).toUpperCase();
+      return optUpper.includes(simUpper) || simUpper.includes(optUpper);
+    })
+    // Might be a valid option not in constants
+    || simTypeValue;
+};
+
+// Stable identity of a grid row; submit results refer to rows by it
+export const createRowId = (): string => `row_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const productToRowData = (
+  product: StoredProduct,
+  constants: Constants | null,
+  deliveryHubs: DeliveryHub[]
+): ProductRowData => {
+  const skuFamily = product.skuFamilyId && typeof product.skuFamilyId === 'object' ? product.skuFamilyId : null;
+
+  // The USD entry of each hub holds its base price and rate
+  const hubDeliverables = deliveryHubs.map(hub => (Array.isArray(product.countryDeliverables)
+    ? product.countryDeliverables.find(cd => cd.currency === 'USD' && findHubByCountry([hub], cd.country))
+    : undefined));
+  const hubPrices: Record<string, number> = {};
+  deliveryHubs.forEach((hub, hubIndex) => Object.assign(hubPrices, getHubPrices(hub, hubDeliverables[hubIndex])));
+
+  const customFieldsObj: Record<string, string> = {};
+  getCustomFieldEntries(product).forEach(([key, value]) => {
+    customFieldsObj[toCustomKey(key)] = toCustomCellValue(value);
+  });
+
+  // The specification holds the sub model name (e.g., "Pro Max")
+  const specification = product.specification || '';
+  const subModelName = skuFamily?.subSkuFamilies?.find(sub => sub.subName === specification)?.subName || specification;
+
+  // Database may store full names (Hongkong) but the dropdown uses spec country codes (HK)
+  const countryCode = normalizeCountryCode(product.country ? String(product.country) : '', constants) || '';
+
+  // Payment term and method live on the product or, for older products, on a hub deliverable
+  const paymentTerm = product.paymentTerm || hubDeliverables.find(cd => cd?.paymentTerm)?.paymentTerm;
+  const paymentMethod = product.paymentMethod || hubDeliverables.find(cd => cd?.paymentMethod)?.paymentMethod;
+
+  return {
+    rowId: createRowId(),
+    subModelName,
+    storage: product.storage || '',
+    colour: product.color || '',
+    country: countryCode,
+    sim: toSimValue(product.simType, countryCode, constants),
+    version: specification,
+    grade: refId(product.gradeId) || '',
+    status: toStatusCode(product),
+    condition: product.condition || '',
+    lockUnlock: product.lockUnlock ? '1' : '0',
+    warranty: product.warranty || '',
+    batteryHealth: product.batteryHealth || '',
+    packing: product.packing || '',
+    currentLocation: product.currentLocation || '',
+    ...hubPrices,
+    deliveryLocation: Array.isArray(product.deliveryLocation) ? product.deliveryLocation : [],
+    customMessage: product.customMessage || '',
+    totalQty: product.stock || 0,
+    moqPerVariant: product.moq || 0,
+    weight: product.weight || '',
+    purchaseType: product.purchaseType || 'partial',
+    paymentTerm: toOptionCodes(paymentTerm, constants?.paymentTerm || [], PAYMENT_TERM_TEXT),
+    paymentMethod: toOptionCodes(paymentMethod, constants?.paymentMethod || []),
+    negotiableFixed: product.isNegotiable ? '1' : '0',
+    tags: product.tags || '',
+    flashDeal: product.isFlashDeal === 'true' || product.isFlashDeal === true ? '1' : '0',
+    shippingTime: product.shippingTime || '',
+    shippingPreset: '',
+    vendor: product.vendor || '',
+    vendorListingNo: product.vendorListingNo || '',
+    carrier: product.carrier || '',
+    carrierListingNo: product.carrierListingNo || '',
+    uniqueListingNo: product.uniqueListingNo || '',
+    adminCustomMessage: product.adminCustomMessage || '',
+    // Products saved before schedules had a zone are shown in the first hub's zone
+    scheduleHub: (deliveryHubs.find(hub => hub.timeZone === product.scheduleTimeZone) || deliveryHubs[0])?.code || '',
+    startTime: product.startTime || '',
+    endTime: product.expiryTime || '',
+    remark: product.remark || '',
+    supplierId: refId(product.sellerId) || '',
+    subSkuFamilyId: refId(product.subSkuFamilyId),
+    supplierListingNumber: product.supplierListingNumber || '',
+    customerListingNumber: product.customerListingNumber || '',
+    skuFamilyId: refId(product.skuFamilyId) || '',
+    ram: product.ram || '',
+    sequence: product.sequence || undefined,
+    images: skuFamily?.images || [],
+    ...customFieldsObj,
+  };
+};
+
+/**
+ * Custom columns of a set of products: the definitions stored on the first
+ * product, or text columns for every custom field key when none are stored.
+ */
+export const getProductCustomColumns = (products: StoredProduct[]): CustomColumn[] => {
+  const stored = products[0]?.customColumns;
+  if (Array.isArray(stored)) return stored.map(normalizeCustomColumn);
+  const keys = new Set<string>();
+  products.forEach(product => getCustomFieldEntries(product).forEach(([key]) => keys.add(toCustomKey(key))));
+  return Array.from(keys).map(key => normalizeCustomColumn({ key }));
+};
@@ -0,0 +1,218 @@
+import { Workbook } from 'exceljs';
+import type { Cell } from 'exceljs';
+import { formatCellValue, GridValueContext } from './productGridValues';
+
+/**
+ * Product spreadsheets (XLSX / CSV) in the browser: reading them so their rows
+ * can be loaded into the product grid and reviewed before anything is
+ * submitted, and writing grid rows out in the same format.
+ */
+
+export const SPREADSHEET_ACCEPT = '.xlsx,.csv';
+
+export type SpreadsheetFormat = 'xlsx' | 'csv';
+
+// First sheet of a file, header row first
+export interface ImportedSheet {
+  fileName: string;
+  cells: string[][];
+}
+
+export interface SheetColumn {
+  key: string;
+  label: string;
+  group?: string;
+  subgroup?: string;
+}
+
+// Header names used by the bulk import template and the product API, by grid field
+const HEADER_ALIASES: Record<string, string[]> = {
+  skuFamilyId: ['skuFamily', 'skuFamilyCode', 'skuFamilyName'],
+  subModelName: ['subModel'],
+  colour: ['color'],
+  sim: ['simType'],
+  version: ['specification'],
+  status: ['isStatus'],
+  totalQty: ['stock', 'qty', 'quantity'],
+  moqPerVariant: ['moq'],
+  negotiableFixed: ['isNegotiable', 'negotiable'],
+  flashDeal: ['isFlashDeal'],
+  endTime: ['expiryTime'],
+  scheduleHub: ['scheduleTimeZone', 'timeZone'],
+};
+
+const normalizeHeader = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const isSpreadsheetFile = (file: File): boolean => /\.(xlsx|csv)$/i.test(file.name);
+
+/**
+ * Header of a grid column in a spreadsheet. Delivery hub price columns share
+ * labels (USD, XE), so they are prefixed with their hub.
+ */
+export const getSheetHeader = (column: SheetColumn): string =>
+  column.subgroup && column.group ? `${column.group} ${column.label}` : column.label;
+
+// Dates become "yyyy-MM-dd HH:mm", which coerceCellValue reads back. Excel stores the
+// wall-clock time without a zone and exceljs returns it as a UTC instant.
+const toCellText = (cell: Cell): string => {
+  const value = cell.formula ? cell.result : cell.value;
+  if (value instanceof Date) {
+    const pad = (part: number) => String(part).padStart(2, '0');
+    const day = `${value.getUTCFullYear()}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())}`;
+    const time = `${pad(value.getUTCHours())}:${pad(value.getUTCMinutes())}`;
+    return time === '00:00' ? day : `${day} ${time}`;
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return String(value);
+  // Rich text, hyperlinks and errors
+  return cell.text;
+};
+
+// RFC 4180 CSV: quoted fields may hold commas, line breaks and doubled quotes
+const parseCsv = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      records.push([...record, field]);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) records.push([...record, field]);
+  return records;
+};
+
+const toCsvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Cells of the first sheet as text, without empty rows. */
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  let matrix: string[][];
+  if (/\.csv$/i.test(file.name)) {
+    // CSV is read as text so values are not guessed into numbers or dates
+    matrix = parseCsv((await file.text()).replace(/^\uFEFF/, ''));
+  } else {
+    const workbook = new Workbook();
+    await workbook.xlsx.load(await file.arrayBuffer());
+    const sheet = workbook.worksheets[0];
+    if (!sheet) return [];
+    matrix = [];
+    sheet.eachRow(row => {
+      matrix.push(Array.from({ length: sheet.columnCount }, (_, col) => toCellText(row.getCell(col + 1))));
+    });
+  }
+  return matrix
+    .map(cells => cells.map(cell => cell.trim()))
+    .filter(cells => cells.some(cell => cell !== ''));
+};
+
+/**
+ * Grid field for each header (null when no column matches) and the headers
+ * that were ignored. Headers match a column's key, its label or a known alias,
+ * ignoring case, spaces and punctuation; each column is used once.
+ */
+export const matchSheetHeaders = (headers: string[], columns: SheetColumn[]) => {
+  const used = new Set<string>();
+  const ignored: string[] = [];
+  const fields = headers.map(header => {
+    const needle = normalizeHeader(header);
+    const column = needle && columns.find(col => !used.has(col.key) && (
+      normalizeHeader(col.key) === needle
+      || normalizeHeader(getSheetHeader(col)) === needle
+      || (HEADER_ALIASES[col.key] || []).some(alias => normalizeHeader(alias) === needle)
+    ));
+    if (!column) {
+      if (header.trim()) ignored.push(header.trim());
+      return null;
+    }
+    used.add(column.key);
+    return column.key;
+  });
+  return { fields, ignored };
+};
+
+/**
+ * Cell writes for the data rows below the header, starting at grid row
+ * `startRow`. Empty cells are skipped so the grid's defaults are kept.
+ */
+export const toSheetEntries = (records: string[][], fields: Array<string | null>, startRow: number) => {
+  const entries: Array<{ row: number; field: string; raw: string }> = [];
+  records.forEach((cells, index) => {
+    const rowEntries: typeof entries = [];
+    fields.forEach((field, col) => {
+      const raw = cells[col] ?? '';
+      if (field && raw !== '') rowEntries.push({ row: startRow + index, field, raw });
+    });
+    // SIM is matched against the row's country, and changing the country clears it;
+    // start and end times are read in the zone of the row's schedule hub
+    const isContextField = (field: string) => field === 'country' || field === 'scheduleHub';
+    rowEntries.sort((a, b) => Number(isContextField(b.field)) - Number(isContextField(a.field)));
+    entries.push(...rowEntries);
+  });
+  return entries;
+};
+
+// Plain numbers are written as numbers; values with leading zeros stay text
+const toSheetCell = (text: string): string | number =>
+  /^-?(0|[1-9]\d*)(\.\d+)?$/.test(text) ? Number(text) : text;
+
+/**
+ * Header row plus one row per grid row, with option names instead of codes
+ * (grade titles, packing and payment term names), as the import reads them.
+ */
+export const toSheetCells = (
+  rows: Array<Record<string, unknown>>,
+  columns: SheetColumn[],
+  ctx: GridValueContext
+): Array<Array<string | number>> => [
+  columns.map(getSheetHeader),
+  ...rows.map(row => columns.map(col => toSheetCell(formatCellValue(col.key, row[col.key], ctx, row)))),
+];
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Download cells as `${fileName}.xlsx` or `.csv`. */
+export const writeSpreadsheet = async (fileName: string, cells: Array<Array<string | number>>, format: SpreadsheetFormat) => {
+  if (format === 'csv') {
+    // The byte order mark lets Excel open the file as UTF-8
+    const text = cells.map(row => row.map(toCsvField).join(',')).join('\r\n');
+    downloadBlob(new Blob([`\uFEFF${text}`], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+    return;
+  }
+  const workbook = new Workbook();
+  workbook.addWorksheet('Products').addRows(cells);
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(
+    new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `${fileName}.xlsx`
+  );
+};
@@ -0,0 +1,70 @@
+import type { Holiday, HolidayCalendars } from '../services/holidayCalendar/holidayCalendarStorage';
+import { formatDay } from './productGridValues';
+
+/**
+ * Shipping time presets. Relative presets (today, tomorrow, "+N business
+ * days") are kept on the row next to the date they resolve to, so the date can
+ * be worked out again when a draft is reopened later. Business days skip
+ * weekends and the holidays of the row's current location.
+ */
+
+export const BUSINESS_DAY_OPTIONS = [1, 2, 3, 5, 7, 10];
+
+export const SHIPPING_PRESET_OPTIONS: Array<{ code: string; name: string }> = [
+  { code: 'today', name: 'Today' },
+  { code: 'tomorrow', name: 'Tomorrow' },
+  ...BUSINESS_DAY_OPTIONS.map(days => ({
+    code: `+${days}bd`,
+    name: `+${days} business ${days === 1 ? 'day' : 'days'}`,
+  })),
+  // A fixed date picked by the seller
+  { code: 'calendar', name: 'Calendar' },
+];
+
+const getBusinessDays = (preset: string): number | null => {
+  const match = preset.match(/^\+(\d+)bd$/);
+  return match ? Number(match[1]) : null;
+};
+
+export const isRelativeShippingPreset = (preset: string | undefined): boolean =>
+  preset === 'today' || preset === 'tomorrow' || getBusinessDays(preset || '') !== null;
+
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+export const addBusinessDays = (from: Date, days: number, holidays: Holiday[]): Date => {
+  const skipped = new Set(holidays.map(holiday => holiday.date));
+  const date = startOfDay(from);
+  let remaining = days;
+  while (remaining > 0) {
+    date.setDate(date.getDate() + 1);
+    const weekday = date.getDay();
+    if (weekday !== 0 && weekday !== 6 && !skipped.has(formatDay(date))) remaining--;
+  }
+  return date;
+};
+
+/** Date (yyyy-MM-dd) a relative preset ships on as of `today`; null for a fixed date or no preset. */
+export const resolveShippingPreset = (preset: string | undefined, holidays: Holiday[], today: Date = new Date()): string | null => {
+  if (preset === 'today') return formatDay(startOfDay(today));
+  if (preset === 'tomorrow') {
+    const tomorrow = startOfDay(today);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    return formatDay(tomorrow);
+  }
+  const days = getBusinessDays(preset || '');
+  return days === null ? null : formatDay(addBusinessDays(today, days, holidays));
+};
+
+/** The row with its relative shipping preset resolved again; returned as is when nothing changes. */
+export const refreshShippingTime = <T extends { shippingPreset?: string; shippingTime?: string; currentLocation?: string }>(
+  row: T,
+  calendars: HolidayCalendars,
+  today: Date = new Date()
+): T => {
+  const date = resolveShippingPreset(row.shippingPreset, calendars[row.currentLocation || ''] || [], today);
+  return date !== null && date !== row.shippingTime ? { ...row, shippingTime: date } : row;
+};
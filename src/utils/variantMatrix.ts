@@ -0,0 +1,105 @@
+import type { VariantOption } from '../components/products/CascadingVariantSelector';
+
+/**
+ * Variant matrix: every combination of the chosen models with any of the
+ * optional axes (storage, colour, grade, country spec and SIM type), as
+ * variants to seed product grid rows with.
+ */
+
+export type MatrixAxis = 'storage' | 'color' | 'grade' | 'country' | 'sim';
+
+export interface MatrixChoice {
+  value: string;
+  label: string;
+}
+
+export const MATRIX_AXES: Array<{ axis: MatrixAxis; label: string; field: string }> = [
+  { axis: 'storage', label: 'Storage', field: 'storage' },
+  { axis: 'color', label: 'Colour', field: 'colour' },
+  { axis: 'grade', label: 'Grade', field: 'grade' },
+  { axis: 'country', label: 'Country Spec', field: 'country' },
+  { axis: 'sim', label: 'SIM Type', field: 'sim' },
+];
+
+// Upper bound on generated variants so one selection cannot flood the grid
+export const MAX_MATRIX_VARIANTS = 500;
+
+export interface MatrixCombination {
+  // Stable across re-renders, used to remember excluded combinations
+  key: string;
+  variant: VariantOption;
+  // Model first, then the value of each axis in use ('' when the axis is unused)
+  labels: string[];
+}
+
+type AxisChoices = Partial<Record<MatrixAxis, MatrixChoice[]>>;
+
+// Unused axes contribute a single empty value
+const orNone = (choices: MatrixChoice[] | undefined): Array<MatrixChoice | null> =>
+  choices && choices.length > 0 ? choices : [null];
+
+/**
+ * Country and SIM pairs. A SIM is only paired with countries whose spec lists
+ * it; a country that supports none of the chosen SIMs keeps its SIM blank.
+ */
+const getCountrySimPairs = (
+  axes: AxisChoices,
+  simOptions: (countryCode: string) => string[]
+): Array<{ country: MatrixChoice | null; sim: MatrixChoice | null }> =>
+  orNone(axes.country).flatMap(country => {
+    const sims = country ? (axes.sim || []).filter(sim => simOptions(country.value).includes(sim.value)) : [];
+    return orNone(sims).map(sim => ({ country, sim }));
+  });
+
+/** Number of combinations, without building them. */
+export const countVariantMatrix = (
+  models: MatrixChoice[],
+  axes: AxisChoices,
+  simOptions: (countryCode: string) => string[]
+): number =>
+  models.length
+  * orNone(axes.storage).length
+  * orNone(axes.color).length
+  * orNone(axes.grade).length
+  * getCountrySimPairs(axes, simOptions).length;
+
+/** Countries that support none of the chosen SIM types. */
+export const getCountriesWithoutSim = (
+  axes: AxisChoices,
+  simOptions: (countryCode: string) => string[]
+): MatrixChoice[] =>
+  (axes.sim || []).length === 0
+    ? []
+    : (axes.country || []).filter(country => !(axes.sim || []).some(sim => simOptions(country.value).includes(sim.value)));
+
+export const buildVariantMatrix = (
+  models: MatrixChoice[],
+  axes: AxisChoices,
+  simOptions: (countryCode: string) => string[]
+): MatrixCombination[] => {
+  const pairs = getCountrySimPairs(axes, simOptions);
+  return models.flatMap(model =>
+    orNone(axes.storage).flatMap(storage =>
+      orNone(axes.color).flatMap(color =>
+        orNone(axes.grade).flatMap(grade =>
+          pairs.map(({ country, sim }) => {
+            const values = [storage, color, grade, country, sim];
+            return {
+              key: [model, ...values].map(choice => choice?.value ?? '').join('|'),
+              variant: {
+                skuFamilyId: model.value,
+                subModelName: model.label,
+                storage: storage?.value || '',
+                color: color?.value || '',
+                grade: grade?.value,
+                country: country?.value,
+                sim: sim?.value,
+              },
+              labels: [model.label, ...values.map(choice => choice?.label ?? '')],
+            };
+          })
+        )
+      )
+    )
+  );
+};